@@ -0,0 +1,20 @@
+import { copyFile, mkdir } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+let corePackage;
+try {
+  corePackage = require.resolve('@ffmpeg/core/package.json');
+} catch {
+  console.error('@ffmpeg/core is not installed. Run "npm install --save-dev @ffmpeg/core@0.12" first.');
+  process.exit(1);
+}
+const coreDir = path.join(path.dirname(corePackage), 'dist', 'umd');
+const targetDir = path.join(process.cwd(), 'public', 'ffmpeg');
+
+await mkdir(targetDir, { recursive: true });
+for (const file of ['ffmpeg-core.js', 'ffmpeg-core.wasm']) {
+  await copyFile(path.join(coreDir, file), path.join(targetDir, file));
+  console.log(`Copied ${file} to ${path.relative(process.cwd(), targetDir)}`);
+}
@@ -1,45 +1,94 @@
 import { NextResponse } from 'next/server';
+import {
+  getDefaultProviderId,
+  listTtsProviders,
+  resolveTtsProvider,
+  TtsError,
+  type TtsProvidersResponseBody,
+  type TtsResponseBody,
+  type TtsSegmentBody,
+} from '../../../lib/tts';
+import { segmentText } from '../../../lib/tts/segmentText';
+
+export const runtime = 'nodejs';
 
 const DEFAULT_VOICE = 'en-US';
-const GOOGLE_TTS_ENDPOINT = 'https://translate.googleapis.com/translate_tts';
-const USER_AGENT =
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/117.0 Safari/537.36';
+const MAX_TEXT_LENGTH = 20000;
+const MAX_CONCURRENT_REQUESTS = 3;
+
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+export async function GET() {
+  const body: TtsProvidersResponseBody = {
+    defaultProvider: getDefaultProviderId(),
+    providers: listTtsProviders(),
+  };
+  return NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } });
+}
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
+    const body = await request.json().catch(() => null);
     const text: string | undefined = body?.text;
     const voice: string = body?.voice ?? DEFAULT_VOICE;
 
     if (!text || typeof text !== 'string' || !text.trim()) {
-      return NextResponse.json({ error: 'Text is required for synthesis.' }, { status: 400 });
+      throw new TtsError('invalid_request', 'Text is required for synthesis.');
     }
-
-    const trimmed = text.trim().slice(0, 300);
-    const url = new URL(GOOGLE_TTS_ENDPOINT);
-    url.searchParams.set('ie', 'UTF-8');
-    url.searchParams.set('client', 'tw-ob');
-    url.searchParams.set('tl', voice);
-    url.searchParams.set('q', trimmed);
-
-    const response = await fetch(url.toString(), {
-      headers: { 'User-Agent': USER_AGENT },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json({ error: 'Unable to synthesize speech.' }, { status: 502 });
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new TtsError('invalid_request', `Text must be ${MAX_TEXT_LENGTH} characters or fewer.`);
+    }
+    if (typeof voice !== 'string') {
+      throw new TtsError('invalid_request', 'Voice must be a string.');
+    }
+    const breaks: unknown = body?.breaks ?? [];
+    if (
+      !Array.isArray(breaks) ||
+      !breaks.every((offset) => Number.isInteger(offset) && offset >= 0 && offset <= text.length)
+    ) {
+      throw new TtsError('invalid_request', 'Breaks must be character offsets within the text.');
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    return new NextResponse(arrayBuffer, {
-      headers: {
-        'Content-Type': 'audio/mpeg',
-        'Content-Length': String(arrayBuffer.byteLength),
-        'Cache-Control': 'no-store',
+    const provider = resolveTtsProvider(body?.provider);
+    const segments = segmentText(text, provider.maxChars, breaks);
+    const synthesized = await mapWithConcurrency(
+      segments,
+      MAX_CONCURRENT_REQUESTS,
+      async (segment): Promise<TtsSegmentBody> => {
+        const result = await provider.synthesize({ text: segment.text, voice }, request.signal);
+        return {
+          ...segment,
+          mimeType: result.mimeType,
+          audio: Buffer.from(result.audio).toString('base64'),
+          words: result.words,
+          phonemes: result.phonemes,
+        };
       },
-    });
+    );
+
+    const payload: TtsResponseBody = { provider: provider.id, voice, segments: synthesized };
+    return NextResponse.json(payload, { headers: { 'Cache-Control': 'no-store' } });
   } catch (error) {
+    if (error instanceof TtsError) {
+      return NextResponse.json(error.toBody(), { status: error.status });
+    }
     console.error('TTS API error', error);
-    return NextResponse.json({ error: 'Unexpected server error.' }, { status: 500 });
+    const fallback = new TtsError('internal_error', 'Unexpected server error.');
+    return NextResponse.json(fallback.toBody(), { status: fallback.status });
   }
 }
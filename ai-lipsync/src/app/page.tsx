@@ -1,17 +1,55 @@
 'use client';
 
 import Image from 'next/image';
-import { ChangeEvent, FormEvent, useMemo, useRef, useState } from 'react';
+import { ChangeEvent, FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { clsx } from 'clsx';
-import AvatarPreview from '../components/AvatarPreview';
+import AvatarPreview, { type AvatarModelInfo, type AvatarRenderController } from '../components/AvatarPreview';
+import BackdropSettings from '../components/BackdropSettings';
+import CaptionPreview from '../components/CaptionPreview';
+import CaptionSettings from '../components/CaptionSettings';
+import EmotionTimeline from '../components/EmotionTimeline';
+import PortraitAnchorEditor from '../components/PortraitAnchorEditor';
+import OutputSettings from '../components/OutputSettings';
+import ProjectLibrary from '../components/ProjectLibrary';
+import SafeAreaOverlay from '../components/SafeAreaOverlay';
+import WaveformScrubber from '../components/WaveformScrubber';
 import {
   AVATAR_PRESETS,
+  PLAYBACK_RATES,
   type AvatarPreset,
   type BackgroundOption,
   type CameraAngle,
   type EmotionKey,
+  type EngineProjectState,
+  type ExportFormat,
+  type SpeechPauses,
   useAvatarEngine,
 } from '../hooks/useAvatarEngine';
+import { useProjectLibrary } from '../hooks/useProjectLibrary';
+import {
+  createProjectDocument,
+  parseProject,
+  PROJECT_FILE_EXTENSION,
+  serializeProject,
+  type ProjectDocument,
+  type ProjectFields,
+} from '../lib/project';
+import { captureThumbnail, type LoadedProject } from '../lib/projectLibrary';
+import { DEFAULT_BACKDROP_STYLE, type BackdropStyle } from '../lib/backdrop';
+import { DEFAULT_CAPTION_STYLE, type CaptionStyle } from '../lib/captionOverlay';
+import { formatSrt, formatVtt } from '../lib/captions';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  findExportPreset,
+  resolveExportOutput,
+  type ExportSettings,
+} from '../lib/exportPresets';
+import { MAX_SEED } from '../lib/random';
+import { parseRigMapping } from '../lib/rigMapping';
+import { BACKGROUND_MODES, type BackgroundMode } from '../lib/sceneBackground';
+import { parseScript } from '../lib/scriptMarkup';
+import { annotateScript } from '../lib/sentiment';
+import type { TtsProviderId } from '../lib/tts/types';
 
 const BACKGROUND_OPTIONS: BackgroundOption[] = [
   {
@@ -20,18 +58,21 @@ const BACKGROUND_OPTIONS: BackgroundOption[] = [
     description: 'Deep violet cosmic gradient with soft haze.',
     className:
       'bg-[radial-gradient(circle_at_20%_20%,rgba(87,119,255,0.45),transparent_55%)] bg-[#050415]',
+    paint: { base: '#050415', glows: [{ x: 0.2, y: 0.2, radius: 0.55, color: 'rgba(87, 119, 255, 0.45)' }] },
   },
   {
     id: 'studio',
     label: 'Cinema Studio',
     description: 'Professional blue studio wash.',
     className: 'bg-gradient-to-br from-[#0b1120] via-[#0f172a] to-[#1e1b4b]',
+    paint: { base: '#0b1120', gradient: ['#0b1120', '#0f172a', '#1e1b4b'] },
   },
   {
     id: 'sunset',
     label: 'Sunset Pulse',
     description: 'Warm atmospheric glow for energetic sessions.',
     className: 'bg-gradient-to-br from-[#1a1037] via-[#ff4d6d] to-[#ffb347]',
+    paint: { base: '#1a1037', gradient: ['#1a1037', '#ff4d6d', '#ffb347'] },
   },
   {
     id: 'minimal',
@@ -39,6 +80,7 @@ const BACKGROUND_OPTIONS: BackgroundOption[] = [
     description: 'Clean neutral stage with subtle spotlight.',
     className:
       'bg-[radial-gradient(circle_at_50%_15%,rgba(255,255,255,0.12),transparent_65%)] bg-[#050608]',
+    paint: { base: '#050608', glows: [{ x: 0.5, y: 0.15, radius: 0.65, color: 'rgba(255, 255, 255, 0.12)' }] },
   },
   {
     id: 'hyper',
@@ -46,6 +88,7 @@ const BACKGROUND_OPTIONS: BackgroundOption[] = [
     description: 'Futuristic cyan grid energy field.',
     className:
       'bg-[#03111f] before:pointer-events-none before:absolute before:inset-0 before:content-[""] before:bg-[radial-gradient(circle_at_80%_20%,rgba(0,212,255,0.32),transparent_60%)]',
+    paint: { base: '#03111f', glows: [{ x: 0.8, y: 0.2, radius: 0.6, color: 'rgba(0, 212, 255, 0.32)' }] },
   },
 ];
 
@@ -64,6 +107,32 @@ const EMOTION_LABELS: Record<EmotionKey, string> = {
   neutral: 'Neutral',
 };
 
+const SPEECH_PAUSE_FIELDS: { key: keyof SpeechPauses; label: string }[] = [
+  { key: 'sentence', label: 'Sentence' },
+  { key: 'clause', label: 'Clause' },
+  { key: 'word', label: 'Split' },
+];
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
+
+const toFileName = (name: string) =>
+  name
+    .trim()
+    .replace(/[^a-z0-9-_]+/gi, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'project';
+
 const formatDuration = (seconds: number) => {
   if (!Number.isFinite(seconds) || seconds <= 0) {
     return '0:00';
@@ -102,15 +171,18 @@ const ChipToggle = ({
   active,
   label,
   onClick,
+  disabled,
 }: {
   active: boolean;
   label: string;
   onClick: () => void;
+  disabled?: boolean;
 }) => (
   <button
     onClick={onClick}
+    disabled={disabled}
     className={clsx(
-      'rounded-full px-3.5 py-1.5 text-xs font-medium transition',
+      'rounded-full px-3.5 py-1.5 text-xs font-medium transition disabled:cursor-not-allowed disabled:opacity-40',
       active
         ? 'bg-white text-slate-900 shadow-lg shadow-white/20'
         : 'bg-white/10 text-slate-300 hover:bg-white/15 hover:text-white',
@@ -195,48 +267,143 @@ const LoadingDots = () => (
 );
 
 export default function Home() {
+  const [cameraAngle, setCameraAngle] = useState<CameraAngle>(CAMERA_ANGLES[0]);
+  const [eyeContact, setEyeContact] = useState(false);
   const {
     face,
     setPreset,
     setCustomFace,
+    faceRig,
+    portraitAnchors,
+    setFaceRig,
+    setPortraitAnchors,
+    autoPlacePortraitAnchors,
+    avatarModel,
+    setCustomModel,
+    clearCustomModel,
+    backdrop,
+    setCustomBackdrop,
+    clearCustomBackdrop,
+    rigMapping,
+    setRigMapping,
+    gestureSeed,
+    updateGestureSeed,
+    gestureIntensity,
+    updateGestureIntensity,
     regenerateGestures,
-    animationState,
+    animationRef,
+    animationReadout,
     emotions,
     setEmotionValue,
+    autoEmotion,
+    setAutoEmotion,
+    emotionTimeline,
+    setEmotionKeyframe,
+    deleteEmotionKeyframe,
+    clearEmotionTimeline,
     play,
     pause,
     isPlaying,
     isLoadingAudio,
     isGeneratingSpeech,
     isProcessingVideo,
+    videoProgress,
+    cancelVideoProcessing,
     statusMessage,
-    playbackProgress,
+    playbackTime,
+    seek,
+    playbackRate,
+    setPlaybackRate,
+    loopRegion,
+    setLoopRegion,
+    isLoopEnabled,
+    setLoopEnabled,
+    waveformPeaks,
     audioDuration,
     audioName,
     loadAudioFromFile,
     loadAudioFromVideo,
+    startMicrophone,
+    stopMicrophone,
+    isMicActive,
+    isRecordingMic,
+    micDevices,
+    micDeviceId,
+    selectMicDevice,
     generateSpeechFromText,
+    speechSegments,
+    captions,
+    speechPauses,
+    setSpeechPause,
+    ttsProviders,
+    defaultTtsProvider,
     exportVideo,
+    renderVideoOffline,
+    cancelExport,
+    exportProgress,
+    canRenderOffline,
     isExporting,
     hasAudio,
     updateVolume,
     volume,
-  } = useAvatarEngine();
+    captureProjectState,
+    restoreProjectState,
+    exportAudioBlob,
+    audioRevision,
+  } = useAvatarEngine({ eyeContact: eyeContact ? cameraAngle : null });
+  const {
+    isSupported: isLibrarySupported,
+    entries: libraryEntries,
+    storageUsage,
+    currentProjectId,
+    isSaving: isAutosaving,
+    lastSavedAt,
+    save: saveToLibrary,
+    open: openLibraryProject,
+    openLast: openLastLibraryProject,
+    rename: renameLibraryProject,
+    duplicate: duplicateLibraryProject,
+    remove: removeLibraryProject,
+    detach: detachLibraryProject,
+  } = useProjectLibrary();
 
   const [background, setBackground] = useState<BackgroundOption>(BACKGROUND_OPTIONS[0]);
-  const [cameraAngle, setCameraAngle] = useState<CameraAngle>(CAMERA_ANGLES[0]);
   const [ttsText, setTtsText] = useState(
     'Hello! I am your AI-driven avatar. Adjust my emotions, upload audio, or synthesize speech to bring me to life.',
   );
   const [voice, setVoice] = useState('en-US');
+  const [ttsProvider, setTtsProvider] = useState<TtsProviderId | ''>('');
   const [toast, setToast] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(
     null,
   );
 
+  const [renderMode, setRenderMode] = useState<'realtime' | 'offline'>('realtime');
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>('scene');
+  const [backdropStyle, setBackdropStyle] = useState<BackdropStyle>(DEFAULT_BACKDROP_STYLE);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showSafeArea, setShowSafeArea] = useState(false);
+  const exportPreset = findExportPreset(exportSettings.presetId);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [burnInCaptions, setBurnInCaptions] = useState(false);
+  const [exportCaptionFiles, setExportCaptionFiles] = useState(true);
+  const [recordMic, setRecordMic] = useState(false);
+  const [projectName, setProjectName] = useState('Untitled project');
+  const [embedProjectAudio, setEmbedProjectAudio] = useState(true);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [isLibraryReady, setIsLibraryReady] = useState(false);
+
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const renderControllerRef = useRef<AvatarRenderController | null>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
   const faceInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [modelInfo, setModelInfo] = useState<AvatarModelInfo | null>(null);
+  const [rigMappingDraft, setRigMappingDraft] = useState('');
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const isRestoringRef = useRef(false);
+  const hasRestoredLastProjectRef = useRef(false);
+  const savedAudioRef = useRef<{ projectId: string | null; revision: number } | null>(null);
 
   const handleAudioUpload = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -258,6 +425,10 @@ export default function Home() {
       await loadAudioFromVideo(file);
       setToast({ type: 'success', message: `Synced with video: ${file.name}` });
     } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setToast({ type: 'info', message: 'Video processing cancelled.' });
+        return;
+      }
       setToast({ type: 'error', message: (error as Error).message ?? 'Video processing failed' });
     }
   };
@@ -274,16 +445,95 @@ export default function Home() {
     }
   };
 
+  const handleModelUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setModelInfo(null);
+      setCustomModel(file);
+      setToast({ type: 'info', message: `Loading ${file.name}...` });
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to load 3D model' });
+    }
+  };
+
+  const handleModelLoaded = useCallback((info: AvatarModelInfo) => {
+    setModelInfo(info);
+    setRigMappingDraft(JSON.stringify(info.detectedMapping, null, 2));
+    setToast({
+      type: 'success',
+      message: `3D model ready: ${info.morphTargets.length} blendshapes, ${info.bones.length} bones.`,
+    });
+  }, []);
+
+  const handleModelError = useCallback(
+    (error: Error) => {
+      clearCustomModel();
+      setModelInfo(null);
+      setToast({ type: 'error', message: error.message ?? 'Unable to load 3D model' });
+    },
+    [clearCustomModel],
+  );
+
+  const handleBackdropUpload = (file: File) => {
+    try {
+      setCustomBackdrop(file);
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to load backdrop' });
+    }
+  };
+
+  const handleBackdropError = useCallback(
+    (error: Error) => {
+      clearCustomBackdrop();
+      setToast({ type: 'error', message: error.message ?? 'Unable to load backdrop' });
+    },
+    [clearCustomBackdrop],
+  );
+
+  const handleApplyRigMapping = () => {
+    try {
+      setRigMapping(parseRigMapping(rigMappingDraft));
+      setToast({ type: 'success', message: 'Rig mapping applied.' });
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Invalid rig mapping' });
+    }
+  };
+
+  const handleResetRigMapping = () => {
+    setRigMapping(null);
+    if (modelInfo) {
+      setRigMappingDraft(JSON.stringify(modelInfo.detectedMapping, null, 2));
+    }
+  };
+
   const handleGenerateSpeech = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     try {
-      await generateSpeechFromText(ttsText, voice);
+      await generateSpeechFromText(ttsText, voice, ttsProvider || undefined);
       setToast({ type: 'success', message: 'Speech synthesized successfully.' });
     } catch (error) {
       setToast({ type: 'error', message: (error as Error).message ?? 'Text-to-speech failed' });
     }
   };
 
+  const handleSuggestEmotions = () => {
+    const { script, inserted } = annotateScript(ttsText);
+    setTtsText(script);
+    setToast(
+      inserted
+        ? { type: 'success', message: `Added ${inserted} emotion tag${inserted === 1 ? '' : 's'}.` }
+        : { type: 'info', message: 'No emotion changes found in the script.' },
+    );
+  };
+
+  const runPlaybackAction = (action: Promise<void>) => {
+    action.catch((error) =>
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to update playback' }),
+    );
+  };
+
   const handlePlayToggle = async () => {
     if (!hasAudio) {
       setToast({ type: 'info', message: 'Load or generate audio first.' });
@@ -300,28 +550,246 @@ export default function Home() {
     }
   };
 
-  const handleExport = async (format: 'webm' | 'mp4') => {
+  const handleMicToggle = async () => {
+    try {
+      if (isMicActive) {
+        await stopMicrophone();
+        if (isRecordingMic) {
+          setToast({ type: 'success', message: 'Microphone take loaded for playback.' });
+        }
+      } else {
+        await startMicrophone({ record: recordMic });
+      }
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Microphone failed' });
+    }
+  };
+
+  const handleMicDeviceChange = async (deviceId: string) => {
+    try {
+      await selectMicDevice(deviceId);
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to switch microphone' });
+    }
+  };
+
+  const downloadCaptions = (format: 'srt' | 'vtt', baseName = `avatar-sync-${Date.now()}`) => {
+    const text = format === 'srt' ? formatSrt(captions) : formatVtt(captions);
+    downloadBlob(
+      new Blob([text], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }),
+      `${baseName}.${format}`,
+    );
+  };
+
+  const isOfflineVideo = renderMode === 'offline' && canRenderOffline;
+  // MP4 has no alpha channel; WebM and PNG sequences keep it.
+  const isTransparent = backgroundMode === 'transparent';
+
+  const handleExport = async (format: ExportFormat) => {
     if (!hasAudio) {
       setToast({ type: 'info', message: 'Provide audio before exporting.' });
       return;
     }
     try {
-      const blob = await exportVideo(canvasRef.current, format);
-      const url = URL.createObjectURL(blob);
-      const anchor = document.createElement('a');
-      anchor.href = url;
-      anchor.download = `avatar-sync-${Date.now()}.${format}`;
-      document.body.appendChild(anchor);
-      anchor.click();
-      anchor.remove();
-      URL.revokeObjectURL(url);
-      setToast({ type: 'success', message: `Exported ${format.toUpperCase()} successfully.` });
+      const options = {
+        captionStyle: burnInCaptions ? captionStyle : null,
+        transparent: isTransparent,
+        output: resolveExportOutput(exportSettings),
+      };
+      const blob =
+        format === 'png' || isOfflineVideo
+          ? await renderVideoOffline(renderControllerRef.current, format, options)
+          : await exportVideo(renderControllerRef.current, format, options);
+      const baseName = `avatar-sync-${Date.now()}`;
+      downloadBlob(blob, `${baseName}.${format === 'png' ? 'zip' : format}`);
+      if (exportCaptionFiles && captions.length) {
+        downloadCaptions('srt', baseName);
+        downloadCaptions('vtt', baseName);
+      }
+      setToast({
+        type: 'success',
+        message: `Exported ${format === 'png' ? 'PNG sequence' : format.toUpperCase()} successfully.`,
+      });
     } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        setToast({ type: 'info', message: 'Render cancelled.' });
+        return;
+      }
       setToast({ type: 'error', message: (error as Error).message ?? 'Export failed' });
     }
   };
 
-  const playbackPercent = Math.min(100, Math.max(0, playbackProgress * 100));
+  const buildProjectFields = useCallback(
+    (engineState: EngineProjectState): ProjectFields => ({
+      ...engineState,
+      name: projectName.trim() || 'Untitled project',
+      scene: { backgroundId: background.id, cameraAngleId: cameraAngle.id },
+      tts: { text: ttsText, voice, provider: ttsProvider || null, pauses: speechPauses },
+    }),
+    [background.id, cameraAngle.id, projectName, speechPauses, ttsProvider, ttsText, voice],
+  );
+
+  const applyProjectDocument = useCallback(
+    async (project: ProjectDocument) => {
+      isRestoringRef.current = true;
+      try {
+        const { missingAudio } = await restoreProjectState(project);
+        setProjectName(project.name);
+        setBackground(
+          BACKGROUND_OPTIONS.find((option) => option.id === project.scene.backgroundId) ??
+            BACKGROUND_OPTIONS[0],
+        );
+        setCameraAngle(
+          CAMERA_ANGLES.find((option) => option.id === project.scene.cameraAngleId) ?? CAMERA_ANGLES[0],
+        );
+        setTtsText(project.tts.text);
+        setVoice(project.tts.voice);
+        setTtsProvider(project.tts.provider ?? '');
+        return missingAudio;
+      } finally {
+        isRestoringRef.current = false;
+      }
+    },
+    [restoreProjectState],
+  );
+
+  // Library audio is stored as a Blob, handed to the engine through a short-lived object URL.
+  const applyLibraryProject = useCallback(
+    async ({ document, audio }: LoadedProject) => {
+      const url = audio ? URL.createObjectURL(audio) : null;
+      try {
+        return await applyProjectDocument({
+          ...document,
+          audio: document.audio && { source: 'reference', name: document.audio.name, url },
+        });
+      } finally {
+        if (url) {
+          URL.revokeObjectURL(url);
+        }
+      }
+    },
+    [applyProjectDocument],
+  );
+
+  // Only the session that was open before the reload is restored, once.
+  useEffect(() => {
+    if (hasRestoredLastProjectRef.current) {
+      return;
+    }
+    hasRestoredLastProjectRef.current = true;
+    openLastLibraryProject()
+      .then((project) => (project ? applyLibraryProject(project) : null))
+      .catch((error) => console.error(error))
+      .finally(() => setIsLibraryReady(true));
+  }, [applyLibraryProject, openLastLibraryProject]);
+
+  const autosave = useCallback(async () => {
+    const engineState = await captureProjectState({ embedAudio: false });
+    const saved = savedAudioRef.current;
+    const audioChanged = !saved || saved.projectId !== currentProjectId || saved.revision !== audioRevision;
+    const canvas = canvasRef.current;
+    const entry = await saveToLibrary({
+      document: createProjectDocument(buildProjectFields(engineState)),
+      audio: audioChanged ? exportAudioBlob() : undefined,
+      thumbnail: canvas ? await captureThumbnail(canvas) : undefined,
+    });
+    savedAudioRef.current = { projectId: entry.id, revision: audioRevision };
+  }, [audioRevision, buildProjectFields, captureProjectState, currentProjectId, exportAudioBlob, saveToLibrary]);
+
+  useEffect(() => {
+    if (!isLibrarySupported || !isLibraryReady || isRestoringRef.current || isMicActive) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      autosave().catch((error) => console.error('Autosave failed', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [autosave, isLibraryReady, isLibrarySupported, isMicActive]);
+
+  const handleOpenLibraryProject = async (id: string) => {
+    try {
+      const missingAudio = await applyLibraryProject(await openLibraryProject(id));
+      setToast(
+        missingAudio
+          ? { type: 'info', message: `Project opened without its audio ("${missingAudio}").` }
+          : { type: 'success', message: 'Project opened from library.' },
+      );
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to open project' });
+    }
+  };
+
+  const handleDuplicateLibraryProject = async (id: string) => {
+    try {
+      const entry = await duplicateLibraryProject(id);
+      setToast({ type: 'success', message: `Created ${entry.name}` });
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to duplicate project' });
+    }
+  };
+
+  const handleRenameLibraryProject = async (id: string, name: string) => {
+    // The open project is renamed through its state so the next autosave doesn't undo it.
+    if (id === currentProjectId) {
+      setProjectName(name);
+      return;
+    }
+    try {
+      await renameLibraryProject(id, name);
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to rename project' });
+    }
+  };
+
+  const handleDeleteLibraryProject = async (id: string) => {
+    try {
+      await removeLibraryProject(id);
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to delete project' });
+    }
+  };
+
+  const handleSaveProject = async () => {
+    setIsSavingProject(true);
+    try {
+      const engineState = await captureProjectState({ embedAudio: embedProjectAudio });
+      const json = serializeProject(buildProjectFields(engineState));
+      downloadBlob(
+        new Blob([json], { type: 'application/json' }),
+        `${toFileName(projectName)}${PROJECT_FILE_EXTENSION}`,
+      );
+      setToast({ type: 'success', message: 'Project saved.' });
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to save project' });
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleProjectUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const project = parseProject(await file.text());
+      // An imported file becomes a new library project instead of overwriting the open one.
+      detachLibraryProject();
+      const missingAudio = await applyProjectDocument(project);
+      setToast(
+        missingAudio
+          ? { type: 'info', message: `Project opened. Load "${missingAudio}" again to restore its audio.` }
+          : { type: 'success', message: `Opened ${project.name}` },
+      );
+    } catch (error) {
+      setToast({ type: 'error', message: (error as Error).message ?? 'Unable to open project' });
+    }
+  };
+
+  const handleRenderControllerReady = useCallback((controller: AvatarRenderController | null) => {
+    renderControllerRef.current = controller;
+  }, []);
+
+  const unknownScriptTags = useMemo(() => parseScript(ttsText).unknownTags, [ttsText]);
 
   const emotionAccent = useMemo(
     () =>
@@ -375,6 +843,62 @@ export default function Home() {
 
         <div className="grid gap-10 xl:grid-cols-[420px_1fr]">
           <aside className="space-y-6">
+            <SectionCard title="Project" description="Save or reopen the whole setup as a file.">
+              <input
+                value={projectName}
+                onChange={(event) => setProjectName(event.target.value)}
+                className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm text-white focus:border-indigo-400 focus:outline-none"
+                placeholder="Project name"
+              />
+              <label className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={embedProjectAudio}
+                  onChange={(event) => setEmbedProjectAudio(event.target.checked)}
+                  className="accent-indigo-400"
+                />
+                Embed audio in file
+              </label>
+              <div className="flex flex-wrap gap-3">
+                <IconButton
+                  label={isSavingProject ? 'Saving...' : 'Save Project'}
+                  icon={isSavingProject ? <LoadingDots /> : '💾'}
+                  onClick={handleSaveProject}
+                  disabled={isSavingProject}
+                />
+                <IconButton
+                  label="Open Project"
+                  icon="📂"
+                  tone="secondary"
+                  onClick={() => projectInputRef.current?.click()}
+                  disabled={isLoadingAudio || isMicActive}
+                />
+              </div>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept={`application/json,.json,${PROJECT_FILE_EXTENSION}`}
+                hidden
+                onChange={handleProjectUpload}
+              />
+            </SectionCard>
+
+            {isLibrarySupported ? (
+              <SectionCard title="Library" description="Autosaved projects stored in this browser.">
+                <ProjectLibrary
+                  entries={libraryEntries}
+                  currentProjectId={currentProjectId}
+                  storageUsage={storageUsage}
+                  isSaving={isAutosaving}
+                  lastSavedAt={lastSavedAt}
+                  onOpen={handleOpenLibraryProject}
+                  onDuplicate={handleDuplicateLibraryProject}
+                  onRename={handleRenameLibraryProject}
+                  onDelete={handleDeleteLibraryProject}
+                />
+              </SectionCard>
+            ) : null}
+
             <SectionCard title="Media Sources" description="Generate or upload audio to drive motion.">
               <form onSubmit={handleGenerateSpeech} className="space-y-4">
                 <label className="block">
@@ -388,6 +912,25 @@ export default function Home() {
                     className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white shadow-inner focus:border-indigo-400 focus:outline-none"
                     placeholder="Type what you want the avatar to say..."
                   />
+                  <span className="mt-2 flex items-start justify-between gap-3 text-[11px] text-slate-400">
+                    <span>
+                      Tags: <code>[happy]</code>, <code>[sad 0.7]</code>, <code>[pause 500ms]</code>,{' '}
+                      <code>[wave]</code>.
+                      {unknownScriptTags.length ? (
+                        <span className="text-amber-300">
+                          {' '}
+                          Not recognised, will be spoken: {unknownScriptTags.join(' ')}
+                        </span>
+                      ) : null}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleSuggestEmotions}
+                      className="shrink-0 rounded-full bg-white/10 px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+                    >
+                      Suggest emotions
+                    </button>
+                  </span>
                 </label>
                 <div className="flex flex-wrap gap-3">
                   <select
@@ -401,6 +944,24 @@ export default function Home() {
                     <option value="es-ES">Spanish</option>
                     <option value="fr-FR">French</option>
                   </select>
+                  <select
+                    value={ttsProvider}
+                    onChange={(event) => setTtsProvider(event.target.value as TtsProviderId | '')}
+                    className="rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-medium uppercase tracking-[0.25em] text-indigo-200 focus:border-indigo-400 focus:outline-none"
+                  >
+                    <option value="">
+                      {`Default${
+                        defaultTtsProvider
+                          ? ` • ${ttsProviders.find((option) => option.id === defaultTtsProvider)?.label ?? defaultTtsProvider}`
+                          : ''
+                      }`}
+                    </option>
+                    {ttsProviders.map((option) => (
+                      <option key={option.id} value={option.id} disabled={!option.configured}>
+                        {option.configured ? option.label : `${option.label} (not configured)`}
+                      </option>
+                    ))}
+                  </select>
                   <IconButton
                     type="submit"
                     label={isGeneratingSpeech ? 'Generating...' : 'Generate Speech'}
@@ -408,7 +969,50 @@ export default function Home() {
                     disabled={isGeneratingSpeech}
                   />
                 </div>
+                <div className="grid grid-cols-3 gap-3">
+                  {SPEECH_PAUSE_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="block">
+                      <span className="mb-1 block text-[10px] uppercase tracking-[0.3em] text-slate-400">
+                        {label} pause
+                      </span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.05}
+                        value={speechPauses[key]}
+                        onChange={(event) => setSpeechPause(key, Number(event.target.value) || 0)}
+                        className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white focus:border-indigo-400 focus:outline-none"
+                      />
+                    </label>
+                  ))}
+                </div>
               </form>
+              {speechSegments.length > 1 ? (
+                <ol className="max-h-40 space-y-1 overflow-y-auto rounded-2xl border border-white/10 bg-black/20 px-4 py-3 text-xs text-slate-300">
+                  {speechSegments.map((segment, index) => (
+                    <li key={`${segment.start}-${index}`} className="flex gap-3">
+                      <span className="shrink-0 font-mono text-indigo-200/80">
+                        {segment.startTime.toFixed(2)}s
+                      </span>
+                      <span className="flex-1 truncate" title={segment.text}>
+                        {segment.text}
+                      </span>
+                      <span
+                        className="shrink-0 uppercase tracking-widest text-slate-500"
+                        title={
+                          segment.timingSource === 'provider'
+                            ? 'Word timings from the speech provider'
+                            : 'Word timings estimated from the audio'
+                        }
+                      >
+                        {segment.boundary}
+                        {segment.timingSource === 'estimated' ? ' • est.' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
               <div className="grid gap-3 sm:grid-cols-2">
                 <button
                   onClick={() => audioInputRef.current?.click()}
@@ -448,10 +1052,20 @@ export default function Home() {
                     {formatDuration(audioDuration)}
                   </span>
                 </div>
-                <div className="mt-2 h-2 rounded-full bg-white/10">
-                  <div
-                    className="h-full rounded-full bg-gradient-to-r from-indigo-400 via-purple-400 to-pink-400 transition-all"
-                    style={{ width: `${playbackPercent}%` }}
+                <div className="mt-3">
+                  <WaveformScrubber
+                    peaks={waveformPeaks}
+                    duration={audioDuration}
+                    currentTime={playbackTime}
+                    loopRegion={loopRegion}
+                    isLoopEnabled={isLoopEnabled}
+                    playbackRate={playbackRate}
+                    playbackRates={PLAYBACK_RATES}
+                    disabled={!hasAudio || isMicActive || isExporting}
+                    onSeek={(seconds) => runPlaybackAction(seek(seconds))}
+                    onLoopRegionChange={(region) => runPlaybackAction(setLoopRegion(region))}
+                    onLoopEnabledChange={(enabled) => runPlaybackAction(setLoopEnabled(enabled))}
+                    onPlaybackRateChange={(rate) => runPlaybackAction(setPlaybackRate(rate))}
                   />
                 </div>
                 <div className="mt-2 text-xs uppercase tracking-[0.2em] text-slate-400">
@@ -464,7 +1078,13 @@ export default function Home() {
                   {isProcessingVideo && (
                     <span className="inline-flex items-center gap-2">
                       <LoadingDots />
-                      Extracting from video
+                      Extracting from video {Math.round(videoProgress * 100)}%
+                      <button
+                        onClick={cancelVideoProcessing}
+                        className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] text-white/70 hover:bg-white/20"
+                      >
+                        Cancel
+                      </button>
                     </span>
                   )}
                   {statusMessage && !isLoadingAudio && !isProcessingVideo ? statusMessage : null}
@@ -472,6 +1092,40 @@ export default function Home() {
               </div>
             </SectionCard>
 
+            <SectionCard title="Live Microphone" description="Puppeteer the avatar in real time.">
+              <div className="flex flex-wrap items-center gap-3">
+                <select
+                  value={micDeviceId}
+                  onChange={(event) => handleMicDeviceChange(event.target.value)}
+                  className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-medium text-indigo-200 focus:border-indigo-400 focus:outline-none"
+                >
+                  <option value="">Default input</option>
+                  {micDevices.map((device) => (
+                    <option key={device.deviceId} value={device.deviceId}>
+                      {device.label}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-xs uppercase tracking-[0.2em] text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={recordMic}
+                    disabled={isMicActive}
+                    onChange={(event) => setRecordMic(event.target.checked)}
+                    className="accent-indigo-400"
+                  />
+                  Record
+                </label>
+              </div>
+              <IconButton
+                label={isMicActive ? (isRecordingMic ? 'Stop & Load Take' : 'Stop Microphone') : 'Start Microphone'}
+                icon={isMicActive ? '⏹' : '🎙️'}
+                tone={isMicActive ? 'danger' : 'secondary'}
+                onClick={handleMicToggle}
+                disabled={isExporting || isLoadingAudio}
+              />
+            </SectionCard>
+
             <SectionCard title="Avatar Studio" description="Select a preset or upload a custom face.">
               <div className="grid gap-3 sm:grid-cols-2">
                 {AVATAR_PRESETS.map((preset: AvatarPreset) => (
@@ -515,9 +1169,108 @@ export default function Home() {
                 hidden
                 onChange={handleFaceUpload}
               />
+              {portraitAnchors ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs uppercase tracking-[0.25em] text-slate-400">Face rig</span>
+                    <ChipToggle
+                      label="Flat portrait"
+                      active={faceRig === 'portrait'}
+                      onClick={() => setFaceRig('portrait')}
+                    />
+                    <ChipToggle label="Sphere" active={faceRig === 'sphere'} onClick={() => setFaceRig('sphere')} />
+                  </div>
+                  {faceRig === 'portrait' ? (
+                    <PortraitAnchorEditor
+                      imageUrl={face.faceTexture}
+                      anchors={portraitAnchors}
+                      onChange={setPortraitAnchors}
+                      onAutoPlace={() => {
+                        autoPlacePortraitAnchors().catch((error) =>
+                          setToast({ type: 'error', message: (error as Error).message ?? 'Unable to place anchors' }),
+                        );
+                      }}
+                    />
+                  ) : null}
+                </div>
+              ) : null}
+              <button
+                onClick={() => modelInputRef.current?.click()}
+                className="w-full rounded-2xl border border-dashed border-white/15 bg-white/5 px-4 py-3 text-center text-sm font-semibold text-slate-200 transition hover:border-white/25 hover:bg-white/10"
+              >
+                Upload 3D Character (GLB / VRM)
+              </button>
+              <input
+                ref={modelInputRef}
+                type="file"
+                accept=".glb,.gltf,.vrm,model/gltf-binary,model/gltf+json"
+                hidden
+                onChange={handleModelUpload}
+              />
+              {avatarModel ? (
+                <div className="space-y-3 rounded-2xl border border-white/10 bg-black/20 px-4 py-3 text-xs text-slate-300">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="truncate font-semibold text-white">{avatarModel.name}</span>
+                    <button
+                      onClick={() => {
+                        clearCustomModel();
+                        setModelInfo(null);
+                      }}
+                      className="rounded-full bg-white/10 px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {modelInfo ? (
+                    <details className="space-y-2">
+                      <summary className="cursor-pointer uppercase tracking-[0.2em] text-slate-400">
+                        Rig mapping {rigMapping ? '• custom' : '• auto'}
+                      </summary>
+                      <p className="text-slate-400">
+                        Blendshapes: {modelInfo.morphTargets.join(', ') || 'none'}
+                      </p>
+                      <textarea
+                        value={rigMappingDraft}
+                        onChange={(event) => setRigMappingDraft(event.target.value)}
+                        spellCheck={false}
+                        rows={10}
+                        className="w-full rounded-xl border border-white/10 bg-black/40 p-3 font-mono text-[11px] text-slate-200 focus:border-indigo-400 focus:outline-none"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleApplyRigMapping}
+                          className="rounded-full bg-indigo-500/30 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-indigo-100 transition hover:bg-indigo-500/50"
+                        >
+                          Apply mapping
+                        </button>
+                        <button
+                          onClick={handleResetRigMapping}
+                          className="rounded-full bg-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+                        >
+                          Reset to auto
+                        </button>
+                      </div>
+                    </details>
+                  ) : (
+                    <p className="text-slate-400">Loading model…</p>
+                  )}
+                </div>
+              ) : null}
             </SectionCard>
 
             <SectionCard title="Emotion Mixer" description="Blend expression layers and body language.">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-slate-400">
+                  {autoEmotion
+                    ? 'Emotion follows the pitch, loudness and pace of the audio. Sliders bias it: 50% leaves it as heard.'
+                    : 'Read the emotion from the audio instead of holding the slider mix.'}
+                </p>
+                <ChipToggle
+                  label={autoEmotion ? 'Auto: on' : 'Auto from voice'}
+                  active={autoEmotion}
+                  onClick={() => setAutoEmotion(!autoEmotion)}
+                />
+              </div>
               <div className="space-y-4">
                 {(Object.keys(emotions) as EmotionKey[]).map((key) => (
                   <EmotionSlider
@@ -552,6 +1305,13 @@ export default function Home() {
                     onClick={() => setCameraAngle(option)}
                   />
                 ))}
+                <label
+                  className="ml-auto flex items-center gap-2 text-xs text-slate-300"
+                  title="The avatar keeps looking back into the active camera between glances."
+                >
+                  <input type="checkbox" checked={eyeContact} onChange={(event) => setEyeContact(event.target.checked)} />
+                  Eye contact
+                </label>
               </div>
               <div className="grid gap-3 sm:grid-cols-2">
                 {BACKGROUND_OPTIONS.map((option) => (
@@ -573,24 +1333,81 @@ export default function Home() {
                   </button>
                 ))}
               </div>
+              <BackdropSettings
+                backdrop={backdrop}
+                style={backdropStyle}
+                hidden={backgroundMode !== 'scene'}
+                onUpload={handleBackdropUpload}
+                onRemove={clearCustomBackdrop}
+                onStyleChange={setBackdropStyle}
+              />
+            </SectionCard>
+            <SectionCard title="Captions" description="Timed subtitles from the TTS script.">
+              <CaptionSettings
+                captionCount={captions.length}
+                style={captionStyle}
+                burnIn={burnInCaptions}
+                exportFiles={exportCaptionFiles}
+                onStyleChange={setCaptionStyle}
+                onBurnInChange={setBurnInCaptions}
+                onExportFilesChange={setExportCaptionFiles}
+                onDownload={(format) => downloadCaptions(format)}
+              />
             </SectionCard>
           </aside>
 
           <section className="space-y-6">
-            <div className="relative">
+            {/* The preview takes the export's aspect ratio, capped in height so vertical frames fit on screen. */}
+            <div
+              className="relative mx-auto"
+              style={{
+                aspectRatio: `${exportPreset.width} / ${exportPreset.height}`,
+                width: `min(100%, ${Math.round((75 * exportPreset.width) / exportPreset.height)}vh)`,
+              }}
+            >
               <AvatarPreview
                 face={face}
-                animation={animationState}
+                animationRef={animationRef}
+                readout={animationReadout}
                 background={background}
+                backgroundMode={backgroundMode}
+                backdrop={backdrop}
+                backdropStyle={backdropStyle}
                 camera={cameraAngle}
                 showHud
+                portrait={faceRig === 'portrait' ? portraitAnchors : null}
+                model={avatarModel}
+                rigMapping={rigMapping}
+                onModelLoaded={handleModelLoaded}
+                onModelError={handleModelError}
+                onBackdropError={handleBackdropError}
                 onCanvasReady={(canvas) => {
                   canvasRef.current = canvas;
                 }}
+                onRenderControllerReady={handleRenderControllerReady}
               />
+              {burnInCaptions ? <CaptionPreview captions={captions} style={captionStyle} time={playbackTime} /> : null}
+              {showSafeArea ? <SafeAreaOverlay label={exportPreset.label} /> : null}
               <div className="pointer-events-none absolute inset-0 rounded-3xl border border-white/5" />
             </div>
 
+            <div className="rounded-3xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+              <h3 className="mb-4 text-sm font-semibold uppercase tracking-[0.35em] text-slate-300">
+                Emotion Timeline
+              </h3>
+              <EmotionTimeline
+                timeline={emotionTimeline}
+                emotions={emotions}
+                duration={audioDuration}
+                playhead={playbackTime}
+                labels={EMOTION_LABELS}
+                accents={emotionAccent}
+                onSetKeyframe={setEmotionKeyframe}
+                onDeleteKeyframe={deleteEmotionKeyframe}
+                onClear={clearEmotionTimeline}
+              />
+            </div>
+
             <div className="flex flex-wrap items-center justify-between gap-4 rounded-3xl border border-white/10 bg-white/5 px-6 py-5 shadow-lg shadow-indigo-500/10 backdrop-blur">
               <div className="space-y-1">
                 <p className="text-xs uppercase tracking-[0.32em] text-slate-400">Live Status</p>
@@ -598,12 +1415,16 @@ export default function Home() {
                   <span
                     className={clsx(
                       'inline-flex h-2 w-2 rounded-full',
-                      isPlaying ? 'bg-emerald-400 animate-pulse' : 'bg-slate-500',
+                      isPlaying || isMicActive ? 'bg-emerald-400 animate-pulse' : 'bg-slate-500',
                     )}
                   />
                   <span>
-                    {isPlaying
-                      ? 'Animating in real-time'
+                    {isMicActive
+                      ? isRecordingMic
+                        ? 'Live microphone • recording'
+                        : 'Live microphone'
+                      : isPlaying
+                        ? 'Animating in real-time'
                       : hasAudio
                         ? 'Standing by'
                         : 'Awaiting audio input'}
@@ -615,7 +1436,7 @@ export default function Home() {
                   label={isPlaying ? 'Pause' : 'Play'}
                   icon={isPlaying ? '⏸' : '▶️'}
                   onClick={handlePlayToggle}
-                  disabled={isLoadingAudio || isProcessingVideo || !hasAudio}
+                  disabled={isLoadingAudio || isProcessingVideo || !hasAudio || isMicActive}
                 />
                 <IconButton
                   label="Regenerate Gestures"
@@ -623,6 +1444,36 @@ export default function Home() {
                   tone="secondary"
                   onClick={regenerateGestures}
                 />
+                <label
+                  className="flex items-center gap-2 text-xs text-slate-300"
+                  title="The same seed reproduces the same head, eye and hand motion."
+                >
+                  <span className="uppercase tracking-[0.25em] text-slate-400">Seed</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    step={1}
+                    value={gestureSeed}
+                    onChange={(event) => updateGestureSeed(Number(event.target.value))}
+                    className="w-32 rounded-xl border border-white/10 bg-white/5 px-3 py-1.5 font-mono text-xs text-white focus:border-indigo-400 focus:outline-none"
+                  />
+                </label>
+                <label
+                  className="flex items-center gap-2 text-xs text-slate-300"
+                  title="Strength of the nods, hand beats and brow raises timed to stressed syllables and phrase breaks."
+                >
+                  <span className="uppercase tracking-[0.25em] text-slate-400">Beats</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(gestureIntensity * 100)}
+                    onChange={(event) => updateGestureIntensity(Number(event.target.value) / 100)}
+                    className="h-1.5 w-24 cursor-pointer rounded-full bg-slate-700 accent-indigo-400"
+                  />
+                  <span className="w-9 text-right text-slate-400">{Math.round(gestureIntensity * 100)}%</span>
+                </label>
                 <IconButton
                   label="Export WebM"
                   icon={isExporting ? <LoadingDots /> : '📼'}
@@ -634,9 +1485,61 @@ export default function Home() {
                   label="Export MP4"
                   icon={isExporting ? <LoadingDots /> : '🎬'}
                   tone="primary"
-                  disabled={isExporting}
+                  disabled={isExporting || isTransparent}
                   onClick={() => handleExport('mp4')}
                 />
+                <IconButton
+                  label="PNG Sequence"
+                  icon={isExporting ? <LoadingDots /> : '🖼'}
+                  tone="secondary"
+                  disabled={isExporting}
+                  onClick={() => handleExport('png')}
+                />
+              </div>
+              <div className="flex w-full flex-wrap items-center justify-between gap-3 border-t border-white/10 pt-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs uppercase tracking-[0.25em] text-slate-400">Render</span>
+                  <ChipToggle
+                    label="Real-time"
+                    active={renderMode === 'realtime'}
+                    onClick={() => setRenderMode('realtime')}
+                  />
+                  <ChipToggle
+                    label={canRenderOffline ? 'Frame-accurate' : 'Frame-accurate (unsupported)'}
+                    active={isOfflineVideo}
+                    disabled={!canRenderOffline}
+                    onClick={() => setRenderMode('offline')}
+                  />
+                  <span className="ml-3 text-xs uppercase tracking-[0.25em] text-slate-400">Background</span>
+                  {BACKGROUND_MODES.map((mode) => (
+                    <ChipToggle
+                      key={mode.id}
+                      label={mode.label}
+                      active={backgroundMode === mode.id}
+                      onClick={() => setBackgroundMode(mode.id)}
+                    />
+                  ))}
+                </div>
+                <OutputSettings
+                  settings={exportSettings}
+                  showSafeArea={showSafeArea}
+                  onChange={setExportSettings}
+                  onShowSafeAreaChange={setShowSafeArea}
+                />
+                {isExporting ? (
+                  <div className="flex flex-1 items-center gap-3">
+                    <div className="h-2 flex-1 rounded-full bg-white/10">
+                      <div
+                        className="h-full rounded-full bg-gradient-to-r from-emerald-400 via-cyan-400 to-indigo-400 transition-all"
+                        style={{ width: `${Math.round(exportProgress * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-semibold text-slate-300">
+                      {Math.round(exportProgress * 100)}%
+                    </span>
+                    <IconButton label="Cancel" icon="✖" tone="danger" onClick={cancelExport} />
+                  </div>
+                ) : null}
               </div>
             </div>
 
@@ -645,7 +1548,7 @@ export default function Home() {
                 Emotion Spectrum
               </h3>
               <div className="mt-4 grid gap-4 sm:grid-cols-5">
-                {(Object.keys(animationState.emotionMix) as EmotionKey[]).map((key) => (
+                {(Object.keys(animationReadout.emotionMix) as EmotionKey[]).map((key) => (
                   <div
                     key={key}
                     className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3 text-center"
@@ -656,11 +1559,11 @@ export default function Home() {
                     <div className="relative h-16 overflow-hidden rounded-xl bg-white/10">
                       <div
                         className="absolute inset-x-0 bottom-0 rounded-t-xl bg-gradient-to-t from-white/90 via-white/60 to-transparent transition-all"
-                        style={{ height: `${Math.round(animationState.emotionMix[key] * 100)}%` }}
+                        style={{ height: `${Math.round(animationReadout.emotionMix[key] * 100)}%` }}
                       />
                     </div>
                     <p className="text-xs font-semibold text-white">
-                      {Math.round(animationState.emotionMix[key] * 100)}%
+                      {Math.round(animationReadout.emotionMix[key] * 100)}%
                     </p>
                   </div>
                 ))}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useMemo, useRef } from 'react';
+import { type RefObject, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Environment, Html, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
@@ -10,20 +10,76 @@ import type {
   BackgroundOption,
   CameraAngle,
 } from '../hooks/useAvatarEngine';
+import {
+  disposeAvatarModel,
+  loadAvatarModel,
+  type AvatarModelSource,
+  type LoadedAvatarModel,
+} from '../lib/avatarModel';
+import type { PortraitAnchors } from '../lib/portraitAnchors';
+import { detectRigMapping, type RigMapping } from '../lib/rigMapping';
+import {
+  CHROMA_KEY_COLORS,
+  paintBackground,
+  type BackgroundMode,
+  type BackgroundPaint,
+} from '../lib/sceneBackground';
+import { blendMouthShape, dominantViseme } from '../lib/visemes';
+import { DEFAULT_BACKDROP_STYLE, type BackdropSource, type BackdropStyle } from '../lib/backdrop';
+import BackdropPlane, { type BackdropHandle } from './BackdropPlane';
+import ModelRig from './ModelRig';
+import PortraitRig from './PortraitRig';
+import { currentFrame, ease, frameLerp, type FrameOverride } from './rigFrame';
 
 interface AvatarPreviewProps {
   face: AvatarPreset;
-  animation: AvatarAnimationState;
+  // Read inside the render loop, so frames reach the rigs without re-rendering React.
+  animationRef: RefObject<AvatarAnimationState>;
+  // A throttled snapshot of the same frame for the HUD.
+  readout: AvatarAnimationState;
   background: BackgroundOption;
+  // Replaces the background with alpha or a chroma key colour for compositing.
+  backgroundMode?: BackgroundMode;
+  // An uploaded image or video shown behind the avatar in place of the scene background.
+  backdrop?: BackdropSource | null;
+  backdropStyle?: BackdropStyle;
   camera: CameraAngle;
   showHud?: boolean;
+  // Draws `face` as a flat portrait warped around these anchors instead of wrapping it on the sphere.
+  portrait?: PortraitAnchors | null;
+  // A glTF/GLB or VRM character replacing the primitive rig once it has loaded.
+  model?: AvatarModelSource | null;
+  // Overrides the mapping detected from the model's morph targets and bones.
+  rigMapping?: RigMapping | null;
+  onModelLoaded?: (info: AvatarModelInfo) => void;
+  onModelError?: (error: Error) => void;
+  onBackdropError?: (error: Error) => void;
   onCanvasReady?: (canvas: HTMLCanvasElement | null) => void;
+  onRenderControllerReady?: (controller: AvatarRenderController | null) => void;
 }
 
-const ease = (current: number, target: number, factor: number) =>
-  current + (target - current) * factor;
+export interface AvatarRenderController {
+  canvas: HTMLCanvasElement;
+  // Renders at a fixed pixel size while exporting; null goes back to the on-screen size.
+  setOutputSize: (size: { width: number; height: number } | null) => void;
+  beginOfflineRender: () => void;
+  renderFrame: (animation: AvatarAnimationState, time: number) => Promise<void>;
+  endOfflineRender: () => void;
+}
+
+export interface AvatarModelInfo {
+  morphTargets: string[];
+  bones: string[];
+  detectedMapping: RigMapping;
+}
 
-const CameraRig = ({ camera }: { camera: CameraAngle }) => {
+const CameraRig = ({
+  camera,
+  overrideRef,
+}: {
+  camera: CameraAngle;
+  overrideRef: RefObject<FrameOverride>;
+}) => {
   const three = useThree();
   const targetRef = useRef({
     position: new THREE.Vector3(...camera.position),
@@ -36,7 +92,11 @@ const CameraRig = ({ camera }: { camera: CameraAngle }) => {
   }, [camera]);
 
   useFrame(() => {
-    three.camera.position.lerp(targetRef.current.position, 0.08);
+    if (overrideRef.current.snap) {
+      three.camera.position.copy(targetRef.current.position);
+    } else {
+      three.camera.position.lerp(targetRef.current.position, 0.08);
+    }
     three.camera.lookAt(targetRef.current.lookAt);
   });
 
@@ -45,15 +105,23 @@ const CameraRig = ({ camera }: { camera: CameraAngle }) => {
 
 const AvatarRig = ({
   face,
-  animation,
+  animationRef,
+  overrideRef,
 }: {
   face: AvatarPreset;
-  animation: AvatarAnimationState;
+  animationRef: RefObject<AvatarAnimationState>;
+  overrideRef: RefObject<FrameOverride>;
 }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const headMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const lipsMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const leftEyeMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const rightEyeMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
   const leftEyeRef = useRef<THREE.Mesh>(null);
   const rightEyeRef = useRef<THREE.Mesh>(null);
   const mouthRef = useRef<THREE.Mesh>(null);
+  const mouthInnerRef = useRef<THREE.Mesh>(null);
+  const teethRef = useRef<THREE.Mesh>(null);
   const leftHandRef = useRef<THREE.Mesh>(null);
   const rightHandRef = useRef<THREE.Mesh>(null);
   const cheekRef = useRef<THREE.Mesh>(null);
@@ -64,9 +132,17 @@ const AvatarRig = ({
   });
 
   const baseSkin = useMemo(() => new THREE.Color(face.accent).multiplyScalar(0.35), [face.accent]);
+  const palette = useMemo(
+    () => ({
+      accent: new THREE.Color(face.accent),
+      lips: new THREE.Color('#ff6b6b'),
+    }),
+    [face.accent],
+  );
 
   useFrame((_, delta) => {
-    const lerpAmount = 1 - Math.pow(0.09, delta * 60);
+    const animation = currentFrame(overrideRef.current, animationRef);
+    const lerpAmount = frameLerp(overrideRef.current, delta);
     if (groupRef.current) {
       const [x, y, z] = animation.headRotation;
       groupRef.current.rotation.x = ease(groupRef.current.rotation.x, x, lerpAmount);
@@ -76,50 +152,68 @@ const AvatarRig = ({
     }
     if (leftEyeRef.current && rightEyeRef.current) {
       const lookX = animation.eyeDirection[0] * 0.18;
-      const lookY = animation.eyeDirection[1] * 0.12;
+      // The primitive face has no brows, so a raise lifts and widens the eyes instead.
+      const lookY = animation.eyeDirection[1] * 0.12 + animation.browRaise * 0.05;
       leftEyeRef.current.position.x = ease(leftEyeRef.current.position.x, -0.32 + lookX, lerpAmount);
       rightEyeRef.current.position.x = ease(rightEyeRef.current.position.x, 0.32 + lookX, lerpAmount);
       leftEyeRef.current.position.y = ease(leftEyeRef.current.position.y, 0.28 + lookY, lerpAmount);
       rightEyeRef.current.position.y = ease(rightEyeRef.current.position.y, 0.28 + lookY, lerpAmount);
 
-      const blinkScale = Math.max(0.1, 1 - animation.blink * 1.5);
+      const blinkScale = Math.max(0.1, 1 - animation.blink * 1.5) * (1 + animation.browRaise * 0.2);
       leftEyeRef.current.scale.y = ease(leftEyeRef.current.scale.y, blinkScale, lerpAmount * 1.4);
       rightEyeRef.current.scale.y = ease(rightEyeRef.current.scale.y, blinkScale, lerpAmount * 1.4);
     }
-    if (mouthRef.current) {
-      const open = 0.28 + animation.mouthOpen * 0.65 + animation.emotionMix.happy * 0.2;
-      mouthRef.current.scale.y = ease(mouthRef.current.scale.y, open, lerpAmount * 1.2);
-      mouthRef.current.scale.x = ease(
-        mouthRef.current.scale.x,
-        0.85 + animation.emotionMix.surprised * 0.4 - animation.emotionMix.angry * 0.2,
-        lerpAmount,
-      );
-      mouthRef.current.position.y = ease(
-        mouthRef.current.position.y,
-        -0.05 - animation.mouthOpen * 0.2,
-        lerpAmount,
-      );
+    if (mouthRef.current && mouthInnerRef.current && teethRef.current) {
+      const shape = blendMouthShape(animation.visemes);
+      const open = shape.open * (0.35 + animation.mouthOpen * 0.65);
+      const width =
+        0.3 +
+        shape.width * 0.55 +
+        animation.emotionMix.happy * 0.12 +
+        animation.emotionMix.surprised * 0.1 -
+        animation.emotionMix.angry * 0.08;
+      const lipHeight = 0.12 + open * 0.5 + shape.round * 0.1;
+      const mouthY = -0.05 - open * 0.12;
+
+      mouthRef.current.scale.x = ease(mouthRef.current.scale.x, width, lerpAmount * 1.2);
+      mouthRef.current.scale.y = ease(mouthRef.current.scale.y, lipHeight, lerpAmount * 1.2);
+      mouthRef.current.position.y = ease(mouthRef.current.position.y, mouthY, lerpAmount);
+      mouthRef.current.position.z = ease(mouthRef.current.position.z, 0.87 + shape.round * 0.05, lerpAmount);
+
+      const innerWidth = width * (0.78 - shape.round * 0.18);
+      const innerHeight = Math.max(0.005, open * 0.42);
+      mouthInnerRef.current.scale.x = ease(mouthInnerRef.current.scale.x, innerWidth, lerpAmount * 1.2);
+      mouthInnerRef.current.scale.y = ease(mouthInnerRef.current.scale.y, innerHeight, lerpAmount * 1.2);
+      mouthInnerRef.current.position.y = ease(mouthInnerRef.current.position.y, mouthY, lerpAmount);
+
+      const teethMaterial = teethRef.current.material as THREE.MeshStandardMaterial;
+      teethMaterial.opacity = ease(teethMaterial.opacity, shape.teeth * Math.min(1, open * 4 + 0.2), lerpAmount);
+      teethRef.current.scale.x = ease(teethRef.current.scale.x, innerWidth * 0.9, lerpAmount);
+      teethRef.current.position.y = ease(teethRef.current.position.y, mouthY + innerHeight * 0.3, lerpAmount);
     }
     if (leftHandRef.current && rightHandRef.current) {
       const wave = animation.handWave;
       leftHandRef.current.rotation.z = ease(leftHandRef.current.rotation.z, 0.4 + wave * 0.4, lerpAmount);
       rightHandRef.current.rotation.z = ease(rightHandRef.current.rotation.z, -0.4 + wave * 0.4, lerpAmount);
-      leftHandRef.current.rotation.x = ease(
-        leftHandRef.current.rotation.x,
-        -0.3 + animation.emotionMix.happy * 0.4,
-        lerpAmount,
-      );
-      rightHandRef.current.rotation.x = ease(
-        rightHandRef.current.rotation.x,
-        -0.3 + animation.emotionMix.happy * 0.4,
-        lerpAmount,
-      );
+      const lift = -0.3 + animation.emotionMix.happy * 0.4 + animation.handBeat * 0.6;
+      leftHandRef.current.rotation.x = ease(leftHandRef.current.rotation.x, lift, lerpAmount);
+      rightHandRef.current.rotation.x = ease(rightHandRef.current.rotation.x, lift, lerpAmount);
     }
     if (cheekRef.current) {
       const material = cheekRef.current.material as THREE.MeshBasicMaterial;
       const glow = 0.15 + animation.emotionMix.happy * 0.3 + animation.intensity * 0.25;
       material.opacity = ease(material.opacity, glow, lerpAmount);
     }
+    if (headMaterialRef.current) {
+      headMaterialRef.current.emissiveIntensity = 0.08 + animation.intensity * 0.2;
+    }
+    if (lipsMaterialRef.current) {
+      lipsMaterialRef.current.color.copy(palette.lips).lerp(palette.accent, animation.emotionMix.happy);
+      lipsMaterialRef.current.emissive.copy(palette.accent).multiplyScalar(0.2 + animation.intensity * 0.5);
+    }
+    for (const material of [leftEyeMaterialRef.current, rightEyeMaterialRef.current]) {
+      material?.emissive.copy(palette.accent).multiplyScalar(0.9 + animation.intensity * 0.6);
+    }
   });
 
   return (
@@ -131,29 +225,39 @@ const AvatarRig = ({
       <mesh position={[0, 1.1, 0]} castShadow>
         <sphereGeometry args={[0.95, 128, 128]} />
         <meshStandardMaterial
+          ref={headMaterialRef}
           map={texture}
           metalness={0.25}
           roughness={0.45}
           emissive={face.accent}
-          emissiveIntensity={0.08 + animation.intensity * 0.2}
+          emissiveIntensity={0.08}
         />
       </mesh>
       <mesh ref={mouthRef} position={[0, -0.02, 0.87]}>
-        <planeGeometry args={[1, 0.4, 32, 32]} />
+        <circleGeometry args={[0.5, 48]} />
         <meshStandardMaterial
-          color={new THREE.Color('#ff6b6b').lerp(new THREE.Color(face.accent), animation.emotionMix.happy)}
-          emissive={new THREE.Color(face.accent).multiplyScalar(0.2 + animation.intensity * 0.5)}
+          ref={lipsMaterialRef}
+          color="#ff6b6b"
           emissiveIntensity={0.6}
           roughness={0.15}
           transparent
           opacity={0.92}
         />
       </mesh>
+      <mesh ref={mouthInnerRef} position={[0, -0.02, 0.93]}>
+        <circleGeometry args={[0.5, 48]} />
+        <meshStandardMaterial color="#1a0610" roughness={0.9} />
+      </mesh>
+      <mesh ref={teethRef} position={[0, -0.02, 0.935]}>
+        <planeGeometry args={[1, 0.06]} />
+        <meshStandardMaterial color="#f4f1ea" roughness={0.4} transparent opacity={0} />
+      </mesh>
       <mesh ref={leftEyeRef} position={[-0.32, 0.32, 0.92]}>
         <sphereGeometry args={[0.12, 32, 32]} />
         <meshStandardMaterial
+          ref={leftEyeMaterialRef}
           color="#0b1016"
-          emissive={new THREE.Color(face.accent).multiplyScalar(0.9 + animation.intensity * 0.6)}
+          emissive={face.accent}
           emissiveIntensity={0.8}
           roughness={0.3}
         />
@@ -161,8 +265,9 @@ const AvatarRig = ({
       <mesh ref={rightEyeRef} position={[0.32, 0.32, 0.92]}>
         <sphereGeometry args={[0.12, 32, 32]} />
         <meshStandardMaterial
+          ref={rightEyeMaterialRef}
           color="#0b1016"
-          emissive={new THREE.Color(face.accent).multiplyScalar(0.9 + animation.intensity * 0.6)}
+          emissive={face.accent}
           emissiveIntensity={0.8}
           roughness={0.3}
         />
@@ -201,23 +306,162 @@ const AvatarRig = ({
   );
 };
 
+const SceneBackground = ({ paint, mode }: { paint: BackgroundPaint; mode: BackgroundMode }) => {
+  const width = useThree((state) => state.size.width);
+  const height = useThree((state) => state.size.height);
+  const texture = useMemo(() => {
+    if (mode !== 'scene' || width < 1 || height < 1) {
+      return null;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width);
+    canvas.height = Math.round(height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+    paintBackground(context, paint, canvas.width, canvas.height);
+    const result = new THREE.CanvasTexture(canvas);
+    result.colorSpace = THREE.SRGBColorSpace;
+    return result;
+  }, [height, mode, paint, width]);
+
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  if (mode === 'transparent') {
+    return null;
+  }
+  if (mode !== 'scene') {
+    return <color attach="background" args={[CHROMA_KEY_COLORS[mode]]} />;
+  }
+  return texture ? <primitive attach="background" object={texture} /> : null;
+};
+
+const RenderBridge = ({
+  overrideRef,
+  backdropRef,
+  onReady,
+}: {
+  overrideRef: RefObject<FrameOverride>;
+  backdropRef: RefObject<BackdropHandle | null>;
+  onReady: (controller: AvatarRenderController | null) => void;
+}) => {
+  const gl = useThree((state) => state.gl);
+  const get = useThree((state) => state.get);
+  const advance = useThree((state) => state.advance);
+  const setFrameloop = useThree((state) => state.setFrameloop);
+
+  useEffect(() => {
+    onReady({
+      canvas: gl.domElement,
+      setOutputSize: (output) => {
+        // The CSS size is left alone, so the preview keeps its layout while the buffer changes.
+        const { size, viewport, camera } = get();
+        const width = output?.width ?? size.width;
+        const height = output?.height ?? size.height;
+        gl.setPixelRatio(output ? 1 : viewport.dpr);
+        gl.setSize(width, height, false);
+        if (camera instanceof THREE.PerspectiveCamera) {
+          camera.aspect = width / height;
+          camera.updateProjectionMatrix();
+        }
+      },
+      beginOfflineRender: () => {
+        setFrameloop('never');
+        overrideRef.current.snap = true;
+      },
+      renderFrame: async (animation, time) => {
+        await backdropRef.current?.seek(time);
+        overrideRef.current.animation = animation;
+        advance(time);
+        overrideRef.current.snap = false;
+      },
+      endOfflineRender: () => {
+        overrideRef.current.animation = null;
+        overrideRef.current.snap = false;
+        backdropRef.current?.resume();
+        setFrameloop('always');
+      },
+    });
+    return () => onReady(null);
+  }, [advance, backdropRef, get, gl, onReady, overrideRef, setFrameloop]);
+
+  return null;
+};
+
 const HudOverlay = ({ animation }: { animation: AvatarAnimationState }) => (
   <Html position={[0, 2.5, 0]} transform occlude={false}>
     <div className="rounded-full border border-white/10 bg-black/60 px-4 py-2 text-xs font-medium text-white/80 backdrop-blur">
       <span className="mr-1 text-white">Energy</span>
       <span>{Math.round(animation.energy * 100)}%</span>
+      <span className="ml-3 mr-1 text-white">Viseme</span>
+      <span>{dominantViseme(animation.visemes)}</span>
     </div>
   </Html>
 );
 
 export const AvatarPreview = ({
   face,
-  animation,
+  animationRef,
+  readout,
   background,
+  backgroundMode = 'scene',
+  backdrop,
+  backdropStyle = DEFAULT_BACKDROP_STYLE,
   camera,
   showHud = true,
+  portrait,
+  model,
+  rigMapping,
+  onModelLoaded,
+  onModelError,
+  onBackdropError,
   onCanvasReady,
+  onRenderControllerReady,
 }: AvatarPreviewProps) => {
+  const overrideRef = useRef<FrameOverride>({ animation: null, snap: false });
+  const backdropRef = useRef<BackdropHandle | null>(null);
+  const handleBackdropReady = useCallback((handle: BackdropHandle | null) => {
+    backdropRef.current = handle;
+  }, []);
+  const [loadedModel, setLoadedModel] = useState<{
+    url: string;
+    model: LoadedAvatarModel;
+    detectedMapping: RigMapping;
+  } | null>(null);
+  const modelUrl = model?.url ?? null;
+  const activeModel = loadedModel && loadedModel.url === modelUrl ? loadedModel : null;
+
+  useEffect(() => {
+    if (!modelUrl) {
+      return;
+    }
+    let cancelled = false;
+    let loaded: LoadedAvatarModel | null = null;
+    loadAvatarModel(modelUrl)
+      .then((result) => {
+        if (cancelled) {
+          disposeAvatarModel(result);
+          return;
+        }
+        loaded = result;
+        const detectedMapping = detectRigMapping(result.morphTargets, result.bones, result.vrm !== null);
+        setLoadedModel({ url: modelUrl, model: result, detectedMapping });
+        onModelLoaded?.({ morphTargets: result.morphTargets, bones: result.bones, detectedMapping });
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          onModelError?.(error);
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (loaded) {
+        disposeAvatarModel(loaded);
+      }
+    };
+  }, [modelUrl, onModelError, onModelLoaded]);
+
   useEffect(
     () => () => {
       onCanvasReady?.(null);
@@ -227,13 +471,20 @@ export const AvatarPreview = ({
 
   return (
     <div
-      className={`relative overflow-hidden rounded-3xl border border-white/10 shadow-2xl transition-all duration-700 ${background.className}`}
+      className={`relative h-full overflow-hidden rounded-3xl border border-white/10 shadow-2xl ${
+        backgroundMode === 'transparent'
+          ? 'bg-[conic-gradient(#1e293b_25%,#0f172a_0_50%,#1e293b_0_75%,#0f172a_0)] bg-[length:24px_24px]'
+          : 'bg-black'
+      }`}
     >
       <Canvas
         shadows
         camera={{ position: [...camera.position], fov: 40 }}
+        // Keeps the last frame readable for project thumbnails.
+        gl={{ preserveDrawingBuffer: true }}
         onCreated={({ gl }) => {
-          gl.setClearColor(new THREE.Color('#02030e'), 0.7);
+          // Anything the scene doesn't paint stays transparent in the canvas and in exports.
+          gl.setClearColor(new THREE.Color('#000000'), 0);
           onCanvasReady?.(gl.domElement);
         }}
       >
@@ -248,12 +499,34 @@ export const AvatarPreview = ({
         <spotLight position={[-6, 5, 2]} angle={0.7} intensity={0.6} penumbra={0.6} />
         <pointLight position={[0, 5, -4]} intensity={0.4} />
         <Environment preset="studio" />
-        <CameraRig camera={camera} />
-        <AvatarRig face={face} animation={animation} />
-        {showHud ? <HudOverlay animation={animation} /> : null}
+        <SceneBackground paint={background.paint} mode={backgroundMode} />
+        {backdrop && backgroundMode === 'scene' ? (
+          <BackdropPlane
+            source={backdrop}
+            style={backdropStyle}
+            target={camera.target}
+            onReady={handleBackdropReady}
+            onError={onBackdropError}
+          />
+        ) : null}
+        <CameraRig camera={camera} overrideRef={overrideRef} />
+        {activeModel ? (
+          <ModelRig
+            model={activeModel.model}
+            mapping={rigMapping ?? activeModel.detectedMapping}
+            animationRef={animationRef}
+            overrideRef={overrideRef}
+          />
+        ) : portrait ? (
+          <PortraitRig face={face} anchors={portrait} animationRef={animationRef} overrideRef={overrideRef} />
+        ) : (
+          <AvatarRig face={face} animationRef={animationRef} overrideRef={overrideRef} />
+        )}
+        {onRenderControllerReady ? (
+          <RenderBridge overrideRef={overrideRef} backdropRef={backdropRef} onReady={onRenderControllerReady} />
+        ) : null}
+        {showHud ? <HudOverlay animation={readout} /> : null}
       </Canvas>
-      <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_50%_-10%,rgba(148,163,255,0.45),transparent_60%)]" />
-      <div className="pointer-events-none absolute inset-x-0 bottom-0 h-32 bg-gradient-to-t from-black/60 via-black/20 to-transparent" />
     </div>
   );
 };
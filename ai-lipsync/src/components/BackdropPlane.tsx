@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  BACKDROP_OVERSCAN,
+  backdropBlurRadius,
+  backdropPlaneSize,
+  type BackdropSource,
+  type BackdropStyle,
+} from '../lib/backdrop';
+
+type BackdropMedia = HTMLImageElement | HTMLVideoElement;
+
+// Lets the offline renderer hold a video backdrop on the frame being exported.
+export interface BackdropHandle {
+  seek: (time: number) => Promise<void>;
+  resume: () => void;
+}
+
+interface BackdropPlaneProps {
+  source: BackdropSource;
+  style: BackdropStyle;
+  // The camera angle's look-at point; parallax follows the camera's orbit around it.
+  target: [number, number, number];
+  onReady?: (handle: BackdropHandle | null) => void;
+  onError?: (error: Error) => void;
+}
+
+// How far behind the look-at point the backdrop sits.
+const BACKDROP_DEPTH = 6;
+const MAX_TEXTURE_SIZE = 1280;
+
+const forward = new THREE.Vector3();
+const right = new THREE.Vector3();
+const up = new THREE.Vector3();
+const orbit = new THREE.Vector3();
+
+const loadMedia = (source: BackdropSource) =>
+  new Promise<BackdropMedia>((resolve, reject) => {
+    if (source.kind === 'image') {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error(`Unable to load ${source.name}.`));
+      image.src = source.url;
+      return;
+    }
+    const video = document.createElement('video');
+    video.muted = true;
+    video.loop = true;
+    video.playsInline = true;
+    video.onloadeddata = () => {
+      void video.play().catch(() => undefined);
+      resolve(video);
+    };
+    video.onerror = () => reject(new Error(`Unable to play ${source.name}.`));
+    video.src = source.url;
+  });
+
+const mediaSize = (media: BackdropMedia) =>
+  media instanceof HTMLVideoElement
+    ? { width: media.videoWidth, height: media.videoHeight }
+    : { width: media.naturalWidth, height: media.naturalHeight };
+
+const drawMedia = (context: CanvasRenderingContext2D, media: BackdropMedia, blur: number) => {
+  const { width, height } = context.canvas;
+  context.clearRect(0, 0, width, height);
+  context.filter = blur > 0 ? `blur(${blur}px)` : 'none';
+  // Overdrawing by the blur radius keeps the edges from fading to transparent.
+  context.drawImage(media, -blur * 2, -blur * 2, width + blur * 4, height + blur * 4);
+  context.filter = 'none';
+};
+
+const refreshVideoFrame = (
+  texture: THREE.CanvasTexture,
+  context: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  blur: number,
+) => {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+    drawMedia(context, video, blur);
+    texture.needsUpdate = true;
+  }
+};
+
+const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    video.pause();
+    const target = video.duration > 0 ? time % video.duration : 0;
+    if (Math.abs(video.currentTime - target) < 1e-3) {
+      resolve();
+      return;
+    }
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = target;
+  });
+
+// Keeps the plane facing the camera just behind the stage, shifted against the camera's orbit.
+const placeBackdrop = (
+  mesh: THREE.Mesh,
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3,
+  aspect: number,
+  style: BackdropStyle,
+) => {
+  const distance = camera.position.distanceTo(target) + BACKDROP_DEPTH;
+  const viewHeight = 2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+  const viewWidth = viewHeight * camera.aspect;
+  const [width, height] = backdropPlaneSize(aspect, viewWidth, viewHeight, style.fit);
+
+  orbit.subVectors(camera.position, target);
+  const azimuth = Math.atan2(orbit.x, orbit.z) / (Math.PI / 2);
+  const elevation = Math.atan2(orbit.y, Math.hypot(orbit.x, orbit.z)) / (Math.PI / 4);
+  const margin = ((BACKDROP_OVERSCAN - 1) / 2) * style.parallax;
+
+  camera.getWorldDirection(forward);
+  right.set(1, 0, 0).applyQuaternion(camera.quaternion);
+  up.set(0, 1, 0).applyQuaternion(camera.quaternion);
+  mesh.quaternion.copy(camera.quaternion);
+  mesh.position
+    .copy(camera.position)
+    .addScaledVector(forward, distance)
+    .addScaledVector(right, -THREE.MathUtils.clamp(azimuth, -1, 1) * margin * viewWidth)
+    .addScaledVector(up, -THREE.MathUtils.clamp(elevation, -1, 1) * margin * viewHeight);
+  mesh.scale.set(width, height, 1);
+};
+
+/**
+ * Draws an uploaded image or looping video on a plane behind the avatar, so
+ * it is part of the rendered scene and therefore of every export.
+ */
+export const BackdropPlane = ({ source, style, target, onReady, onError }: BackdropPlaneProps) => {
+  const camera = useThree((state) => state.camera) as THREE.PerspectiveCamera;
+  const meshRef = useRef<THREE.Mesh>(null);
+  const [loaded, setLoaded] = useState<{ url: string; media: BackdropMedia } | null>(null);
+  const media = loaded && loaded.url === source.url ? loaded.media : null;
+  const targetVector = useMemo(() => new THREE.Vector3(...target), [target]);
+  const blurStrength = style.blur;
+
+  useEffect(() => {
+    let cancelled = false;
+    let current: BackdropMedia | null = null;
+    loadMedia(source)
+      .then((result) => {
+        current = result;
+        if (!cancelled) {
+          setLoaded({ url: source.url, media: result });
+        }
+      })
+      .catch((error: Error) => {
+        if (!cancelled) {
+          onError?.(error);
+        }
+      });
+    return () => {
+      cancelled = true;
+      if (current instanceof HTMLVideoElement) {
+        current.pause();
+        current.removeAttribute('src');
+        current.load();
+      }
+    };
+  }, [onError, source]);
+
+  const surface = useMemo(() => {
+    if (!media) {
+      return null;
+    }
+    const size = mediaSize(media);
+    const scale = Math.min(1, MAX_TEXTURE_SIZE / Math.max(size.width, size.height, 1));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(size.width * scale));
+    canvas.height = Math.max(1, Math.round(size.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+    const blur = backdropBlurRadius(blurStrength, canvas.height);
+    drawMedia(context, media, blur);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return { texture, context, blur, aspect: canvas.width / canvas.height };
+  }, [blurStrength, media]);
+
+  useEffect(() => () => surface?.texture.dispose(), [surface]);
+
+  useEffect(() => {
+    if (!onReady) {
+      return;
+    }
+    const video = media instanceof HTMLVideoElement ? media : null;
+    onReady({
+      seek: (time) => (video ? seekVideo(video, time) : Promise.resolve()),
+      resume: () => {
+        void video?.play().catch(() => undefined);
+      },
+    });
+    return () => onReady(null);
+  }, [media, onReady]);
+
+  useFrame(() => {
+    if (!surface || !meshRef.current) {
+      return;
+    }
+    if (media instanceof HTMLVideoElement) {
+      refreshVideoFrame(surface.texture, surface.context, media, surface.blur);
+    }
+    placeBackdrop(meshRef.current, camera, targetVector, surface.aspect, style);
+  });
+
+  if (!surface) {
+    return null;
+  }
+  return (
+    <mesh ref={meshRef} renderOrder={-1} frustumCulled={false}>
+      <planeGeometry args={[1, 1]} />
+      <meshBasicMaterial map={surface.texture} toneMapped={false} depthWrite={false} />
+    </mesh>
+  );
+};
+
+export default BackdropPlane;
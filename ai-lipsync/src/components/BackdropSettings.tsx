@@ -0,0 +1,105 @@
+'use client';
+
+import { type ChangeEvent, useRef } from 'react';
+import { clsx } from 'clsx';
+import type { BackdropFit, BackdropSource, BackdropStyle } from '../lib/backdrop';
+
+interface BackdropSettingsProps {
+  backdrop: BackdropSource | null;
+  style: BackdropStyle;
+  // Mattes for compositing hide the backdrop.
+  hidden: boolean;
+  onUpload: (file: File) => void;
+  onRemove: () => void;
+  onStyleChange: (style: BackdropStyle) => void;
+}
+
+const FITS: { id: BackdropFit; label: string }[] = [
+  { id: 'fill', label: 'Fill' },
+  { id: 'fit', label: 'Fit' },
+];
+
+const Slider = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex items-center gap-3">
+    <span className="w-16 text-[10px] uppercase tracking-[0.25em] text-slate-400">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={100}
+      value={Math.round(value * 100)}
+      onChange={(event) => onChange(Number(event.target.value) / 100)}
+      className="h-1.5 flex-1 cursor-pointer rounded-full bg-slate-700 accent-indigo-400"
+    />
+    <span className="w-9 text-right text-slate-400">{Math.round(value * 100)}%</span>
+  </label>
+);
+
+export const BackdropSettings = ({
+  backdrop,
+  style,
+  hidden,
+  onUpload,
+  onRemove,
+  onStyleChange,
+}: BackdropSettingsProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const update = (patch: Partial<BackdropStyle>) => onStyleChange({ ...style, ...patch });
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onUpload(file);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs text-slate-300">
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="w-full rounded-2xl border border-dashed border-white/15 bg-white/5 px-4 py-3 text-center text-sm font-semibold text-slate-200 transition hover:border-white/25 hover:bg-white/10"
+      >
+        {backdrop ? 'Replace Backdrop' : 'Upload Backdrop (Image / Video)'}
+      </button>
+      <input ref={inputRef} type="file" accept="image/*,video/*" hidden onChange={handleChange} />
+      {backdrop ? (
+        <div className="space-y-3 rounded-2xl border border-white/10 bg-black/20 px-4 py-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="truncate font-semibold text-white">{backdrop.name}</span>
+            <button
+              onClick={onRemove}
+              className="rounded-full bg-white/10 px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-[10px] uppercase tracking-[0.25em] text-slate-400">Size</span>
+            {FITS.map((fit) => (
+              <button
+                key={fit.id}
+                type="button"
+                onClick={() => update({ fit: fit.id })}
+                className={clsx(
+                  'rounded-full px-2.5 py-1 text-[11px] font-medium transition',
+                  style.fit === fit.id
+                    ? 'bg-white text-slate-900'
+                    : 'bg-white/10 text-slate-300 hover:bg-white/15 hover:text-white',
+                )}
+              >
+                {fit.label}
+              </button>
+            ))}
+          </div>
+          <Slider label="Blur" value={style.blur} onChange={(blur) => update({ blur })} />
+          <Slider label="Parallax" value={style.parallax} onChange={(parallax) => update({ parallax })} />
+          {hidden ? (
+            <p className="text-amber-200/80">Hidden while the background is transparent or a chroma key.</p>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default BackdropSettings;
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { drawCaption, type CaptionStyle } from '../lib/captionOverlay';
+import { findCaption, type Caption } from '../lib/captions';
+
+interface CaptionPreviewProps {
+  captions: Caption[];
+  style: CaptionStyle;
+  time: number;
+}
+
+/**
+ * Draws the current caption over the preview with the same renderer the
+ * export uses, so what is burned in matches what is shown here.
+ */
+export const CaptionPreview = ({ captions, style, time }: CaptionPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const caption = findCaption(captions, time);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const observer = new ResizeObserver(([entry]) => {
+      const ratio = window.devicePixelRatio || 1;
+      setSize({
+        width: Math.round(entry.contentRect.width * ratio),
+        height: Math.round(entry.contentRect.height * ratio),
+      });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.clearRect(0, 0, size.width, size.height);
+    if (caption) {
+      drawCaption(context, caption.text, style, size.width, size.height);
+    }
+  }, [caption, size, style]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={size.width}
+      height={size.height}
+      className="pointer-events-none absolute inset-0 h-full w-full rounded-3xl"
+    />
+  );
+};
+
+export default CaptionPreview;
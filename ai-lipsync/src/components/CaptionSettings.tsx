@@ -0,0 +1,140 @@
+'use client';
+
+import { clsx } from 'clsx';
+import {
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+  CAPTION_TREATMENTS,
+  MAX_CAPTION_SIZE,
+  MIN_CAPTION_SIZE,
+  type CaptionStyle,
+} from '../lib/captionOverlay';
+
+interface CaptionSettingsProps {
+  captionCount: number;
+  style: CaptionStyle;
+  burnIn: boolean;
+  exportFiles: boolean;
+  onStyleChange: (style: CaptionStyle) => void;
+  onBurnInChange: (burnIn: boolean) => void;
+  onExportFilesChange: (exportFiles: boolean) => void;
+  onDownload: (format: 'srt' | 'vtt') => void;
+}
+
+const Option = ({ active, label, onClick }: { active: boolean; label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={clsx(
+      'rounded-full px-2.5 py-1 text-[11px] font-medium capitalize transition',
+      active ? 'bg-white text-slate-900' : 'bg-white/10 text-slate-300 hover:bg-white/15 hover:text-white',
+    )}
+  >
+    {label}
+  </button>
+);
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="w-16 text-[10px] uppercase tracking-[0.25em] text-slate-400">{label}</span>
+    {children}
+  </div>
+);
+
+export const CaptionSettings = ({
+  captionCount,
+  style,
+  burnIn,
+  exportFiles,
+  onStyleChange,
+  onBurnInChange,
+  onExportFilesChange,
+  onDownload,
+}: CaptionSettingsProps) => {
+  const update = (patch: Partial<CaptionStyle>) => onStyleChange({ ...style, ...patch });
+
+  if (captionCount === 0) {
+    return <p className="text-xs text-slate-400">Generate speech from text to get timed captions.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-xs text-slate-300">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>{captionCount === 1 ? '1 caption' : `${captionCount} captions`}</span>
+        <div className="flex gap-2">
+          {(['srt', 'vtt'] as const).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onDownload(format)}
+              className="rounded-full bg-white/10 px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={exportFiles} onChange={(event) => onExportFilesChange(event.target.checked)} />
+        Download SRT and WebVTT with each video export
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={burnIn} onChange={(event) => onBurnInChange(event.target.checked)} />
+        Burn captions into the video
+      </label>
+      {burnIn ? (
+        <div className="space-y-2 rounded-2xl border border-white/10 bg-black/20 p-3">
+          <Row label="Font">
+            {CAPTION_FONTS.map((font) => (
+              <Option
+                key={font.id}
+                label={font.label}
+                active={style.font === font.id}
+                onClick={() => update({ font: font.id })}
+              />
+            ))}
+          </Row>
+          <Row label="Position">
+            {CAPTION_POSITIONS.map((position) => (
+              <Option
+                key={position}
+                label={position}
+                active={style.position === position}
+                onClick={() => update({ position })}
+              />
+            ))}
+          </Row>
+          <Row label="Style">
+            {CAPTION_TREATMENTS.map((treatment) => (
+              <Option
+                key={treatment}
+                label={treatment}
+                active={style.treatment === treatment}
+                onClick={() => update({ treatment })}
+              />
+            ))}
+          </Row>
+          <Row label="Size">
+            <input
+              type="range"
+              min={MIN_CAPTION_SIZE * 1000}
+              max={MAX_CAPTION_SIZE * 1000}
+              value={Math.round(style.size * 1000)}
+              onChange={(event) => update({ size: Number(event.target.value) / 1000 })}
+              className="h-1.5 flex-1 cursor-pointer rounded-full bg-slate-700 accent-indigo-400"
+            />
+            <input
+              type="color"
+              value={style.color}
+              onChange={(event) => update({ color: event.target.value })}
+              className="h-6 w-8 cursor-pointer rounded border border-white/10 bg-transparent"
+              title="Text colour"
+            />
+          </Row>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default CaptionSettings;
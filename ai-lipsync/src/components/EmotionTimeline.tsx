@@ -0,0 +1,272 @@
+'use client';
+
+import { useMemo, useState, type PointerEvent } from 'react';
+import { clsx } from 'clsx';
+import type { EmotionKey, EmotionState } from '../hooks/useAvatarEngine';
+import {
+  createKeyframeId,
+  EASING_KINDS,
+  EMOTION_KEYS,
+  hasEmotionKeyframes,
+  sampleEmotionChannel,
+  sampleEmotionTimeline,
+  type EasingKind,
+  type EmotionKeyframe,
+  type EmotionTimeline as EmotionTimelineData,
+} from '../lib/emotionTimeline';
+
+interface EmotionTimelineProps {
+  timeline: EmotionTimelineData;
+  emotions: EmotionState;
+  duration: number;
+  playhead: number;
+  labels: Record<EmotionKey, string>;
+  accents: Map<EmotionKey, string>;
+  onSetKeyframe: (key: EmotionKey, keyframe: EmotionKeyframe) => void;
+  onDeleteKeyframe: (key: EmotionKey, id: string) => void;
+  onClear: (key?: EmotionKey) => void;
+}
+
+// Span shown before any audio is loaded, so keyframes can be sketched up front.
+const DEFAULT_SPAN = 10;
+const CURVE_SAMPLES = 120;
+
+const EASING_LABELS: Record<EasingKind, string> = {
+  linear: 'Linear',
+  easeIn: 'Ease in',
+  easeOut: 'Ease out',
+  easeInOut: 'Ease in-out',
+  step: 'Hold',
+};
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+const buildCurvePath = (keyframes: EmotionKeyframe[], fallback: number, span: number) => {
+  const points: string[] = [];
+  for (let i = 0; i <= CURVE_SAMPLES; i++) {
+    const x = i / CURVE_SAMPLES;
+    const value = sampleEmotionChannel(keyframes, x * span, fallback);
+    points.push(`${(x * 100).toFixed(2)},${((1 - value) * 100).toFixed(2)}`);
+  }
+  return `M${points.join(' L')}`;
+};
+
+const readLanePosition = (event: PointerEvent<HTMLElement>, lane: HTMLElement, span: number) => {
+  const rect = lane.getBoundingClientRect();
+  const x = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+  const y = Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1);
+  return { time: x * span, value: 1 - y };
+};
+
+export const EmotionTimeline = ({
+  timeline,
+  emotions,
+  duration,
+  playhead,
+  labels,
+  accents,
+  onSetKeyframe,
+  onDeleteKeyframe,
+  onClear,
+}: EmotionTimelineProps) => {
+  const [selection, setSelection] = useState<{ key: EmotionKey; id: string } | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  const span = useMemo(() => {
+    const lastKeyframe = Math.max(0, ...EMOTION_KEYS.flatMap((key) => timeline[key].map((item) => item.time)));
+    return Math.max(duration > 0 ? duration : DEFAULT_SPAN, lastKeyframe);
+  }, [duration, timeline]);
+
+  const selected = selection
+    ? (timeline[selection.key].find((item) => item.id === selection.id) ?? null)
+    : null;
+
+  const addKeyframe = (key: EmotionKey, time: number, value: number) => {
+    const keyframe: EmotionKeyframe = { id: createKeyframeId(), time, value, easing: 'easeInOut' };
+    onSetKeyframe(key, keyframe);
+    setSelection({ key, id: keyframe.id });
+  };
+
+  const keyCurrentMix = () => {
+    const time = Math.min(playhead, span);
+    const mix = sampleEmotionTimeline(timeline, time, emotions);
+    for (const key of EMOTION_KEYS) {
+      const existing = timeline[key].find((item) => Math.abs(item.time - time) < 0.01);
+      onSetKeyframe(key, {
+        id: existing?.id ?? createKeyframeId(),
+        time,
+        value: mix[key],
+        easing: existing?.easing ?? 'easeInOut',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          Click a lane to add a keyframe, drag to move it. Playhead {formatTime(playhead)} / {formatTime(span)}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={keyCurrentMix}
+            className="rounded-full bg-white/10 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+          >
+            Key mix at playhead
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Remove every emotion keyframe?')) {
+                onClear();
+                setSelection(null);
+              }
+            }}
+            disabled={!hasEmotionKeyframes(timeline)}
+            className="rounded-full bg-red-500/15 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-red-200 transition hover:bg-red-500/30 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Clear all
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {EMOTION_KEYS.map((key) => {
+          const accent = accents.get(key) ?? '#a5b4fc';
+          const keyframes = timeline[key];
+          return (
+            <div key={key} className="flex items-center gap-3">
+              <div className="w-24 shrink-0">
+                <p className="text-[11px] uppercase tracking-[0.2em] text-slate-300">{labels[key]}</p>
+                {keyframes.length > 0 ? (
+                  <button
+                    onClick={() => {
+                      onClear(key);
+                      if (selection?.key === key) setSelection(null);
+                    }}
+                    className="text-[10px] text-slate-500 transition hover:text-slate-300"
+                  >
+                    Clear lane
+                  </button>
+                ) : (
+                  <p className="text-[10px] text-slate-500">Slider {Math.round(emotions[key] * 100)}%</p>
+                )}
+              </div>
+              <div
+                className="relative h-12 flex-1 cursor-crosshair overflow-hidden rounded-xl border border-white/10 bg-black/30"
+                onPointerDown={(event) => {
+                  const { time, value } = readLanePosition(event, event.currentTarget, span);
+                  addKeyframe(key, time, value);
+                }}
+              >
+                <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 h-full w-full">
+                  <path
+                    d={buildCurvePath(keyframes, emotions[key], span)}
+                    fill="none"
+                    stroke={accent}
+                    strokeOpacity={keyframes.length > 0 ? 0.9 : 0.3}
+                    strokeWidth={1.5}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+                {keyframes.map((keyframe) => (
+                  <button
+                    key={keyframe.id}
+                    aria-label={`${labels[key]} keyframe at ${formatTime(keyframe.time)}`}
+                    className={clsx(
+                      'absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rotate-45 border border-white/80 transition-shadow',
+                      selection?.id === keyframe.id && 'ring-2 ring-white',
+                      draggingId === keyframe.id ? 'cursor-grabbing' : 'cursor-grab',
+                    )}
+                    style={{
+                      left: `${(keyframe.time / span) * 100}%`,
+                      top: `${(1 - keyframe.value) * 100}%`,
+                      backgroundColor: accent,
+                    }}
+                    onPointerDown={(event) => {
+                      event.stopPropagation();
+                      event.currentTarget.setPointerCapture(event.pointerId);
+                      setSelection({ key, id: keyframe.id });
+                      setDraggingId(keyframe.id);
+                    }}
+                    onPointerMove={(event) => {
+                      const lane = event.currentTarget.parentElement;
+                      if (draggingId !== keyframe.id || !lane) return;
+                      onSetKeyframe(key, { ...keyframe, ...readLanePosition(event, lane, span) });
+                    }}
+                    onPointerUp={() => setDraggingId(null)}
+                    onPointerCancel={() => setDraggingId(null)}
+                  />
+                ))}
+                <div
+                  className="pointer-events-none absolute inset-y-0 w-px bg-white/70"
+                  style={{ left: `${Math.min(playhead / span, 1) * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selection && selected ? (
+        <div className="flex flex-wrap items-end gap-4 rounded-2xl border border-white/10 bg-black/20 px-4 py-3 text-xs text-slate-300">
+          <p className="self-center font-semibold uppercase tracking-[0.2em] text-white">{labels[selection.key]}</p>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-[0.2em] text-slate-400">Time (s)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.05}
+              value={Number(selected.time.toFixed(2))}
+              onChange={(event) => {
+                const time = Number(event.target.value);
+                if (Number.isFinite(time)) onSetKeyframe(selection.key, { ...selected, time });
+              }}
+              className="w-20 rounded-lg border border-white/20 bg-white/10 px-2 py-1 text-white focus:outline-none"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-[0.2em] text-slate-400">Value (%)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(selected.value * 100)}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                if (Number.isFinite(value)) onSetKeyframe(selection.key, { ...selected, value: value / 100 });
+              }}
+              className="w-20 rounded-lg border border-white/20 bg-white/10 px-2 py-1 text-white focus:outline-none"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block uppercase tracking-[0.2em] text-slate-400">Easing to next</span>
+            <select
+              value={selected.easing}
+              onChange={(event) =>
+                onSetKeyframe(selection.key, { ...selected, easing: event.target.value as EasingKind })
+              }
+              className="rounded-lg border border-white/20 bg-slate-900 px-2 py-1 text-white focus:outline-none"
+            >
+              {EASING_KINDS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {EASING_LABELS[easing]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => {
+              onDeleteKeyframe(selection.key, selected.id);
+              setSelection(null);
+            }}
+            className="rounded-full bg-red-500/15 px-3 py-1.5 text-[10px] font-semibold uppercase tracking-widest text-red-200 transition hover:bg-red-500/30"
+          >
+            Delete keyframe
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default EmotionTimeline;
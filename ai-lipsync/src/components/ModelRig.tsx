@@ -0,0 +1,170 @@
+'use client';
+
+import { type RefObject, useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+import type { AvatarAnimationState } from '../hooks/useAvatarEngine';
+import type { LoadedAvatarModel } from '../lib/avatarModel';
+import { computeMorphWeights, listMappedMorphs, RIG_BONE_KEYS, type RigBoneKey, type RigMapping } from '../lib/rigMapping';
+import { currentFrame, ease, frameLerp, type FrameOverride } from './rigFrame';
+
+interface MorphSlot {
+  influences: number[];
+  index: number;
+}
+
+interface BoneSlot {
+  node: THREE.Object3D;
+  rest: THREE.Quaternion;
+}
+
+// Rest rotations are recorded the first time a bone is seen, before any mapping has rotated it.
+const REST_POSES = new WeakMap<THREE.Object3D, THREE.Quaternion>();
+
+const restPoseOf = (node: THREE.Object3D) => {
+  let rest = REST_POSES.get(node);
+  if (!rest) {
+    rest = node.quaternion.clone();
+    REST_POSES.set(node, rest);
+  }
+  return rest;
+};
+
+const findBone = (model: LoadedAvatarModel, name: string) =>
+  (model.vrm
+    ? model.vrm.humanoid.getNormalizedBoneNode(name as VRMHumanBoneName)
+    : model.scene.getObjectByName(name)) ?? null;
+
+const collectMorphSlots = (scene: THREE.Object3D, names: string[]) => {
+  const slots = new Map<string, MorphSlot[]>(names.map((name) => [name, []]));
+  scene.traverse((object) => {
+    const mesh = object as THREE.Mesh;
+    if (!mesh.morphTargetDictionary || !mesh.morphTargetInfluences) {
+      return;
+    }
+    for (const [name, index] of Object.entries(mesh.morphTargetDictionary)) {
+      slots.get(name)?.push({ influences: mesh.morphTargetInfluences, index });
+    }
+  });
+  return slots;
+};
+
+const rotateFromRest = (slot: BoneSlot | null, euler: THREE.Euler, scratch: THREE.Quaternion) => {
+  slot?.node.quaternion.copy(slot.rest).multiply(scratch.setFromEuler(euler));
+};
+
+// VRM eyes go through the model's own look-at so bone and expression based eyes both work.
+const applyVrmLookAt = (vrm: VRM, eyes: THREE.Vector2) => {
+  if (vrm.lookAt) {
+    vrm.lookAt.yaw = THREE.MathUtils.radToDeg(eyes.x);
+    vrm.lookAt.pitch = THREE.MathUtils.radToDeg(eyes.y);
+  }
+};
+
+/**
+ * Drives a loaded glTF or VRM model: mapped morph targets (or VRM expressions)
+ * follow the visemes, blink and emotion mix, and mapped bones take the head
+ * and eye rotation on top of their rest pose.
+ */
+export const ModelRig = ({
+  model,
+  mapping,
+  animationRef,
+  overrideRef,
+}: {
+  model: LoadedAvatarModel;
+  mapping: RigMapping;
+  animationRef: RefObject<AvatarAnimationState>;
+  overrideRef: RefObject<FrameOverride>;
+}) => {
+  const mappedMorphs = useMemo(() => listMappedMorphs(mapping), [mapping]);
+  const morphSlots = useMemo(
+    () => (model.vrm ? null : collectMorphSlots(model.scene, mappedMorphs)),
+    [mappedMorphs, model],
+  );
+  const bones = useMemo(
+    () =>
+      RIG_BONE_KEYS.reduce(
+        (result, key) => {
+          const name = mapping.bones[key];
+          const node = name ? findBone(model, name) : null;
+          result[key] = node ? { node, rest: restPoseOf(node) } : null;
+          return result;
+        },
+        {} as Record<RigBoneKey, BoneSlot | null>,
+      ),
+    [mapping, model],
+  );
+  const currentWeights = useRef(new Map<string, number>());
+  const pose = useRef({ head: new THREE.Vector3(), eyes: new THREE.Vector2() });
+  const scratch = useMemo(() => ({ euler: new THREE.Euler(), quaternion: new THREE.Quaternion() }), []);
+
+  // Put everything this mapping touched back to rest before another mapping or model takes over.
+  useEffect(
+    () => () => {
+      for (const slot of Object.values(bones)) {
+        slot?.node.quaternion.copy(slot.rest);
+      }
+      for (const name of mappedMorphs) {
+        model.vrm?.expressionManager?.setValue(name, 0);
+        morphSlots?.get(name)?.forEach((slot) => {
+          slot.influences[slot.index] = 0;
+        });
+      }
+      currentWeights.current.clear();
+    },
+    [bones, mappedMorphs, model, morphSlots],
+  );
+
+  useFrame((_, delta) => {
+    const animation = currentFrame(overrideRef.current, animationRef);
+    const lerpAmount = frameLerp(overrideRef.current, delta);
+
+    const targets = computeMorphWeights(animation, mapping);
+    for (const name of mappedMorphs) {
+      const value = ease(currentWeights.current.get(name) ?? 0, targets.get(name) ?? 0, lerpAmount * 1.2);
+      currentWeights.current.set(name, value);
+      if (model.vrm) {
+        model.vrm.expressionManager?.setValue(name, value);
+      } else {
+        morphSlots?.get(name)?.forEach((slot) => {
+          slot.influences[slot.index] = value;
+        });
+      }
+    }
+
+    const { head, eyes } = pose.current;
+    const [x, y, z] = animation.headRotation;
+    head.set(ease(head.x, x, lerpAmount), ease(head.y, y, lerpAmount), ease(head.z, z, lerpAmount / 2));
+    const neckShare = bones.neck ? mapping.neckShare : 0;
+    rotateFromRest(
+      bones.neck,
+      scratch.euler.set(head.x * neckShare, head.y * neckShare, head.z * neckShare),
+      scratch.quaternion,
+    );
+    rotateFromRest(
+      bones.head,
+      scratch.euler.set(head.x * (1 - neckShare), head.y * (1 - neckShare), head.z * (1 - neckShare)),
+      scratch.quaternion,
+    );
+
+    eyes.set(
+      ease(eyes.x, animation.eyeDirection[0] * mapping.eyeRange[0], lerpAmount),
+      ease(eyes.y, animation.eyeDirection[1] * mapping.eyeRange[1], lerpAmount),
+    );
+    if (model.vrm?.lookAt) {
+      applyVrmLookAt(model.vrm, eyes);
+    } else {
+      scratch.euler.set(-eyes.y, eyes.x, 0);
+      rotateFromRest(bones.leftEye, scratch.euler, scratch.quaternion);
+      rotateFromRest(bones.rightEye, scratch.euler, scratch.quaternion);
+    }
+
+    model.vrm?.update(Math.min(delta, 0.1));
+  });
+
+  return <primitive object={model.scene} />;
+};
+
+export default ModelRig;
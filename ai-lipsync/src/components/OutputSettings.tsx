@@ -0,0 +1,70 @@
+'use client';
+
+import {
+  EXPORT_FRAME_RATES,
+  EXPORT_PRESETS,
+  EXPORT_QUALITIES,
+  resolveExportOutput,
+  type ExportQuality,
+  type ExportSettings,
+} from '../lib/exportPresets';
+
+interface OutputSettingsProps {
+  settings: ExportSettings;
+  showSafeArea: boolean;
+  onChange: (settings: ExportSettings) => void;
+  onShowSafeAreaChange: (show: boolean) => void;
+}
+
+const SELECT_CLASS =
+  'rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-xs font-medium text-indigo-200 focus:border-indigo-400 focus:outline-none';
+
+export const OutputSettings = ({ settings, showSafeArea, onChange, onShowSafeAreaChange }: OutputSettingsProps) => {
+  const output = resolveExportOutput(settings);
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2 text-xs text-slate-300">
+      <span className="text-xs uppercase tracking-[0.25em] text-slate-400">Output</span>
+      <select
+        value={settings.presetId}
+        onChange={(event) => onChange({ ...settings, presetId: event.target.value })}
+        className={SELECT_CLASS}
+      >
+        {EXPORT_PRESETS.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.fps}
+        onChange={(event) => onChange({ ...settings, fps: Number(event.target.value) })}
+        className={SELECT_CLASS}
+      >
+        {EXPORT_FRAME_RATES.map((fps) => (
+          <option key={fps} value={fps}>
+            {fps} fps
+          </option>
+        ))}
+      </select>
+      <select
+        value={settings.quality}
+        onChange={(event) => onChange({ ...settings, quality: event.target.value as ExportQuality })}
+        className={SELECT_CLASS}
+      >
+        {EXPORT_QUALITIES.map((quality) => (
+          <option key={quality.id} value={quality.id}>
+            {quality.label} quality
+          </option>
+        ))}
+      </select>
+      <span className="text-slate-400">{(output.videoBitrate / 1_000_000).toFixed(1)} Mbps</span>
+      <label className="ml-auto flex items-center gap-2">
+        <input type="checkbox" checked={showSafeArea} onChange={(event) => onShowSafeAreaChange(event.target.checked)} />
+        Safe area
+      </label>
+    </div>
+  );
+};
+
+export default OutputSettings;
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, type PointerEvent } from 'react';
+import { clsx } from 'clsx';
+import { PORTRAIT_ANCHOR_KEYS, type PortraitAnchorKey, type PortraitAnchors } from '../lib/portraitAnchors';
+
+interface PortraitAnchorEditorProps {
+  imageUrl: string;
+  anchors: PortraitAnchors;
+  onChange: (anchors: PortraitAnchors) => void;
+  onAutoPlace: () => void;
+}
+
+const ANCHOR_LABELS: Record<PortraitAnchorKey, string> = {
+  leftEye: 'Eye',
+  rightEye: 'Eye',
+  mouthLeft: 'Mouth',
+  mouthRight: 'Mouth',
+  chin: 'Chin',
+};
+
+const ANCHOR_COLORS: Record<PortraitAnchorKey, string> = {
+  leftEye: 'bg-sky-400',
+  rightEye: 'bg-sky-400',
+  mouthLeft: 'bg-pink-400',
+  mouthRight: 'bg-pink-400',
+  chin: 'bg-amber-300',
+};
+
+export const PortraitAnchorEditor = ({ imageUrl, anchors, onChange, onAutoPlace }: PortraitAnchorEditorProps) => {
+  const [dragging, setDragging] = useState<PortraitAnchorKey | null>(null);
+
+  const moveAnchor = (event: PointerEvent<HTMLDivElement>, key: PortraitAnchorKey) => {
+    const frame = event.currentTarget.parentElement;
+    if (dragging !== key || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    onChange({
+      ...anchors,
+      [key]: {
+        x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+        y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative touch-none select-none overflow-hidden rounded-xl border border-white/10">
+        {/* eslint-disable-next-line @next/next/no-img-element -- data URLs cannot go through next/image */}
+        <img src={imageUrl} alt="Portrait anchors" className="block w-full" draggable={false} />
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="pointer-events-none absolute inset-0 h-full w-full">
+          <line
+            x1={anchors.mouthLeft.x * 100}
+            y1={anchors.mouthLeft.y * 100}
+            x2={anchors.mouthRight.x * 100}
+            y2={anchors.mouthRight.y * 100}
+            stroke="#f472b6"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {PORTRAIT_ANCHOR_KEYS.map((key) => (
+          <div
+            key={key}
+            title={ANCHOR_LABELS[key]}
+            className={clsx(
+              'absolute h-3.5 w-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow',
+              ANCHOR_COLORS[key],
+              dragging === key ? 'cursor-grabbing' : 'cursor-grab',
+            )}
+            style={{ left: `${anchors[key].x * 100}%`, top: `${anchors[key].y * 100}%` }}
+            onPointerDown={(event) => {
+              event.currentTarget.setPointerCapture(event.pointerId);
+              setDragging(key);
+            }}
+            onPointerMove={(event) => moveAnchor(event, key)}
+            onPointerUp={() => setDragging(null)}
+            onPointerCancel={() => setDragging(null)}
+          />
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-3 text-[11px] text-slate-400">
+        <span>Drag the eye, mouth-corner and chin markers onto the face.</span>
+        <button
+          onClick={onAutoPlace}
+          className="shrink-0 rounded-full bg-white/10 px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest text-slate-200 transition hover:bg-white/20"
+        >
+          Auto-place
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PortraitAnchorEditor;
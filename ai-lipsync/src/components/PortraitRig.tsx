@@ -0,0 +1,226 @@
+'use client';
+
+import { type RefObject, useEffect, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useTexture } from '@react-three/drei';
+import * as THREE from 'three';
+import type { AvatarAnimationState, AvatarPreset } from '../hooks/useAvatarEngine';
+import type { PortraitAnchors } from '../lib/portraitAnchors';
+import { blendMouthShape } from '../lib/visemes';
+import { currentFrame, ease, frameLerp, type FrameOverride } from './rigFrame';
+
+// World-space height of the portrait plane; roughly the span of the primitive rig.
+const PORTRAIT_HEIGHT = 3.2;
+
+const vertexShader = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// Works in image space (y down) scaled by the aspect ratio so distances are isotropic.
+// Each effect maps the output pixel back to the source pixel it should show.
+const fragmentShader = /* glsl */ `
+  uniform sampler2D uMap;
+  uniform float uAspect;
+  uniform vec2 uLeftEye;
+  uniform vec2 uRightEye;
+  uniform vec2 uMouthLeft;
+  uniform vec2 uMouthRight;
+  uniform vec2 uChin;
+  uniform float uOpen;
+  uniform float uStretch;
+  uniform float uTeeth;
+  uniform float uBlink;
+  uniform float uBrow;
+  uniform vec2 uEyeDirection;
+  uniform vec3 uHead;
+  varying vec2 vUv;
+
+  vec2 toSpace(vec2 image) { return image * vec2(uAspect, 1.0); }
+  vec2 toImage(vec2 space) { return space / vec2(uAspect, 1.0); }
+
+  vec2 rotate(vec2 v, float angle) {
+    float c = cos(angle);
+    float s = sin(angle);
+    return vec2(c * v.x - s * v.y, s * v.x + c * v.y);
+  }
+
+  // Shifts the iris with the gaze and returns how far the eyelid covers this pixel.
+  float eye(inout vec2 p, vec2 center, float radius) {
+    vec2 offset = (p - center) / vec2(radius, radius * 0.55);
+    float inside = 1.0 - smoothstep(0.75, 1.0, length(offset));
+    p -= vec2(uEyeDirection.x, -uEyeDirection.y) * radius * 0.2 * inside;
+    float lidLine = -1.0 + 2.0 * uBlink;
+    return inside * (1.0 - smoothstep(lidLine - 0.15, lidLine, offset.y)) * step(0.01, uBlink);
+  }
+
+  // How much of the brow above an eye this pixel belongs to, fading out before the eye and the forehead.
+  float brow(vec2 p, vec2 center, float radius) {
+    vec2 offset = (p - center + vec2(0.0, radius * 1.6)) / vec2(radius * 1.7, radius * 1.1);
+    return 1.0 - smoothstep(0.4, 1.0, length(offset));
+  }
+
+  void main() {
+    vec2 p = toSpace(vec2(vUv.x, 1.0 - vUv.y));
+    vec2 leftEye = toSpace(uLeftEye);
+    vec2 rightEye = toSpace(uRightEye);
+    vec2 mouthLeft = toSpace(uMouthLeft);
+    vec2 mouthRight = toSpace(uMouthRight);
+    vec2 chin = toSpace(uChin);
+    vec2 mouth = (mouthLeft + mouthRight) * 0.5;
+    float eyeDistance = max(distance(leftEye, rightEye), 0.01);
+
+    // Head sway: the face rotates around the chin and fades out towards hair and shoulders.
+    vec2 faceCenter = (leftEye + rightEye + mouth) / 3.0;
+    float headMask = 1.0 - smoothstep(eyeDistance * 1.2, eyeDistance * 2.4, distance(p, faceCenter));
+    vec2 shift = vec2(uHead.y, -uHead.x) * eyeDistance * 0.3;
+    p = chin + rotate(p - chin, -uHead.z * headMask) - shift * headMask;
+
+    // Mouth: the lips part into a lens-shaped opening, the chin below follows the jaw.
+    vec2 m = p - mouth;
+    float halfWidth = max(distance(mouthLeft, mouthRight) * 0.5, 0.005);
+    float region = 1.0 - smoothstep(0.6, 1.4, length(m / vec2(halfWidth * 1.6, halfWidth * 1.3)));
+    m.x /= mix(1.0, uStretch, region);
+    float across = clamp(1.0 - pow(abs(m.x) / (halfWidth * 1.1), 2.0), 0.0, 1.0);
+    float jaw = uOpen * halfWidth * 0.8 * sqrt(across);
+    float lip = jaw * 0.25;
+    float interior = 0.0;
+    float edge = 0.003;
+    if (m.y >= 0.0) {
+      interior = 1.0 - smoothstep(jaw - edge, jaw, m.y);
+      m.y = max(0.0, m.y - jaw * (1.0 - smoothstep(jaw, jaw + halfWidth * 2.0, m.y)));
+    } else {
+      interior = 1.0 - smoothstep(lip - edge, lip, -m.y);
+      m.y = min(0.0, m.y + lip * (1.0 - smoothstep(lip, lip + halfWidth, -m.y)));
+    }
+    interior *= step(0.0005, jaw);
+    p = mouth + m;
+
+    float eyeRadius = eyeDistance * 0.22;
+    // Brow raise: the skin above the eyes shows what was below it.
+    p.y += uBrow * eyeRadius * 0.35 * max(brow(p, leftEye, eyeRadius), brow(p, rightEye, eyeRadius));
+    float leftLid = eye(p, leftEye, eyeRadius);
+    float rightLid = eye(p, rightEye, eyeRadius);
+    float lid = max(leftLid, rightLid);
+    // Eyelids reuse the skin just above each eye.
+    vec2 nearestEye = distance(p, leftEye) < distance(p, rightEye) ? leftEye : rightEye;
+    vec4 lidColor = texture2D(uMap, toImage(vec2(p.x, nearestEye.y - eyeRadius * 0.9)));
+
+    vec4 color = texture2D(uMap, toImage(p));
+    color = mix(color, lidColor, lid);
+
+    float depth = clamp((m.y + lip) / max(jaw + lip, 0.0001), 0.0, 1.0);
+    vec3 inner = mix(vec3(0.12, 0.03, 0.05), vec3(0.04, 0.01, 0.02), depth);
+    inner = mix(inner, vec3(0.92, 0.9, 0.85), uTeeth * (1.0 - smoothstep(0.15, 0.35, depth)));
+    color.rgb = mix(color.rgb, inner, interior);
+
+    gl_FragColor = color;
+    #include <colorspace_fragment>
+  }
+`;
+
+type PortraitUniforms = Record<string, THREE.IUniform>;
+
+const applyPortraitFrame = (
+  uniforms: PortraitUniforms,
+  animation: AvatarAnimationState,
+  anchors: PortraitAnchors,
+  lerpAmount: number,
+) => {
+  uniforms.uLeftEye.value.set(anchors.leftEye.x, anchors.leftEye.y);
+  uniforms.uRightEye.value.set(anchors.rightEye.x, anchors.rightEye.y);
+  uniforms.uMouthLeft.value.set(anchors.mouthLeft.x, anchors.mouthLeft.y);
+  uniforms.uMouthRight.value.set(anchors.mouthRight.x, anchors.mouthRight.y);
+  uniforms.uChin.value.set(anchors.chin.x, anchors.chin.y);
+
+  const shape = blendMouthShape(animation.visemes);
+  const open = shape.open * (0.35 + animation.mouthOpen * 0.65);
+  const stretch = 0.85 + shape.width * 0.3 + animation.emotionMix.happy * 0.08 - shape.round * 0.12;
+  uniforms.uOpen.value = ease(uniforms.uOpen.value, open, lerpAmount * 1.2);
+  uniforms.uStretch.value = ease(uniforms.uStretch.value, stretch, lerpAmount * 1.2);
+  uniforms.uTeeth.value = ease(uniforms.uTeeth.value, shape.teeth, lerpAmount);
+  uniforms.uBlink.value = ease(uniforms.uBlink.value, Math.min(1, animation.blink * 1.5), lerpAmount * 1.4);
+  uniforms.uBrow.value = ease(uniforms.uBrow.value, animation.browRaise, lerpAmount);
+
+  const eyes = uniforms.uEyeDirection.value as THREE.Vector2;
+  eyes.set(
+    ease(eyes.x, animation.eyeDirection[0], lerpAmount),
+    ease(eyes.y, animation.eyeDirection[1], lerpAmount),
+  );
+  // Kept small: large rotations tear a flat image apart.
+  const head = uniforms.uHead.value as THREE.Vector3;
+  const [x, y, z] = animation.headRotation;
+  head.set(
+    ease(head.x, x * 0.3, lerpAmount),
+    ease(head.y, y * 0.3, lerpAmount),
+    ease(head.z, z * 0.6, lerpAmount / 2),
+  );
+};
+
+/**
+ * Flat rig for photos and illustrations: the portrait is drawn on a plane
+ * and a shader warps the mouth, closes the eyelids and sways the head
+ * around the anchors marked on the image.
+ */
+export const PortraitRig = ({
+  face,
+  anchors,
+  animationRef,
+  overrideRef,
+}: {
+  face: AvatarPreset;
+  anchors: PortraitAnchors;
+  animationRef: RefObject<AvatarAnimationState>;
+  overrideRef: RefObject<FrameOverride>;
+}) => {
+  const texture = useTexture(face.faceTexture, (loadedTexture) => {
+    loadedTexture.colorSpace = THREE.SRGBColorSpace;
+    loadedTexture.flipY = false;
+  });
+  const image = texture.image as { width: number; height: number } | undefined;
+  const aspect = image && image.height > 0 ? image.width / image.height : 1;
+
+  const material = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        vertexShader,
+        fragmentShader,
+        transparent: true,
+        uniforms: {
+          uMap: { value: texture },
+          uAspect: { value: aspect },
+          uLeftEye: { value: new THREE.Vector2() },
+          uRightEye: { value: new THREE.Vector2() },
+          uMouthLeft: { value: new THREE.Vector2() },
+          uMouthRight: { value: new THREE.Vector2() },
+          uChin: { value: new THREE.Vector2() },
+          uOpen: { value: 0 },
+          uStretch: { value: 1 },
+          uTeeth: { value: 0 },
+          uBlink: { value: 0 },
+          uBrow: { value: 0 },
+          uEyeDirection: { value: new THREE.Vector2() },
+          uHead: { value: new THREE.Vector3() },
+        },
+      }),
+    [aspect, texture],
+  );
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useFrame((_, delta) => {
+    const animation = currentFrame(overrideRef.current, animationRef);
+    applyPortraitFrame(material.uniforms, animation, anchors, frameLerp(overrideRef.current, delta));
+  });
+
+  return (
+    <mesh position={[0, 0.35, 0.2]} material={material}>
+      <planeGeometry args={[PORTRAIT_HEIGHT * aspect, PORTRAIT_HEIGHT]} />
+    </mesh>
+  );
+};
+
+export default PortraitRig;
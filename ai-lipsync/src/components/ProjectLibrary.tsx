@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import type { LibraryEntry, StorageUsage } from '../hooks/useProjectLibrary';
+
+interface ProjectLibraryProps {
+  entries: LibraryEntry[];
+  currentProjectId: string | null;
+  storageUsage: StorageUsage | null;
+  isSaving: boolean;
+  lastSavedAt: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const Thumbnail = ({ blob, name }: { blob: Blob | null; name: string }) => {
+  const url = useMemo(() => (blob ? URL.createObjectURL(blob) : null), [blob]);
+  useEffect(
+    () => () => {
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    },
+    [url],
+  );
+
+  return (
+    <div className="h-14 w-20 shrink-0 overflow-hidden rounded-xl border border-white/10 bg-black/30">
+      {url ? (
+        // eslint-disable-next-line @next/next/no-img-element -- object URLs cannot go through next/image
+        <img src={url} alt={name} className="h-full w-full object-cover" />
+      ) : null}
+    </div>
+  );
+};
+
+const ActionButton = ({ label, onClick, danger }: { label: string; onClick: () => void; danger?: boolean }) => (
+  <button
+    onClick={onClick}
+    className={clsx(
+      'rounded-full px-2.5 py-1 text-[10px] font-semibold uppercase tracking-widest transition',
+      danger ? 'bg-red-500/15 text-red-200 hover:bg-red-500/30' : 'bg-white/10 text-slate-200 hover:bg-white/20',
+    )}
+  >
+    {label}
+  </button>
+);
+
+export const ProjectLibrary = ({
+  entries,
+  currentProjectId,
+  storageUsage,
+  isSaving,
+  lastSavedAt,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: ProjectLibraryProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const usageRatio = storageUsage && storageUsage.quota > 0 ? storageUsage.usage / storageUsage.quota : 0;
+
+  const commitRename = (id: string) => {
+    const name = draftName.trim();
+    if (name) {
+      onRename(id, name);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>
+          {isSaving ? 'Saving…' : lastSavedAt ? `Autosaved ${formatDate(lastSavedAt)}` : 'Autosave on'}
+        </span>
+        {storageUsage ? (
+          <span>
+            {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)}
+          </span>
+        ) : null}
+      </div>
+      {storageUsage ? (
+        <div className="h-1.5 rounded-full bg-white/10">
+          <div
+            className={clsx('h-full rounded-full', usageRatio > 0.8 ? 'bg-red-400' : 'bg-indigo-400')}
+            style={{ width: `${Math.max(1, Math.round(usageRatio * 100))}%` }}
+          />
+        </div>
+      ) : null}
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400">Projects appear here as soon as they are autosaved.</p>
+      ) : (
+        <ul className="max-h-80 space-y-2 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={clsx(
+                'flex gap-3 rounded-2xl border px-3 py-2',
+                entry.id === currentProjectId ? 'border-indigo-400/60 bg-indigo-500/10' : 'border-white/10 bg-black/20',
+              )}
+            >
+              <Thumbnail blob={entry.thumbnail} name={entry.name} />
+              <div className="min-w-0 flex-1 space-y-1.5">
+                {renamingId === entry.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(event) => setDraftName(event.target.value)}
+                    onBlur={() => commitRename(entry.id)}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') commitRename(entry.id);
+                      if (event.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full rounded-lg border border-white/20 bg-white/10 px-2 py-0.5 text-sm text-white focus:outline-none"
+                  />
+                ) : (
+                  <p className="truncate text-sm font-semibold text-white">{entry.name}</p>
+                )}
+                <p className="truncate text-[11px] text-slate-400">
+                  {formatDate(entry.updatedAt)} • {formatBytes(entry.size)}
+                  {entry.audioName ? ` • ${entry.audioName}` : ''}
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {entry.id !== currentProjectId ? (
+                    <ActionButton label="Open" onClick={() => onOpen(entry.id)} />
+                  ) : null}
+                  <ActionButton label="Duplicate" onClick={() => onDuplicate(entry.id)} />
+                  <ActionButton
+                    label="Rename"
+                    onClick={() => {
+                      setDraftName(entry.name);
+                      setRenamingId(entry.id);
+                    }}
+                  />
+                  {/* The open project would be autosaved straight back, so it can't be deleted. */}
+                  {entry.id !== currentProjectId ? (
+                    <ActionButton
+                      label="Delete"
+                      danger
+                      onClick={() => {
+                        if (window.confirm(`Delete "${entry.name}"? This cannot be undone.`)) {
+                          onDelete(entry.id);
+                        }
+                      }}
+                    />
+                  ) : null}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectLibrary;
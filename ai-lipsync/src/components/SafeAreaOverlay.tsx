@@ -0,0 +1,34 @@
+'use client';
+
+interface SafeAreaOverlayProps {
+  label: string;
+}
+
+// Action-safe and title-safe margins as a share of each edge (SMPTE ST 2046-1).
+const ACTION_SAFE = 0.035;
+const TITLE_SAFE = 0.05;
+
+const inset = (margin: number) => ({
+  top: `${margin * 100}%`,
+  bottom: `${margin * 100}%`,
+  left: `${margin * 100}%`,
+  right: `${margin * 100}%`,
+});
+
+/**
+ * Outlines the action-safe and title-safe areas of the export frame over the
+ * preview. Keep faces inside the outer box and captions inside the inner one.
+ */
+export const SafeAreaOverlay = ({ label }: SafeAreaOverlayProps) => (
+  <div className="pointer-events-none absolute inset-0 rounded-3xl">
+    <div className="absolute border border-dashed border-white/40" style={inset(ACTION_SAFE)} />
+    <div className="absolute border border-dashed border-amber-300/50" style={inset(TITLE_SAFE)} />
+    <div className="absolute left-1/2 top-1/2 h-4 w-px -translate-x-1/2 -translate-y-1/2 bg-white/40" />
+    <div className="absolute left-1/2 top-1/2 h-px w-4 -translate-x-1/2 -translate-y-1/2 bg-white/40" />
+    <span className="absolute right-[6%] top-[6%] rounded-full bg-black/50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-widest text-white/70">
+      {label}
+    </span>
+  </div>
+);
+
+export default SafeAreaOverlay;
@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { clsx } from 'clsx';
+import type { LoopRegion } from '../hooks/useAvatarEngine';
+
+interface WaveformScrubberProps {
+  peaks: Float32Array | null;
+  duration: number;
+  currentTime: number;
+  loopRegion: LoopRegion | null;
+  isLoopEnabled: boolean;
+  playbackRate: number;
+  playbackRates: number[];
+  disabled?: boolean;
+  onSeek: (seconds: number) => void;
+  onLoopRegionChange: (region: LoopRegion | null) => void;
+  onLoopEnabledChange: (enabled: boolean) => void;
+  onPlaybackRateChange: (rate: number) => void;
+}
+
+type DragTarget = 'playhead' | 'loopStart' | 'loopEnd';
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+const drawWaveform = (canvas: HTMLCanvasElement, peaks: Float32Array | null) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+  const height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.clearRect(0, 0, width, height);
+  if (!peaks || peaks.length === 0) {
+    return;
+  }
+  const gradient = context.createLinearGradient(0, 0, width, 0);
+  gradient.addColorStop(0, '#818cf8');
+  gradient.addColorStop(0.5, '#c084fc');
+  gradient.addColorStop(1, '#f472b6');
+  context.fillStyle = gradient;
+  const mid = height / 2;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor((x / width) * peaks.length);
+    const to = Math.max(from + 1, Math.floor(((x + 1) / width) * peaks.length));
+    let peak = 0;
+    for (let i = from; i < to && i < peaks.length; i++) {
+      peak = Math.max(peak, peaks[i]);
+    }
+    const bar = Math.max(ratio, peak * (height - 2 * ratio));
+    context.fillRect(x, mid - bar / 2, 1, bar);
+  }
+};
+
+export const WaveformScrubber = ({
+  peaks,
+  duration,
+  currentTime,
+  loopRegion,
+  isLoopEnabled,
+  playbackRate,
+  playbackRates,
+  disabled,
+  onSeek,
+  onLoopRegionChange,
+  onLoopEnabledChange,
+  onPlaybackRateChange,
+}: WaveformScrubberProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [dragTarget, setDragTarget] = useState<DragTarget | null>(null);
+  const [draftRegion, setDraftRegion] = useState<LoopRegion | null>(null);
+  const region = draftRegion ?? loopRegion;
+  const isInteractive = !disabled && duration > 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    drawWaveform(canvas, peaks);
+    const observer = new ResizeObserver(() => drawWaveform(canvas, peaks));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [peaks]);
+
+  const timeFromPointer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const startDrag = (event: PointerEvent<HTMLDivElement>, target: DragTarget) => {
+    if (!isInteractive) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragTarget(target);
+  };
+
+  const handleMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragTarget || !isInteractive) return;
+    const time = timeFromPointer(event);
+    if (dragTarget === 'playhead') {
+      onSeek(time);
+    } else if (region) {
+      setDraftRegion(dragTarget === 'loopStart' ? { ...region, start: time } : { ...region, end: time });
+    }
+  };
+
+  const endDrag = () => {
+    if (draftRegion) {
+      onLoopRegionChange(draftRegion);
+    }
+    setDraftRegion(null);
+    setDragTarget(null);
+  };
+
+  const percent = (time: number) => `${duration > 0 ? Math.min(Math.max(time / duration, 0), 1) * 100 : 0}%`;
+  const regionStart = region ? Math.min(region.start, region.end) : 0;
+  const regionEnd = region ? Math.max(region.start, region.end) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={clsx(
+          'relative h-16 touch-none select-none overflow-hidden rounded-xl bg-white/5',
+          isInteractive ? 'cursor-pointer' : 'opacity-50',
+        )}
+        onPointerDown={(event) => {
+          if (!isInteractive) return;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          setDragTarget('playhead');
+          onSeek(timeFromPointer(event));
+        }}
+        onPointerMove={handleMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+        {region ? (
+          <div
+            className={clsx(
+              'pointer-events-none absolute inset-y-0 border-x',
+              isLoopEnabled ? 'border-emerald-300/80 bg-emerald-400/15' : 'border-white/30 bg-white/5',
+            )}
+            style={{ left: percent(regionStart), width: `calc(${percent(regionEnd)} - ${percent(regionStart)})` }}
+          />
+        ) : null}
+        {region
+          ? (['loopStart', 'loopEnd'] as const).map((target) => (
+              <div
+                key={target}
+                aria-label={target === 'loopStart' ? 'Loop start' : 'Loop end'}
+                className="absolute inset-y-0 w-3 -translate-x-1/2 cursor-ew-resize"
+                style={{ left: percent(target === 'loopStart' ? region.start : region.end) }}
+                onPointerDown={(event) => startDrag(event, target)}
+              >
+                <div className="mx-auto h-full w-1 rounded-full bg-emerald-300/90" />
+              </div>
+            ))
+          : null}
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow-[0_0_8px_rgba(255,255,255,0.8)]"
+          style={{ left: percent(currentTime) }}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-[10px] uppercase tracking-widest text-slate-400">
+        <span className="font-mono text-xs normal-case tracking-normal text-slate-200">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        <span className="flex-1" />
+        <button
+          disabled={!isInteractive}
+          onClick={() => onLoopRegionChange({ start: currentTime, end: loopRegion?.end ?? duration })}
+          className="rounded-full bg-white/10 px-2.5 py-1 font-semibold text-slate-200 transition hover:bg-white/20 disabled:opacity-40"
+        >
+          Set A
+        </button>
+        <button
+          disabled={!isInteractive}
+          onClick={() => onLoopRegionChange({ start: loopRegion?.start ?? 0, end: currentTime })}
+          className="rounded-full bg-white/10 px-2.5 py-1 font-semibold text-slate-200 transition hover:bg-white/20 disabled:opacity-40"
+        >
+          Set B
+        </button>
+        <button
+          disabled={!isInteractive || !loopRegion}
+          onClick={() => onLoopEnabledChange(!isLoopEnabled)}
+          className={clsx(
+            'rounded-full px-2.5 py-1 font-semibold transition disabled:opacity-40',
+            isLoopEnabled ? 'bg-emerald-400/20 text-emerald-200' : 'bg-white/10 text-slate-200 hover:bg-white/20',
+          )}
+        >
+          {isLoopEnabled ? 'Looping' : 'Loop'}
+        </button>
+        {loopRegion ? (
+          <button
+            onClick={() => onLoopRegionChange(null)}
+            className="rounded-full bg-white/10 px-2.5 py-1 font-semibold text-slate-200 transition hover:bg-white/20"
+          >
+            Clear
+          </button>
+        ) : null}
+        <select
+          value={playbackRate}
+          disabled={disabled}
+          onChange={(event) => onPlaybackRateChange(Number(event.target.value))}
+          className="rounded-full border border-white/10 bg-slate-900 px-2 py-1 text-[10px] font-semibold text-slate-200 focus:outline-none"
+        >
+          {playbackRates.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformScrubber;
@@ -0,0 +1,19 @@
+import type { RefObject } from 'react';
+import type { AvatarAnimationState } from '../hooks/useAvatarEngine';
+
+// Set by the offline renderer: a fixed frame to draw instead of the live state, and whether to skip easing.
+export interface FrameOverride {
+  animation: AvatarAnimationState | null;
+  snap: boolean;
+}
+
+export const ease = (current: number, target: number, factor: number) =>
+  factor >= 1 ? target : current + (target - current) * factor;
+
+// Offline renders snap every eased value to its target on their first frame.
+export const frameLerp = (override: FrameOverride, delta: number) =>
+  override.snap ? Number.POSITIVE_INFINITY : 1 - Math.pow(0.09, delta * 60);
+
+// The offline renderer's fixed frame, or else the live frame the engine writes every animation frame.
+export const currentFrame = (override: FrameOverride, live: RefObject<AvatarAnimationState>) =>
+  override.animation ?? live.current;
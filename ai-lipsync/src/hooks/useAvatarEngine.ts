@@ -1,7 +1,83 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { AvatarRenderController } from '../components/AvatarPreview';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  derivePhonemeTimings,
+  estimateWordTimings,
+  sampleScriptVisemes,
+  type SpeechTimeline,
+  type TimingSource,
+  type WordTiming,
+} from '../lib/alignment';
+import {
+  analyzeAudioBuffer,
+  sampleAnimationTrack,
+  type AnimationTrack,
+  type AnimationTrackSample,
+} from '../lib/animationTrack';
+import { stitchAudioBuffers, type StitchedRange } from '../lib/audioStitch';
+import { detectBeats, sampleBeatGestures, type BeatEvent } from '../lib/beatGestures';
+import { createCaptionCompositor, type CaptionStyle } from '../lib/captionOverlay';
+import { buildCaptions } from '../lib/captions';
+import type { ExportOutput } from '../lib/exportPresets';
+import { createFeatureStream, type FeatureListener, type FeatureStream } from '../lib/featureStream';
 import { convertWebMToMp4, extractAudioFromVideo } from '../lib/ffmpeg';
+import {
+  createEmotionTimeline,
+  removeKeyframe,
+  sampleEmotionTimeline,
+  upsertKeyframe,
+  type EmotionKeyframe,
+  type EmotionTimeline,
+} from '../lib/emotionTimeline';
+import { isAvatarModelFile, type AvatarModelSource } from '../lib/avatarModel';
+import {
+  createDriveLatch,
+  eyeContactDirection,
+  sampleBlink,
+  sampleGaze,
+  type EyeDriveAt,
+  type GazeTarget,
+} from '../lib/eyeBehavior';
+import { backdropKindOf, type BackdropSource } from '../lib/backdrop';
+import {
+  detectPortraitAnchors,
+  type FaceRigMode,
+  type PortraitAnchors,
+} from '../lib/portraitAnchors';
+import { createLiveAnalyzer, type LiveAnalyzer } from '../lib/liveAnalysis';
+import { isOfflineRenderSupported, renderFrameSequence, renderOffline } from '../lib/offlineRender';
+import type { ProjectAudio, ProjectDocument } from '../lib/project';
+import { analyzeProsody, biasEmotions, sampleProsodyEmotion, type ProsodyTrack } from '../lib/prosodyEmotion';
+import { createRandom, createSeed, normalizeSeed } from '../lib/random';
+import {
+  buildScriptKeyframes,
+  mergeScriptKeyframes,
+  parseScript,
+  resolveCueTime,
+  sampleGestureCue,
+  type GestureCue,
+  type ScriptBreak,
+} from '../lib/scriptMarkup';
+import type { RigMapping } from '../lib/rigMapping';
+import type { BackgroundPaint } from '../lib/sceneBackground';
+import { fetchTtsProviders, requestSpeech, type SpeechSegment } from '../lib/tts/client';
+import type { TextSegment } from '../lib/tts/segmentText';
+import type { TtsProviderId, TtsProviderInfo } from '../lib/tts/types';
+import { createVisemeWeights, VISEME_KEYS, type VisemeWeights } from '../lib/visemes';
+import { encodeWav } from '../lib/wav';
+import { computeWaveformPeaks } from '../lib/waveform';
+
+export { VISEME_KEYS, type VisemeKey, type VisemeWeights } from '../lib/visemes';
+export type { TimingSource, WordTiming } from '../lib/alignment';
+export type { Caption } from '../lib/captions';
+export type { CaptionStyle } from '../lib/captionOverlay';
+export type { AvatarModelSource } from '../lib/avatarModel';
+export type { BackdropSource } from '../lib/backdrop';
+export type { RigMapping } from '../lib/rigMapping';
+export type { FaceRigMode, PortraitAnchors } from '../lib/portraitAnchors';
+export type { EasingKind, EmotionKeyframe, EmotionTimeline } from '../lib/emotionTimeline';
 
 export type EmotionKey = 'happy' | 'sad' | 'angry' | 'surprised' | 'neutral';
 
@@ -18,6 +94,8 @@ export interface BackgroundOption {
   label: string;
   className: string;
   description: string;
+  // What the WebGL scene paints; `className` only styles the picker swatch.
+  paint: BackgroundPaint;
 }
 
 export interface CameraAngle {
@@ -42,22 +120,85 @@ export interface AvatarAnimationState {
   headRotation: [number, number, number];
   eyeDirection: [number, number];
   handWave: number;
+  // Downward stroke of a beat gesture, 0 at rest.
+  handBeat: number;
+  // 0–1 eyebrow raise.
+  browRaise: number;
   intensity: number;
   emotionMix: EmotionState;
   energy: number;
+  visemes: VisemeWeights;
 }
 
-export type ExportFormat = 'webm' | 'mp4';
+// 'png' is a zipped PNG sequence with a WAV track, rendered frame by frame.
+export type ExportFormat = 'webm' | 'mp4' | 'png';
+
+export interface ExportOptions {
+  captionStyle?: CaptionStyle | null;
+  // The canvas has a transparent background that the export has to keep.
+  transparent?: boolean;
+  // Size, frame rate and bitrate to render at; defaults to the preview canvas as it is.
+  output?: ExportOutput | null;
+}
+
+export interface MicrophoneDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface StartMicrophoneOptions {
+  deviceId?: string;
+  record?: boolean;
+}
+
+export type EngineProjectState = Pick<
+  ProjectDocument,
+  | 'face'
+  | 'emotions'
+  | 'autoEmotion'
+  | 'emotionTimeline'
+  | 'gestureSeed'
+  | 'gestureIntensity'
+  | 'volume'
+  | 'audio'
+  | 'speech'
+>;
+
+export interface RestoreProjectResult {
+  missingAudio: string | null;
+}
+
+export interface SpeechPauses {
+  sentence: number;
+  clause: number;
+  word: number;
+}
+
+export interface SpeechSegmentTiming extends TextSegment {
+  startTime: number;
+  endTime: number;
+  timingSource: TimingSource;
+}
+
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
 
 type FaceSource =
   | { mode: 'preset'; presetId: string }
-  | { mode: 'upload'; url: string; name: string };
+  | { mode: 'upload'; url: string; name: string; rig: FaceRigMode; anchors: PortraitAnchors };
 
 interface PlaybackSource {
   source: AudioBufferSourceNode;
   done: Promise<void>;
 }
 
+interface PlaybackParams {
+  rate: number;
+  loop: LoopRegion | null;
+}
+
 const DEFAULT_EMOTIONS: EmotionState = {
   happy: 0.4,
   sad: 0.1,
@@ -66,10 +207,32 @@ const DEFAULT_EMOTIONS: EmotionState = {
   neutral: 0.8,
 };
 
-const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const DEFAULT_SPEECH_PAUSES: SpeechPauses = {
+  sentence: 0.25,
+  clause: 0.12,
+  word: 0,
+};
+
+const MAX_SPEECH_PAUSE = 2;
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 4;
+const MIN_LOOP_LENGTH = 0.05;
+
+// How far scripted phonemes override the spectral viseme guess while voiced.
+const SCRIPT_VISEME_WEIGHT = 0.7;
+// Radians per second of a scripted hand wave.
+const WAVE_SPEED = 9;
+// New sessions start from a fixed seed so their gestures reproduce too.
+const DEFAULT_GESTURE_SEED = 1;
+const DEFAULT_GESTURE_INTENSITY = 0.6;
+// Head rotation in radians at full beat clip strength.
+const BEAT_NOD = 0.12;
+const BEAT_TURN = 0.1;
+const BEAT_TILT = 0.08;
 
-const smoothStep = (value: number, smoothing = 0.3) =>
-  value < 0 ? 0 : value > 1 ? 1 : value * value * (3 - 2 * value) * smoothing + value * (1 - smoothing);
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
 
 const createSvgAvatar = (opts: {
   skin: string;
@@ -183,8 +346,283 @@ const computeEmotionBlend = (emotion: EmotionState, energy: number): EmotionStat
   neutral: clamp01(emotion.neutral * 0.4 + (1 - energy) * 0.2),
 });
 
+// The face at rest, shown whenever no audio or microphone drives it.
+const createIdleFrame = (emotions: EmotionState): AvatarAnimationState => ({
+  mouthOpen: 0,
+  blink: 0,
+  headRotation: [0, 0, 0],
+  eyeDirection: [0, 0],
+  handWave: 0,
+  handBeat: 0,
+  browRaise: 0,
+  intensity: 0,
+  emotionMix: computeEmotionBlend(emotions, 0),
+  energy: 0,
+  visemes: createVisemeWeights(),
+});
+
+// Rigs read the live frame every animation frame; React only sees a snapshot this often.
+const READOUT_INTERVAL_MS = 100;
+
+const GESTURE_CHANNELS = ['headX', 'headY', 'headZ', 'hand'] as const;
+
+type GestureChannel = (typeof GESTURE_CHANNELS)[number];
+
+// Everything besides time and audio that the pose depends on; the pose is a pure function of the three.
+interface GestureContext {
+  seed: number;
+  // Per-channel phase and speed of the idle sway, drawn from the seed.
+  channels: Record<GestureChannel, { phase: number; rate: number }>;
+  // The eyes keep returning to this target; null lets them rest straight ahead.
+  eyeContact: GazeTarget | null;
+  // 0–1 scale of the beat gestures cued by the audio.
+  beatIntensity: number;
+}
+
+const createGestureContext = (
+  seed: number,
+  eyeContact: GazeTarget | null,
+  beatIntensity: number,
+): GestureContext => {
+  const random = createRandom(seed);
+  const channels = GESTURE_CHANNELS.reduce(
+    (result, channel) => {
+      result[channel] = { phase: random() * Math.PI * 2, rate: 0.85 + random() * 0.3 };
+      return result;
+    },
+    {} as GestureContext['channels'],
+  );
+  return { seed, channels, eyeContact, beatIntensity };
+};
+
+interface GesturePose {
+  headRotation: [number, number, number];
+  blink: number;
+  eyeDirection: [number, number];
+  handWave: number;
+}
+
+const computeGesturePose = (
+  time: number,
+  context: GestureContext,
+  emotions: EmotionState,
+  sample: AnimationTrackSample,
+  driveAt: EyeDriveAt,
+): GesturePose => {
+  const { energy } = sample;
+  const wave = (channel: GestureChannel, speed: number) =>
+    Math.sin(time * speed * context.channels[channel].rate + context.channels[channel].phase);
+
+  const headRotation: [number, number, number] = [
+    wave('headX', 1.3) * 0.15 * (0.5 + energy),
+    wave('headY', 0.9) * 0.2 * (0.4 + emotions.happy * 0.6),
+    wave('headZ', 1.7) * 0.08 * (0.5 + emotions.surprised * 0.3),
+  ];
+  const home = context.eyeContact ? eyeContactDirection(context.eyeContact, headRotation) : undefined;
+
+  return {
+    headRotation,
+    blink: sampleBlink(context.seed, time, driveAt),
+    eyeDirection: sampleGaze(context.seed, time, driveAt, home),
+    handWave: wave('hand', 1.8) * (0.3 + energy * 0.5),
+  };
+};
+
+const mixScriptVisemes = (audio: VisemeWeights, timeline: SpeechTimeline, time: number) => {
+  const script = sampleScriptVisemes(timeline.phonemes, time);
+  const voiced = 1 - audio.sil;
+  for (const key of VISEME_KEYS) {
+    if (key !== 'sil') {
+      audio[key] += (script[key] * voiced - audio[key]) * SCRIPT_VISEME_WEIGHT;
+    }
+  }
+  return audio;
+};
+
+const buildFrameFromSample = (
+  sample: AnimationTrackSample,
+  time: number,
+  emotions: EmotionState,
+  context: GestureContext,
+  driveAt: EyeDriveAt,
+): AvatarAnimationState => {
+  const pose = computeGesturePose(time, context, emotions, sample, driveAt);
+  return {
+    mouthOpen: sample.mouth,
+    blink: pose.blink,
+    headRotation: pose.headRotation,
+    eyeDirection: pose.eyeDirection,
+    handWave: pose.handWave,
+    handBeat: 0,
+    browRaise: 0,
+    intensity: sample.energy,
+    emotionMix: computeEmotionBlend(emotions, sample.energy),
+    energy: sample.energy,
+    visemes: sample.visemes,
+  };
+};
+
+// Scripted `[wave]` cues take the hands over from the idle sway for a moment.
+const applyGestureCues = (frame: AvatarAnimationState, gestures: GestureCue[], time: number) => {
+  const wave = sampleGestureCue(gestures, 'wave', time);
+  if (wave > 0) {
+    frame.handWave += (Math.sin(time * WAVE_SPEED) * 1.2 - frame.handWave) * wave;
+  }
+  return frame;
+};
+
+// Beat clips land on stressed syllables and phrase edges; the idle sway calms down as they take over.
+const applyBeatGestures = (frame: AvatarAnimationState, beats: BeatEvent[], context: GestureContext, time: number) => {
+  if (!beats.length || context.beatIntensity <= 0) {
+    return frame;
+  }
+  const beat = sampleBeatGestures(beats, context.seed, time, context.beatIntensity);
+  const calm = 1 - context.beatIntensity * 0.4;
+  const [x, y, z] = frame.headRotation;
+  frame.headRotation = [x * calm + beat.nod * BEAT_NOD, y * calm + beat.turn * BEAT_TURN, z * calm + beat.tilt * BEAT_TILT];
+  frame.handWave *= calm;
+  frame.handBeat = beat.handBeat;
+  frame.browRaise = beat.brow;
+  return frame;
+};
+
+const buildAnimationFrame = (
+  track: AnimationTrack,
+  time: number,
+  emotions: EmotionState,
+  emotionTimeline: EmotionTimeline,
+  context: GestureContext,
+  timeline: SpeechTimeline | null,
+  gestures: GestureCue[],
+  beats: BeatEvent[],
+  prosody: ProsodyTrack | null,
+): AvatarAnimationState => {
+  const sample = sampleAnimationTrack(track, time);
+  if (timeline) {
+    mixScriptVisemes(sample.visemes, timeline, time);
+  }
+  // In auto mode the sliders bias the emotion read from the voice; keyframed channels still win.
+  const emotionsAt = (at: number) =>
+    sampleEmotionTimeline(
+      emotionTimeline,
+      at,
+      prosody ? biasEmotions(sampleProsodyEmotion(prosody, at), emotions) : emotions,
+    );
+  const driveAt = (at: number) => {
+    const { energy, inPause } = at === time ? sample : sampleAnimationTrack(track, at);
+    return { emotions: emotionsAt(at), energy, inPause };
+  };
+  const frame = buildFrameFromSample(sample, time, emotionsAt(time), context, driveAt);
+  return applyGestureCues(applyBeatGestures(frame, beats, context, time), gestures, time);
+};
+
+// Scripted pauses before the first chunk's text become leading silence.
+const findLeadingPause = (segments: SpeechSegment[], breaks: ScriptBreak[]) =>
+  breaks
+    .filter((item) => item.offset <= (segments[0]?.start ?? 0))
+    .reduce((total, item) => total + item.seconds, 0);
+
+// Scripted pauses between the start of a chunk and the start of the next one replace its automatic gap;
+// the last chunk's gap holds pauses tagged at the end of the script.
+const findScriptPause = (segments: SpeechSegment[], index: number, breaks: ScriptBreak[]) => {
+  const from = segments[index].start;
+  const to = segments[index + 1]?.start ?? Number.POSITIVE_INFINITY;
+  const pauses = breaks.filter((item) => item.offset > from && item.offset <= to);
+  return pauses.length ? pauses.reduce((total, item) => total + item.seconds, 0) : null;
+};
+
+// Maps context time elapsed since `startTime` to a buffer offset, folding looped playback back into the region.
+const resolvePlaybackOffset = (elapsed: number, { rate, loop }: PlaybackParams, duration: number) => {
+  let offset = elapsed * rate;
+  if (loop && offset >= loop.end) {
+    offset = loop.start + ((offset - loop.start) % (loop.end - loop.start));
+  }
+  return Math.min(Math.max(offset, 0), duration);
+};
+
+const listMicrophones = async (): Promise<MicrophoneDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audioinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }));
+};
+
+const readAsDataUrl = (blob: Blob, errorMessage: string) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error(errorMessage));
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(blob);
+  });
+
+const pickRecorderMimeType = () =>
+  ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'].find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  );
+
+// Moves a segment's timings (relative to its own audio) onto the stitched buffer and script.
+const placeSegmentWords = (segment: SpeechSegment, range: StitchedRange): WordTiming[] => {
+  const shift = range.start - range.sourceStart;
+  const clampTime = (time: number) => Math.min(Math.max(time + shift, range.start), range.end);
+  const words = segment.words ?? [];
+  return words.map((word, index) => {
+    const start = clampTime(word.start);
+    const next = words[index + 1];
+    const end = word.end > word.start ? clampTime(word.end) : next ? clampTime(next.start) : range.end;
+    return {
+      ...word,
+      start,
+      end,
+      charStart: word.charStart + segment.start,
+      charEnd: word.charEnd + segment.start,
+    };
+  });
+};
+
+const buildSpeechTimeline = (
+  segments: SpeechSegment[],
+  ranges: StitchedRange[],
+  track: AnimationTrack,
+) => {
+  const timeline: SpeechTimeline = { words: [], phonemes: [] };
+  const sources = segments.map((segment, index): TimingSource => {
+    const range = ranges[index];
+    if (segment.words?.length) {
+      const words = placeSegmentWords(segment, range);
+      const shift = range.start - range.sourceStart;
+      timeline.words.push(...words);
+      timeline.phonemes.push(
+        ...(segment.phonemes?.length
+          ? segment.phonemes.map((phoneme) => ({
+              ...phoneme,
+              start: Math.max(phoneme.start + shift, range.start),
+              end: Math.min(phoneme.end + shift, range.end),
+            }))
+          : derivePhonemeTimings(words)),
+      );
+      return 'provider';
+    }
+    const words = estimateWordTimings(segment.text, track, range).map((word) => ({
+      ...word,
+      charStart: word.charStart + segment.start,
+      charEnd: word.charEnd + segment.start,
+    }));
+    timeline.words.push(...words);
+    timeline.phonemes.push(...derivePhonemeTimings(words));
+    return 'estimated';
+  });
+  return { timeline, sources };
+};
+
+const subscribeToCapabilities = () => () => {};
+
 interface UseAvatarEngineArgs {
   initialPresetId?: string;
+  // Hold eye contact with this camera; without it the gaze rests straight ahead.
+  eyeContact?: GazeTarget | null;
 }
 
 export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
@@ -193,19 +631,52 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
     presetId: args.initialPresetId ?? DEFAULT_FACE.id,
   });
   const [uploadedFaceName, setUploadedFaceName] = useState<string | null>(null);
+  const [avatarModel, setAvatarModel] = useState<AvatarModelSource | null>(null);
+  const [rigMapping, setRigMapping] = useState<RigMapping | null>(null);
+  const [backdrop, setBackdrop] = useState<BackdropSource | null>(null);
   const [emotions, setEmotions] = useState<EmotionState>(DEFAULT_EMOTIONS);
-  const [gestureSeed, setGestureSeed] = useState<number>(() => Math.random());
+  const [autoEmotion, setAutoEmotion] = useState(false);
+  const [emotionTimeline, setEmotionTimeline] = useState<EmotionTimeline>(createEmotionTimeline);
+  const [gestureSeed, setGestureSeed] = useState(DEFAULT_GESTURE_SEED);
+  const [gestureIntensity, setGestureIntensity] = useState(DEFAULT_GESTURE_INTENSITY);
+  const eyeContact = args.eyeContact ?? null;
+  const gestureContext = useMemo(
+    () => createGestureContext(gestureSeed, eyeContact, gestureIntensity),
+    [eyeContact, gestureIntensity, gestureSeed],
+  );
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
   const [isGeneratingSpeech, setIsGeneratingSpeech] = useState(false);
   const [isProcessingVideo, setIsProcessingVideo] = useState(false);
+  const [videoProgress, setVideoProgress] = useState(0);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState(0);
+  const canRenderOffline = useSyncExternalStore(
+    subscribeToCapabilities,
+    isOfflineRenderSupported,
+    () => false,
+  );
   const [playbackProgress, setPlaybackProgress] = useState(0);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+  const [isLoopEnabled, setIsLoopEnabled] = useState(false);
+  const [waveformPeaks, setWaveformPeaks] = useState<Float32Array | null>(null);
   const [audioDuration, setAudioDuration] = useState(0);
   const [audioName, setAudioName] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [volume, setVolume] = useState(1);
   const [hasAudio, setHasAudio] = useState(false);
+  const [ttsProviders, setTtsProviders] = useState<TtsProviderInfo[]>([]);
+  const [defaultTtsProvider, setDefaultTtsProvider] = useState<TtsProviderId | null>(null);
+  const [speechPauses, setSpeechPauses] = useState<SpeechPauses>(DEFAULT_SPEECH_PAUSES);
+  const [speechSegments, setSpeechSegments] = useState<SpeechSegmentTiming[]>([]);
+  const [wordTimings, setWordTimings] = useState<WordTiming[]>([]);
+  const [isMicActive, setIsMicActive] = useState(false);
+  const [isRecordingMic, setIsRecordingMic] = useState(false);
+  const [micDevices, setMicDevices] = useState<MicrophoneDevice[]>([]);
+  const [micDeviceId, setMicDeviceId] = useState('');
+  const [audioRevision, setAudioRevision] = useState(0);
 
   const audioBufferRef = useRef<AudioBuffer | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -215,15 +686,40 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const startTimeRef = useRef<number>(0);
   const pauseOffsetRef = useRef<number>(0);
+  const playbackRateRef = useRef(1);
+  const loopRef = useRef<LoopRegion | null>(null);
+  const activePlaybackRef = useRef<PlaybackParams>({ rate: 1, loop: null });
   const ignoreEndRef = useRef(false);
-  const peakEnergyRef = useRef(0.0001);
-
-  const [mouthOpen, setMouthOpen] = useState(0);
-  const [blink, setBlink] = useState(0);
-  const [headRotation, setHeadRotation] = useState<[number, number, number]>([0, 0, 0]);
-  const [eyeDirection, setEyeDirection] = useState<[number, number]>([0, 0]);
-  const [handWave, setHandWave] = useState(0);
-  const [energy, setEnergy] = useState(0);
+  const trackRef = useRef<AnimationTrack | null>(null);
+  const prosodyRef = useRef<ProsodyTrack | null>(null);
+  const speechTimelineRef = useRef<SpeechTimeline | null>(null);
+  const gestureCuesRef = useRef<GestureCue[]>([]);
+  const beatsRef = useRef<BeatEvent[]>([]);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const micAnalyserRef = useRef<AnalyserNode | null>(null);
+  const micRecordDestinationRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  const micRecorderRef = useRef<MediaRecorder | null>(null);
+  const micSamplesRef = useRef<Float32Array<ArrayBuffer> | null>(null);
+  const liveAnalyzerRef = useRef<LiveAnalyzer | null>(null);
+  const liveSampleRef = useRef<AnimationTrackSample | null>(null);
+  const lastLiveTimeRef = useRef(0);
+  // Resolves to null where audio worklets are unavailable.
+  const featureStreamRef = useRef<Promise<FeatureStream | null> | null>(null);
+  const featureListenersRef = useRef(new Set<FeatureListener>());
+  const unsubscribeMicFeaturesRef = useRef<(() => void) | null>(null);
+  const micChunksRef = useRef<Blob[]>([]);
+  const modelUrlRef = useRef<string | null>(null);
+  const backdropUrlRef = useRef<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+
+  // The live frame, written every animation frame and read by the rigs inside `useFrame`.
+  const animationRef = useRef<AvatarAnimationState>(createIdleFrame(DEFAULT_EMOTIONS));
+  const lastReadoutRef = useRef(0);
+  const [animationReadout, setAnimationReadout] = useState<AvatarAnimationState>(() =>
+    createIdleFrame(DEFAULT_EMOTIONS),
+  );
 
   const ensureAudioContext = useCallback(async () => {
     if (typeof window === 'undefined') {
@@ -251,6 +747,19 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
       analyserRef.current = analyser;
       analyser.connect(gainRef.current);
     }
+    featureStreamRef.current ??= createFeatureStream(audioContext)
+      .then((stream) => {
+        analyserRef.current?.connect(stream.input);
+        stream.subscribe((frame, hopSeconds) => {
+          featureListenersRef.current.forEach((listener) => listener(frame, hopSeconds));
+        });
+        return stream;
+      })
+      .catch((error) => {
+        console.error(error);
+        setStatusMessage('Audio worklets unavailable. Analysing audio on the main thread instead.');
+        return null;
+      });
     if (gainRef.current && destinationRef.current) {
       try {
         gainRef.current.connect(audioContext.destination);
@@ -282,6 +791,36 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
     };
   }, [faceSource, uploadedFaceName]);
 
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchTtsProviders(controller.signal)
+      .then(({ providers, defaultProvider }) => {
+        setTtsProviders(providers);
+        setDefaultTtsProvider(defaultProvider);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error(error);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = typeof navigator === 'undefined' ? undefined : navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) {
+      return;
+    }
+    const refresh = () => {
+      listMicrophones()
+        .then(setMicDevices)
+        .catch((error) => console.error(error));
+    };
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
   useEffect(() => {
     return () => {
       if (sourceNodeRef.current) {
@@ -289,68 +828,93 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
         sourceNodeRef.current.disconnect();
         sourceNodeRef.current = null;
       }
+      if (micRecorderRef.current?.state === 'recording') {
+        micRecorderRef.current.stop();
+      }
+      micStreamRef.current?.getTracks().forEach((track) => track.stop());
+      if (modelUrlRef.current) {
+        URL.revokeObjectURL(modelUrlRef.current);
+      }
+      if (backdropUrlRef.current) {
+        URL.revokeObjectURL(backdropUrlRef.current);
+      }
+      void featureStreamRef.current?.then((stream) => stream?.dispose());
     };
   }, []);
 
   useEffect(() => {
     let frame: number;
+    const idleFrame = createIdleFrame(emotions);
+    const liveDrive = createDriveLatch();
+    // Returns whether React should get a snapshot this frame.
+    const applyFrame = (frameState: AvatarAnimationState) => {
+      animationRef.current = frameState;
+      const now = performance.now();
+      if (now - lastReadoutRef.current < READOUT_INTERVAL_MS) {
+        return false;
+      }
+      lastReadoutRef.current = now;
+      setAnimationReadout(frameState);
+      return true;
+    };
     const loop = () => {
-      if (analyserRef.current && audioBufferRef.current) {
-        const analyser = analyserRef.current;
-        const dataArray = new Float32Array(analyser.fftSize);
-
-        analyser.getFloatTimeDomainData(dataArray);
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) {
-          const val = dataArray[i];
-          sum += val * val;
+      const track = trackRef.current;
+      const micAnalyser = micAnalyserRef.current;
+      const audioContext = audioContextRef.current;
+      const liveAnalyzer = liveAnalyzerRef.current;
+      if (micAnalyser && audioContext && liveAnalyzer) {
+        const now = audioContext.currentTime;
+        // The feature worklet updates the live sample on its own; without it, poll the analyser once per frame.
+        if (micSamplesRef.current) {
+          micAnalyser.getFloatTimeDomainData(micSamplesRef.current);
+          liveSampleRef.current = liveAnalyzer.analyze(
+            micSamplesRef.current,
+            audioContext.sampleRate,
+            now - lastLiveTimeRef.current,
+          );
+          lastLiveTimeRef.current = now;
         }
-        const rms = Math.sqrt(sum / dataArray.length);
-        peakEnergyRef.current = Math.max(peakEnergyRef.current * 0.995, rms);
-        const normalizedEnergy = peakEnergyRef.current > 0 ? rms / peakEnergyRef.current : 0;
-        const smoothedMouth = smoothStep(normalizedEnergy * 1.8, 0.4);
-        const newEnergy = clamp01(normalizedEnergy);
-
-        setMouthOpen((prev) => prev * 0.8 + smoothedMouth * 0.2);
-        setEnergy((prev) => prev * 0.9 + newEnergy * 0.1);
-
+        const sample = liveSampleRef.current;
+        applyFrame(
+          sample
+            ? buildFrameFromSample(
+                { ...sample, visemes: { ...sample.visemes } },
+                now,
+                emotions,
+                gestureContext,
+                liveDrive({ emotions, energy: sample.energy, inPause: sample.inPause }),
+              )
+            : idleFrame,
+        );
+      } else if (track && audioBufferRef.current) {
         const now = audioContextRef.current?.currentTime ?? 0;
-        const elapsed = isPlaying ? now - startTimeRef.current : pauseOffsetRef.current;
-        const duration = audioBufferRef.current?.duration ?? 0;
-        const rawProgress = duration > 0 ? Math.min(elapsed / duration, 0.999) : 0;
-        setPlaybackProgress((prev) => prev * 0.8 + rawProgress * 0.2);
-
-        const t = performance.now() / 1000;
-        const seed = gestureSeed;
-        const headX = Math.sin(t * 1.3 + seed) * 0.15 * (0.5 + newEnergy);
-        const headY = Math.sin(t * 0.9 + seed * 2.2) * 0.2 * (0.4 + emotions.happy * 0.6);
-        const headZ = Math.sin(t * 1.7 + seed * 1.4) * 0.08 * (0.5 + emotions.surprised * 0.3);
-
-        setHeadRotation(([x, y, z]) => [
-          x * 0.8 + headX * 0.2,
-          y * 0.8 + headY * 0.2,
-          z * 0.8 + headZ * 0.2,
-        ]);
-
-        const blinkSpeed = 0.6 + emotions.neutral * 0.4 + (1 - newEnergy) * 0.5;
-        const blinkValue = (Math.sin(t * blinkSpeed + seed * 4.1) + 1) / 2;
-        setBlink(blinkValue > 0.85 ? (blinkValue - 0.85) * 6 : 0);
-
-        const eyeX = Math.sin(t * 0.7 + seed * 3.4) * 0.4 * (0.4 + newEnergy);
-        const eyeY = Math.sin(t * 0.5 + seed * 2.1) * 0.3 * (0.5 + emotions.surprised * 0.4);
-        setEyeDirection(([prevX, prevY]) => [
-          prevX * 0.8 + eyeX * 0.2,
-          prevY * 0.8 + eyeY * 0.2,
-        ]);
-
-        const hand = Math.sin(t * 1.8 + seed * 6.2) * (0.3 + newEnergy * 0.5);
-        setHandWave((prev) => prev * 0.85 + hand * 0.15);
+        const duration = audioBufferRef.current.duration;
+        const offset = isPlaying
+          ? resolvePlaybackOffset(now - startTimeRef.current, activePlaybackRef.current, duration)
+          : Math.min(Math.max(pauseOffsetRef.current, 0), duration);
+        const frameState = buildAnimationFrame(
+          track,
+          offset,
+          emotions,
+          emotionTimeline,
+          gestureContext,
+          speechTimelineRef.current,
+          gestureCuesRef.current,
+          beatsRef.current,
+          autoEmotion ? prosodyRef.current : null,
+        );
+        if (applyFrame(frameState)) {
+          setPlaybackProgress(duration > 0 ? Math.min(offset / duration, 0.999) : 0);
+          setPlaybackTime(offset);
+        }
+      } else {
+        applyFrame(idleFrame);
       }
       frame = requestAnimationFrame(loop);
     };
     frame = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(frame);
-  }, [emotions, gestureSeed, isPlaying]);
+  }, [autoEmotion, emotionTimeline, emotions, gestureContext, isPlaying]);
 
   const stopCurrentSource = useCallback(() => {
     if (sourceNodeRef.current) {
@@ -369,27 +933,40 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
       return 0;
     }
     if (isPlaying && audioContextRef.current) {
-      const current = audioContextRef.current.currentTime;
-      const elapsed = current - startTimeRef.current;
-      return Math.min(Math.max(elapsed, 0), audioBufferRef.current.duration);
+      const elapsed = audioContextRef.current.currentTime - startTimeRef.current;
+      return resolvePlaybackOffset(elapsed, activePlaybackRef.current, audioBufferRef.current.duration);
     }
     return Math.min(pauseOffsetRef.current, audioBufferRef.current.duration);
   }, [isPlaying]);
 
   const schedulePlayback = useCallback(
-    async (offset: number, markPlaying = true): Promise<PlaybackSource | null> => {
+    async (
+      offset: number,
+      markPlaying = true,
+      params: PlaybackParams = { rate: playbackRateRef.current, loop: loopRef.current },
+    ): Promise<PlaybackSource | null> => {
       if (!audioBufferRef.current) {
         return null;
       }
       const audioContext = await ensureAudioContext();
       const duration = audioBufferRef.current.duration;
-      const startOffset = Math.min(Math.max(offset, 0), Math.max(duration - 0.001, 0));
+      const { rate, loop } = params;
+      let startOffset = Math.min(Math.max(offset, 0), Math.max(duration - 0.001, 0));
+      if (loop && (startOffset < loop.start || startOffset >= loop.end)) {
+        startOffset = loop.start;
+      }
 
       stopCurrentSource();
       ignoreEndRef.current = false;
 
       const source = audioContext.createBufferSource();
       source.buffer = audioBufferRef.current;
+      source.playbackRate.value = rate;
+      if (loop) {
+        source.loop = true;
+        source.loopStart = loop.start;
+        source.loopEnd = loop.end;
+      }
       source.connect(analyserRef.current!);
 
       const done = new Promise<void>((resolve) => {
@@ -406,7 +983,8 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
       });
 
       sourceNodeRef.current = source;
-      startTimeRef.current = audioContext.currentTime - startOffset;
+      activePlaybackRef.current = params;
+      startTimeRef.current = audioContext.currentTime - startOffset / rate;
       pauseOffsetRef.current = startOffset;
       if (markPlaying) {
         setIsPlaying(true);
@@ -421,6 +999,9 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
     if (!audioBufferRef.current) {
       throw new Error('Load audio before playing the preview.');
     }
+    if (micAnalyserRef.current) {
+      throw new Error('Stop the microphone before playing audio.');
+    }
     const offset = getCurrentOffset();
     await schedulePlayback(offset);
   }, [getCurrentOffset, schedulePlayback]);
@@ -436,30 +1017,112 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
     setIsPlaying(false);
   }, [getCurrentOffset, isPlaying, stopCurrentSource]);
 
+  const seek = useCallback(
+    async (seconds: number) => {
+      const buffer = audioBufferRef.current;
+      if (!buffer || micAnalyserRef.current) {
+        return;
+      }
+      const offset = Math.min(Math.max(seconds, 0), buffer.duration);
+      if (isPlaying) {
+        await schedulePlayback(offset);
+        return;
+      }
+      pauseOffsetRef.current = offset;
+      setPlaybackTime(offset);
+      setPlaybackProgress(buffer.duration > 0 ? Math.min(offset / buffer.duration, 0.999) : 0);
+    },
+    [isPlaying, schedulePlayback],
+  );
+
+  // Rate and loop changes restart the source from the current offset so the offset maths stays exact.
+  const restartIfPlaying = useCallback(async () => {
+    if (isPlaying && sourceNodeRef.current) {
+      await schedulePlayback(getCurrentOffset());
+    }
+  }, [getCurrentOffset, isPlaying, schedulePlayback]);
+
+  const setPlaybackRate = useCallback(
+    async (rate: number) => {
+      const next = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+      playbackRateRef.current = next;
+      setPlaybackRateState(next);
+      await restartIfPlaying();
+    },
+    [restartIfPlaying],
+  );
+
+  const applyLoop = useCallback(
+    async (region: LoopRegion | null, enabled: boolean) => {
+      setLoopRegionState(region);
+      setIsLoopEnabled(enabled);
+      loopRef.current = enabled ? region : null;
+      await restartIfPlaying();
+    },
+    [restartIfPlaying],
+  );
+
+  const setLoopRegion = useCallback(
+    async (region: LoopRegion | null) => {
+      const duration = audioBufferRef.current?.duration ?? 0;
+      let next: LoopRegion | null = null;
+      if (region) {
+        const start = Math.min(Math.max(Math.min(region.start, region.end), 0), duration);
+        const end = Math.min(Math.max(Math.max(region.start, region.end), 0), duration);
+        next = end - start >= MIN_LOOP_LENGTH ? { start, end } : null;
+      }
+      // A freshly created region starts looping straight away.
+      await applyLoop(next, next !== null && (loopRegion === null || isLoopEnabled));
+    },
+    [applyLoop, isLoopEnabled, loopRegion],
+  );
+
+  const setLoopEnabled = useCallback(
+    async (enabled: boolean) => {
+      await applyLoop(loopRegion, enabled && loopRegion !== null);
+    },
+    [applyLoop, loopRegion],
+  );
+
   const resetPlayback = useCallback(() => {
     pauseOffsetRef.current = 0;
     startTimeRef.current = 0;
     stopCurrentSource();
     setIsPlaying(false);
     setPlaybackProgress(0);
-    setMouthOpen(0);
-    setEnergy(0);
-    setBlink(0);
-    setHeadRotation([0, 0, 0]);
-    setEyeDirection([0, 0]);
-    setHandWave(0);
+    setPlaybackTime(0);
   }, [stopCurrentSource]);
 
+  const applyAudioBuffer = useCallback(
+    async (buffer: AudioBuffer) => {
+      setStatusMessage('Analysing audio...');
+      trackRef.current = await analyzeAudioBuffer(buffer);
+      beatsRef.current = detectBeats(trackRef.current);
+      prosodyRef.current = await analyzeProsody(buffer);
+      audioBufferRef.current = buffer;
+      speechTimelineRef.current = null;
+      gestureCuesRef.current = [];
+      setSpeechSegments([]);
+      setWordTimings([]);
+      setAudioRevision((revision) => revision + 1);
+      setHasAudio(true);
+      setAudioDuration(buffer.duration);
+      setWaveformPeaks(computeWaveformPeaks(buffer));
+      loopRef.current = null;
+      setLoopRegionState(null);
+      setIsLoopEnabled(false);
+      resetPlayback();
+    },
+    [resetPlayback],
+  );
+
   const decodeAudioData = useCallback(
     async (arrayBuffer: ArrayBuffer) => {
       const audioContext = await ensureAudioContext();
       const decoded = await audioContext.decodeAudioData(arrayBuffer.slice(0));
-      audioBufferRef.current = decoded;
-      setHasAudio(true);
-      setAudioDuration(decoded.duration);
-      resetPlayback();
+      await applyAudioBuffer(decoded);
     },
-    [ensureAudioContext, resetPlayback],
+    [applyAudioBuffer, ensureAudioContext],
   );
 
   const loadAudioFromFile = useCallback(
@@ -485,25 +1148,64 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
   );
 
   const generateSpeechFromText = useCallback(
-    async (text: string, voice: string) => {
-      if (!text.trim()) {
+    async (text: string, voice: string, provider?: TtsProviderId) => {
+      const script = parseScript(text);
+      if (!script.text.trim()) {
         throw new Error('Please provide text to generate speech.');
       }
       setIsGeneratingSpeech(true);
       setStatusMessage('Synthesizing speech...');
       try {
         setHasAudio(false);
-        const response = await fetch('/api/tts', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ text, voice }),
+        const speech = await requestSpeech({
+          text: script.text,
+          voice,
+          provider,
+          breaks: script.breaks.map((item) => item.offset),
         });
-        if (!response.ok) {
-          throw new Error('Unable to generate speech.');
-        }
-        const arrayBuffer = await response.arrayBuffer();
-        await decodeAudioData(arrayBuffer);
-        setAudioName(`TTS • ${voice}`);
+        const audioContext = await ensureAudioContext();
+        const decoded = await Promise.all(
+          speech.segments.map((segment) => audioContext.decodeAudioData(segment.audio.slice(0))),
+        );
+        const { buffer, ranges } = stitchAudioBuffers(
+          audioContext,
+          speech.segments.map((segment, index) => ({
+            buffer: decoded[index],
+            gapAfter:
+              findScriptPause(speech.segments, index, script.breaks) ??
+              (segment.boundary === 'end' ? 0 : speechPauses[segment.boundary]),
+          })),
+          { leadingSeconds: findLeadingPause(speech.segments, script.breaks) },
+        );
+        await applyAudioBuffer(buffer);
+        const { timeline, sources } = buildSpeechTimeline(speech.segments, ranges, trackRef.current!);
+        const cueTime = (offset: number) => resolveCueTime(offset, timeline.words, buffer.duration);
+        speechTimelineRef.current = timeline;
+        gestureCuesRef.current = script.gestures.map(({ offset, gesture }) => ({ time: cueTime(offset), gesture }));
+        // Always merged, so keyframes from an earlier script are cleared even when this one has no tags.
+        setEmotionTimeline((prev) =>
+          mergeScriptKeyframes(
+            prev,
+            buildScriptKeyframes(
+              script.emotions.map((cue) => ({ ...cue, time: cueTime(cue.offset) })),
+              emotions,
+            ),
+          ),
+        );
+        setWordTimings(timeline.words);
+        setSpeechSegments(
+          speech.segments.map(({ text: segmentText, start, end, boundary }, index) => ({
+            text: segmentText,
+            start,
+            end,
+            boundary,
+            startTime: ranges[index].start,
+            endTime: ranges[index].end,
+            timingSource: sources[index],
+          })),
+        );
+        const providerLabel = ttsProviders.find((option) => option.id === speech.provider)?.label;
+        setAudioName(`TTS • ${providerLabel ?? speech.provider} • ${voice}`);
         setStatusMessage('Speech generated successfully.');
       } catch (error) {
         console.error(error);
@@ -514,54 +1216,318 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
         setIsGeneratingSpeech(false);
       }
     },
-    [decodeAudioData],
+    [applyAudioBuffer, emotions, ensureAudioContext, speechPauses, ttsProviders],
   );
 
+  const setSpeechPause = useCallback((key: keyof SpeechPauses, seconds: number) => {
+    setSpeechPauses((prev) => ({ ...prev, [key]: Math.min(Math.max(seconds, 0), MAX_SPEECH_PAUSE) }));
+  }, []);
+
   const loadAudioFromVideo = useCallback(
     async (file: File) => {
+      const abort = new AbortController();
+      videoAbortRef.current?.abort();
+      videoAbortRef.current = abort;
       setIsProcessingVideo(true);
+      setVideoProgress(0);
       setStatusMessage(`Extracting audio from ${file.name}...`);
       try {
         setHasAudio(false);
-        const wavBuffer = await extractAudioFromVideo(file);
+        const wavBuffer = await extractAudioFromVideo(file, {
+          onProgress: setVideoProgress,
+          signal: abort.signal,
+        });
         await decodeAudioData(wavBuffer);
         setAudioName(`${file.name} • audio track`);
         setStatusMessage('Video audio extracted.');
       } catch (error) {
         console.error(error);
-        setStatusMessage('Unable to extract audio from video.');
+        setStatusMessage(
+          abort.signal.aborted ? 'Video processing cancelled.' : 'Unable to extract audio from video.',
+        );
         setHasAudio(false);
         throw error;
       } finally {
+        if (videoAbortRef.current === abort) {
+          videoAbortRef.current = null;
+        }
         setIsProcessingVideo(false);
       }
     },
     [decodeAudioData],
   );
 
+  const cancelVideoProcessing = useCallback(() => {
+    videoAbortRef.current?.abort();
+  }, []);
+
+  // The microphone only feeds the analyser and the recorder, never the speakers, to avoid feedback.
+  const connectMicrophone = useCallback(async (audioContext: AudioContext, deviceId: string) => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+    });
+    const source = audioContext.createMediaStreamSource(stream);
+    micSourceRef.current?.disconnect();
+    micStreamRef.current?.getTracks().forEach((track) => track.stop());
+    if (micAnalyserRef.current) {
+      source.connect(micAnalyserRef.current);
+    }
+    if (micRecordDestinationRef.current) {
+      source.connect(micRecordDestinationRef.current);
+    }
+    micStreamRef.current = stream;
+    micSourceRef.current = source;
+  }, []);
+
+  const releaseMicrophone = useCallback(() => {
+    unsubscribeMicFeaturesRef.current?.();
+    unsubscribeMicFeaturesRef.current = null;
+    micSourceRef.current?.disconnect();
+    micAnalyserRef.current?.disconnect();
+    micStreamRef.current?.getTracks().forEach((track) => track.stop());
+    micSourceRef.current = null;
+    micStreamRef.current = null;
+    micAnalyserRef.current = null;
+    micSamplesRef.current = null;
+    liveSampleRef.current = null;
+    micRecordDestinationRef.current = null;
+    micRecorderRef.current = null;
+    liveAnalyzerRef.current?.reset();
+    setIsMicActive(false);
+    setIsRecordingMic(false);
+  }, []);
+
+  const startMicrophone = useCallback(
+    async ({ deviceId = micDeviceId, record = false }: StartMicrophoneOptions = {}) => {
+      if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Microphone input is not supported in this browser.');
+      }
+      if (record && typeof MediaRecorder === 'undefined') {
+        throw new Error('Recording is not supported in this browser.');
+      }
+      if (micAnalyserRef.current) {
+        return;
+      }
+      pause();
+      const audioContext = await ensureAudioContext();
+      const liveAnalyzer = (liveAnalyzerRef.current ??= createLiveAnalyzer());
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = liveAnalyzer.frameSize;
+      micAnalyserRef.current = analyser;
+      const features = await featureStreamRef.current;
+      if (features) {
+        analyser.connect(features.input);
+        unsubscribeMicFeaturesRef.current = features.subscribe((frame, hopSeconds) => {
+          liveSampleRef.current = liveAnalyzer.analyzeFeatures(frame, hopSeconds);
+        });
+      } else {
+        micSamplesRef.current = new Float32Array(analyser.fftSize);
+      }
+      if (record) {
+        micRecordDestinationRef.current = audioContext.createMediaStreamDestination();
+      }
+
+      try {
+        await connectMicrophone(audioContext, deviceId);
+      } catch (error) {
+        releaseMicrophone();
+        console.error(error);
+        setStatusMessage('Microphone unavailable.');
+        throw (error as Error).name === 'NotAllowedError'
+          ? new Error('Microphone access was denied.')
+          : error;
+      }
+
+      if (record && micRecordDestinationRef.current) {
+        const mimeType = pickRecorderMimeType();
+        const recorder = new MediaRecorder(
+          micRecordDestinationRef.current.stream,
+          mimeType ? { mimeType } : undefined,
+        );
+        micChunksRef.current = [];
+        recorder.addEventListener('dataavailable', (event) => {
+          if (event.data.size > 0) {
+            micChunksRef.current.push(event.data);
+          }
+        });
+        recorder.start(1000);
+        micRecorderRef.current = recorder;
+        setIsRecordingMic(true);
+      }
+
+      lastLiveTimeRef.current = audioContext.currentTime;
+      setIsMicActive(true);
+      setStatusMessage(record ? 'Microphone live • recording' : 'Microphone live');
+      // Device labels are only exposed once permission has been granted.
+      listMicrophones()
+        .then(setMicDevices)
+        .catch((error) => console.error(error));
+    },
+    [connectMicrophone, ensureAudioContext, micDeviceId, pause, releaseMicrophone],
+  );
+
+  const stopMicrophone = useCallback(async () => {
+    const recorder = micRecorderRef.current;
+    const recording =
+      recorder && recorder.state !== 'inactive'
+        ? new Promise<Blob>((resolve) => {
+            recorder.addEventListener(
+              'stop',
+              () => resolve(new Blob(micChunksRef.current, { type: recorder.mimeType })),
+              { once: true },
+            );
+            recorder.stop();
+          })
+        : null;
+    const blob = recording ? await recording : null;
+    micChunksRef.current = [];
+    releaseMicrophone();
+    resetPlayback();
+
+    if (!blob || blob.size === 0) {
+      setStatusMessage('Microphone stopped.');
+      return;
+    }
+    setIsLoadingAudio(true);
+    try {
+      setHasAudio(false);
+      await decodeAudioData(await blob.arrayBuffer());
+      setAudioName(`Microphone take • ${new Date().toLocaleTimeString()}`);
+      setStatusMessage('Microphone take loaded.');
+    } catch (error) {
+      console.error(error);
+      setStatusMessage('Unable to decode microphone recording.');
+      setHasAudio(false);
+      throw error;
+    } finally {
+      setIsLoadingAudio(false);
+    }
+  }, [decodeAudioData, releaseMicrophone, resetPlayback]);
+
+  const selectMicDevice = useCallback(
+    async (deviceId: string) => {
+      setMicDeviceId(deviceId);
+      if (micAnalyserRef.current && audioContextRef.current) {
+        await connectMicrophone(audioContextRef.current, deviceId);
+      }
+    },
+    [connectMicrophone],
+  );
+
+  // Features of whatever the engine hears (playback or microphone), delivered from the audio thread.
+  const subscribeAudioFeatures = useCallback((listener: FeatureListener) => {
+    const listeners = featureListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
   const setEmotionValue = useCallback((key: EmotionKey, value: number) => {
     setEmotions((prev) => ({ ...prev, [key]: clamp01(value) }));
   }, []);
 
+  const setEmotionKeyframe = useCallback((key: EmotionKey, keyframe: EmotionKeyframe) => {
+    setEmotionTimeline((prev) => upsertKeyframe(prev, key, keyframe));
+  }, []);
+
+  const deleteEmotionKeyframe = useCallback((key: EmotionKey, id: string) => {
+    setEmotionTimeline((prev) => removeKeyframe(prev, key, id));
+  }, []);
+
+  const clearEmotionTimeline = useCallback((key?: EmotionKey) => {
+    setEmotionTimeline((prev) => (key ? { ...prev, [key]: [] } : createEmotionTimeline()));
+  }, []);
+
   const setPreset = useCallback((presetId: string) => {
     setFaceSource({ mode: 'preset', presetId });
     setUploadedFaceName(null);
   }, []);
 
   const setCustomFace = useCallback(async (file: File) => {
-    const reader = new FileReader();
-    const promise = new Promise<string>((resolve, reject) => {
-      reader.onerror = () => reject(new Error('Unable to read image file.'));
-      reader.onload = () => resolve(reader.result as string);
-    });
-    reader.readAsDataURL(file);
-    const url = await promise;
-    setFaceSource({ mode: 'upload', url, name: file.name });
+    const url = await readAsDataUrl(file, 'Unable to read image file.');
+    const anchors = await detectPortraitAnchors(url);
+    setFaceSource({ mode: 'upload', url, name: file.name, rig: 'portrait', anchors });
     setUploadedFaceName(file.name);
   }, []);
 
+  const setFaceRig = useCallback((rig: FaceRigMode) => {
+    setFaceSource((prev) => (prev.mode === 'upload' ? { ...prev, rig } : prev));
+  }, []);
+
+  const setPortraitAnchors = useCallback((anchors: PortraitAnchors) => {
+    setFaceSource((prev) => (prev.mode === 'upload' ? { ...prev, anchors } : prev));
+  }, []);
+
+  const autoPlacePortraitAnchors = useCallback(async () => {
+    if (faceSource.mode !== 'upload') {
+      return;
+    }
+    setPortraitAnchors(await detectPortraitAnchors(faceSource.url));
+  }, [faceSource, setPortraitAnchors]);
+
+  const replaceModelUrl = useCallback((url: string | null) => {
+    if (modelUrlRef.current) {
+      URL.revokeObjectURL(modelUrlRef.current);
+    }
+    modelUrlRef.current = url;
+  }, []);
+
+  const setCustomModel = useCallback(
+    (file: File) => {
+      if (!isAvatarModelFile(file.name)) {
+        throw new Error('Choose a .glb, .gltf or .vrm model file.');
+      }
+      const url = URL.createObjectURL(file);
+      replaceModelUrl(url);
+      setAvatarModel({ name: file.name, url });
+      setRigMapping(null);
+    },
+    [replaceModelUrl],
+  );
+
+  const clearCustomModel = useCallback(() => {
+    replaceModelUrl(null);
+    setAvatarModel(null);
+    setRigMapping(null);
+  }, [replaceModelUrl]);
+
+  const setCustomBackdrop = useCallback((file: File) => {
+    const kind = backdropKindOf(file);
+    if (!kind) {
+      throw new Error('Choose an image or video file for the backdrop.');
+    }
+    if (backdropUrlRef.current) {
+      URL.revokeObjectURL(backdropUrlRef.current);
+    }
+    const url = URL.createObjectURL(file);
+    backdropUrlRef.current = url;
+    setBackdrop({ name: file.name, url, kind });
+  }, []);
+
+  const clearCustomBackdrop = useCallback(() => {
+    if (backdropUrlRef.current) {
+      URL.revokeObjectURL(backdropUrlRef.current);
+    }
+    backdropUrlRef.current = null;
+    setBackdrop(null);
+  }, []);
+
   const regenerateGestures = useCallback(() => {
-    setGestureSeed(Math.random());
+    setGestureSeed(createSeed());
+  }, []);
+
+  const updateGestureSeed = useCallback((seed: number) => {
+    setGestureSeed(normalizeSeed(seed));
+  }, []);
+
+  const updateGestureIntensity = useCallback((value: number) => {
+    setGestureIntensity(clamp01(value));
   }, []);
 
   const updateVolume = useCallback(
@@ -575,26 +1541,52 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
     [],
   );
 
+  const captions = useMemo(() => buildCaptions(speechSegments, wordTimings), [speechSegments, wordTimings]);
+
   const exportVideo = useCallback(
-    async (canvas: HTMLCanvasElement | null, format: ExportFormat) => {
-      if (!canvas) {
+    async (
+      controller: AvatarRenderController | null,
+      format: ExportFormat,
+      { captionStyle = null, transparent = false, output = null }: ExportOptions = {},
+    ) => {
+      if (!controller) {
         throw new Error('Preview canvas is not ready yet.');
       }
       if (!audioBufferRef.current) {
         throw new Error('Load or generate speech before exporting.');
       }
+      if (micAnalyserRef.current) {
+        throw new Error('Stop the microphone before exporting.');
+      }
+      if (format === 'png') {
+        throw new Error('PNG sequences are rendered frame by frame.');
+      }
+      if (transparent && format === 'mp4') {
+        throw new Error('MP4 has no alpha channel. Export WebM or a PNG sequence instead.');
+      }
 
+      const abort = new AbortController();
+      exportAbortRef.current = abort;
       setIsExporting(true);
+      setExportProgress(0);
       setStatusMessage(`Rendering ${format.toUpperCase()}...`);
 
       const previousOffset = getCurrentOffset();
       const wasPlaying = isPlaying;
+      const recordingShare = format === 'mp4' ? 0.5 : 1;
+      let overlayFrame = 0;
 
       try {
         pause();
+        controller.setOutputSize(output);
+        const compositor =
+          captionStyle && captions.length
+            ? createCaptionCompositor(controller.canvas, captions, captionStyle)
+            : null;
 
         await ensureAudioContext();
-        const videoStream = canvas.captureStream(60);
+        compositor?.draw(0);
+        const videoStream = (compositor?.canvas ?? controller.canvas).captureStream(output?.fps ?? 60);
         const audioStream = destinationRef.current?.stream;
         if (!audioStream) {
           throw new Error('Audio routing unavailable for export.');
@@ -609,12 +1601,15 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
           throw new Error('Browser does not support the required recording format.');
         }
 
-        const recorder = new MediaRecorder(combinedStream, { mimeType });
+        const recorder = new MediaRecorder(combinedStream, { mimeType, videoBitsPerSecond: output?.videoBitrate });
         const chunks: Blob[] = [];
+        const duration = audioBufferRef.current.duration;
         recorder.ondataavailable = (event) => {
           if (event.data && event.data.size > 0) {
             chunks.push(event.data);
           }
+          const elapsed = (audioContextRef.current?.currentTime ?? 0) - startTimeRef.current;
+          setExportProgress(Math.min(1, Math.max(0, elapsed / duration)) * recordingShare);
         };
 
         const recordingPromise = new Promise<void>((resolve, reject) => {
@@ -622,21 +1617,52 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
           recorder.onstop = () => resolve();
         });
 
+        const stopRecording = () => {
+          stopCurrentSource();
+          if (recorder.state !== 'inactive') {
+            recorder.stop();
+          }
+        };
+        abort.signal.addEventListener('abort', stopRecording, { once: true });
+        if (abort.signal.aborted) {
+          throw new DOMException('Export cancelled.', 'AbortError');
+        }
+
         recorder.start(100);
-        const playback = await schedulePlayback(0, true);
-        if (playback) {
+        const playback = await schedulePlayback(0, true, { rate: 1, loop: null });
+        // A cancel while playback was being scheduled has already stopped the recorder, but not the new source.
+        if (abort.signal.aborted) {
+          stopRecording();
+        } else if (compositor) {
+          const drawOverlay = () => {
+            compositor.draw((audioContextRef.current?.currentTime ?? 0) - startTimeRef.current);
+            overlayFrame = requestAnimationFrame(drawOverlay);
+          };
+          drawOverlay();
+        }
+        if (playback && !abort.signal.aborted) {
           await playback.done;
         }
         if (recorder.state !== 'inactive') {
           recorder.stop();
         }
         await recordingPromise;
+        if (abort.signal.aborted) {
+          throw new DOMException('Export cancelled.', 'AbortError');
+        }
 
         const webmBlob = new Blob(chunks, { type: mimeType });
         let finalBlob = webmBlob;
         if (format === 'mp4') {
-          finalBlob = await convertWebMToMp4(webmBlob);
+          setStatusMessage('Converting to MP4...');
+          finalBlob = await convertWebMToMp4(webmBlob, {
+            fps: output?.fps,
+            videoBitrate: output?.videoBitrate,
+            onProgress: (progress) => setExportProgress(recordingShare + progress * (1 - recordingShare)),
+            signal: abort.signal,
+          });
         }
+        setExportProgress(1);
 
         setStatusMessage('Export complete.');
 
@@ -650,54 +1676,325 @@ export const useAvatarEngine = (args: UseAvatarEngineArgs = {}) => {
 
         return finalBlob;
       } catch (error) {
-        setStatusMessage('Export failed. Please try again.');
+        // The cancelled source no longer owns `sourceNodeRef` when it ends, so its handler won't reset playback.
+        ignoreEndRef.current = true;
+        stopCurrentSource();
+        pauseOffsetRef.current = previousOffset;
+        setIsPlaying(false);
+        setStatusMessage(abort.signal.aborted ? 'Export cancelled.' : 'Export failed. Please try again.');
         throw error;
       } finally {
+        cancelAnimationFrame(overlayFrame);
+        controller.setOutputSize(null);
+        exportAbortRef.current = null;
         setIsExporting(false);
       }
     },
-    [ensureAudioContext, getCurrentOffset, isPlaying, pause, schedulePlayback],
+    [captions, ensureAudioContext, getCurrentOffset, isPlaying, pause, schedulePlayback, stopCurrentSource],
   );
 
-  const animationState: AvatarAnimationState = useMemo(
-    () => ({
-      mouthOpen,
-      blink,
-      headRotation,
-      eyeDirection,
-      handWave,
-      intensity: energy,
-      emotionMix: computeEmotionBlend(emotions, energy),
-      energy,
-    }),
-    [blink, emotions, energy, eyeDirection, handWave, headRotation, mouthOpen],
+  const renderVideoOffline = useCallback(
+    async (
+      controller: AvatarRenderController | null,
+      format: ExportFormat,
+      { captionStyle = null, transparent = false, output = null }: ExportOptions = {},
+    ) => {
+      if (!controller) {
+        throw new Error('Preview canvas is not ready yet.');
+      }
+      const buffer = audioBufferRef.current;
+      const track = trackRef.current;
+      const timeline = speechTimelineRef.current;
+      const gestures = gestureCuesRef.current;
+      const beats = beatsRef.current;
+      const prosody = autoEmotion ? prosodyRef.current : null;
+      if (!buffer || !track) {
+        throw new Error('Load or generate speech before exporting.');
+      }
+      if (micAnalyserRef.current) {
+        throw new Error('Stop the microphone before exporting.');
+      }
+      if (transparent && format === 'mp4') {
+        throw new Error('MP4 has no alpha channel. Export WebM or a PNG sequence instead.');
+      }
+
+      const abort = new AbortController();
+      exportAbortRef.current = abort;
+      setIsExporting(true);
+      setExportProgress(0);
+      setStatusMessage(
+        format === 'png' ? 'Rendering PNG frames...' : `Rendering ${format.toUpperCase()} frame by frame...`,
+      );
+      pause();
+      controller.beginOfflineRender();
+
+      try {
+        controller.setOutputSize(output);
+        const compositor =
+          captionStyle && captions.length ? createCaptionCompositor(controller.canvas, captions, captionStyle) : null;
+        const options = {
+          canvas: compositor?.canvas ?? controller.canvas,
+          audioBuffer: buffer,
+          fps: output?.fps,
+          renderFrame: async (time: number) => {
+            await controller.renderFrame(
+              buildAnimationFrame(
+                track,
+                time,
+                emotions,
+                emotionTimeline,
+                gestureContext,
+                timeline,
+                gestures,
+                beats,
+                prosody,
+              ),
+              time,
+            );
+            compositor?.draw(time);
+          },
+          onProgress: setExportProgress,
+          signal: abort.signal,
+        };
+        const blob =
+          format === 'png'
+            ? await renderFrameSequence(options)
+            : await renderOffline({ ...options, format, videoBitrate: output?.videoBitrate, transparent });
+        setStatusMessage('Export complete.');
+        return blob;
+      } catch (error) {
+        setStatusMessage(
+          abort.signal.aborted ? 'Render cancelled.' : 'Export failed. Please try again.',
+        );
+        throw error;
+      } finally {
+        controller.setOutputSize(null);
+        controller.endOfflineRender();
+        exportAbortRef.current = null;
+        setIsExporting(false);
+      }
+    },
+    [autoEmotion, captions, emotionTimeline, emotions, gestureContext, pause],
+  );
+
+  const cancelExport = useCallback(() => {
+    exportAbortRef.current?.abort();
+  }, []);
+
+  const clearAudio = useCallback(() => {
+    resetPlayback();
+    trackRef.current = null;
+    beatsRef.current = [];
+    prosodyRef.current = null;
+    audioBufferRef.current = null;
+    speechTimelineRef.current = null;
+    gestureCuesRef.current = [];
+    setSpeechSegments([]);
+    setWordTimings([]);
+    setHasAudio(false);
+    setAudioDuration(0);
+    setAudioName(null);
+    setWaveformPeaks(null);
+    loopRef.current = null;
+    setLoopRegionState(null);
+    setIsLoopEnabled(false);
+    setAudioRevision((revision) => revision + 1);
+  }, [resetPlayback]);
+
+  const exportAudioBlob = useCallback(() => {
+    const buffer = audioBufferRef.current;
+    return buffer ? new Blob([encodeWav(buffer)], { type: 'audio/wav' }) : null;
+  }, []);
+
+  const captureProjectState = useCallback(
+    async ({ embedAudio }: { embedAudio: boolean }): Promise<EngineProjectState> => {
+      const blob = embedAudio ? exportAudioBlob() : null;
+      let audio: ProjectAudio | null = null;
+      if (audioBufferRef.current) {
+        const name = audioName ?? 'Audio';
+        audio = blob
+          ? { source: 'embedded', name, dataUrl: await readAsDataUrl(blob, 'Unable to embed project audio.') }
+          : { source: 'reference', name, url: null };
+      }
+      return {
+        face:
+          faceSource.mode === 'preset'
+            ? { mode: 'preset', presetId: faceSource.presetId }
+            : {
+                mode: 'upload',
+                name: faceSource.name,
+                dataUrl: faceSource.url,
+                rig: faceSource.rig,
+                anchors: faceSource.anchors,
+              },
+        emotions,
+        autoEmotion,
+        emotionTimeline,
+        gestureSeed,
+        gestureIntensity,
+        volume,
+        audio,
+        speech: speechTimelineRef.current
+          ? { segments: speechSegments, timeline: speechTimelineRef.current, gestures: gestureCuesRef.current }
+          : null,
+      };
+    },
+    [
+      audioName,
+      autoEmotion,
+      emotionTimeline,
+      emotions,
+      exportAudioBlob,
+      faceSource,
+      gestureIntensity,
+      gestureSeed,
+      speechSegments,
+      volume,
+    ],
+  );
+
+  const restoreProjectState = useCallback(
+    async (project: ProjectDocument): Promise<RestoreProjectResult> => {
+      if (micAnalyserRef.current) {
+        throw new Error('Stop the microphone before opening a project.');
+      }
+      const { face, audio, speech } = project;
+      setFaceSource(
+        face.mode === 'preset'
+          ? { mode: 'preset', presetId: face.presetId }
+          : { mode: 'upload', url: face.dataUrl, name: face.name, rig: face.rig, anchors: face.anchors },
+      );
+      setUploadedFaceName(face.mode === 'upload' ? face.name : null);
+      setEmotions(project.emotions);
+      setAutoEmotion(project.autoEmotion);
+      setEmotionTimeline(project.emotionTimeline);
+      setGestureSeed(normalizeSeed(project.gestureSeed));
+      setGestureIntensity(project.gestureIntensity);
+      updateVolume(project.volume);
+      setSpeechPauses(project.tts.pauses);
+
+      const audioUrl = audio?.source === 'embedded' ? audio.dataUrl : audio?.url;
+      if (!audio || !audioUrl) {
+        clearAudio();
+        return { missingAudio: audio?.name ?? null };
+      }
+
+      setIsLoadingAudio(true);
+      setStatusMessage(`Loading ${audio.name}...`);
+      try {
+        setHasAudio(false);
+        const response = await fetch(audioUrl);
+        if (!response.ok) {
+          throw new Error(`Unable to fetch project audio (${response.status}).`);
+        }
+        await decodeAudioData(await response.arrayBuffer());
+        if (speech) {
+          speechTimelineRef.current = speech.timeline;
+          gestureCuesRef.current = speech.gestures;
+          setWordTimings(speech.timeline.words);
+          setSpeechSegments(speech.segments);
+        }
+        setAudioName(audio.name);
+        setStatusMessage(`Opened ${project.name}`);
+        return { missingAudio: null };
+      } catch (error) {
+        console.error(error);
+        clearAudio();
+        setStatusMessage('Unable to load project audio.');
+        return { missingAudio: audio.name };
+      } finally {
+        setIsLoadingAudio(false);
+      }
+    },
+    [clearAudio, decodeAudioData, updateVolume],
   );
 
+  const faceRig: FaceRigMode = faceSource.mode === 'upload' ? faceSource.rig : 'sphere';
+  const portraitAnchors = faceSource.mode === 'upload' ? faceSource.anchors : null;
+
   return {
     face: currentFaceTexture,
     setPreset,
     setCustomFace,
+    faceRig,
+    portraitAnchors,
+    setFaceRig,
+    setPortraitAnchors,
+    autoPlacePortraitAnchors,
+    avatarModel,
+    setCustomModel,
+    clearCustomModel,
+    rigMapping,
+    setRigMapping,
+    backdrop,
+    setCustomBackdrop,
+    clearCustomBackdrop,
+    gestureSeed,
+    updateGestureSeed,
+    gestureIntensity,
+    updateGestureIntensity,
     regenerateGestures,
-    animationState,
+    animationRef,
+    animationReadout,
     emotions,
     setEmotionValue,
+    autoEmotion,
+    setAutoEmotion,
+    emotionTimeline,
+    setEmotionKeyframe,
+    deleteEmotionKeyframe,
+    clearEmotionTimeline,
     play,
     pause,
     isPlaying,
     isLoadingAudio,
     isGeneratingSpeech,
     isProcessingVideo,
+    videoProgress,
+    cancelVideoProcessing,
     statusMessage,
     playbackProgress,
+    playbackTime,
+    seek,
+    playbackRate,
+    setPlaybackRate,
+    loopRegion,
+    setLoopRegion,
+    isLoopEnabled,
+    setLoopEnabled,
+    waveformPeaks,
     audioDuration,
     audioName,
     loadAudioFromFile,
     loadAudioFromVideo,
+    startMicrophone,
+    stopMicrophone,
+    isMicActive,
+    isRecordingMic,
+    micDevices,
+    micDeviceId,
+    selectMicDevice,
+    subscribeAudioFeatures,
     generateSpeechFromText,
+    speechSegments,
+    wordTimings,
+    captions,
+    speechPauses,
+    setSpeechPause,
+    ttsProviders,
+    defaultTtsProvider,
     exportVideo,
+    renderVideoOffline,
+    cancelExport,
+    exportProgress,
+    canRenderOffline,
     isExporting,
     hasAudio,
     updateVolume,
     volume,
+    captureProjectState,
+    restoreProjectState,
+    exportAudioBlob,
+    audioRevision,
   };
 };
@@ -0,0 +1,152 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  deleteProject,
+  duplicateProject,
+  getLastProjectId,
+  getStorageUsage,
+  isProjectLibrarySupported,
+  listProjects,
+  loadProject,
+  renameProject,
+  saveProject,
+  setLastProjectId,
+  type LibraryEntry,
+  type SaveProjectInput,
+  type StorageUsage,
+} from '../lib/projectLibrary';
+
+export type { LibraryEntry, StorageUsage } from '../lib/projectLibrary';
+
+const subscribeToSupport = () => () => {};
+
+export const useProjectLibrary = () => {
+  const isSupported = useSyncExternalStore(subscribeToSupport, isProjectLibrarySupported, () => false);
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const currentIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const selectProject = useCallback((id: string | null) => {
+    currentIdRef.current = id;
+    setCurrentProjectId(id);
+    setLastProjectId(id);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const [projects, usage] = await Promise.all([listProjects(), getStorageUsage()]);
+    setEntries(projects);
+    setStorageUsage(usage);
+  }, []);
+
+  useEffect(() => {
+    if (!isProjectLibrarySupported()) {
+      return;
+    }
+    Promise.all([listProjects(), getStorageUsage()])
+      .then(([projects, usage]) => {
+        setEntries(projects);
+        setStorageUsage(usage);
+      })
+      .catch((error) => console.error(error));
+  }, []);
+
+  // Saves run one after another so an autosave never races a rename or a newer autosave.
+  const save = useCallback(
+    (input: Omit<SaveProjectInput, 'id'>) => {
+      const task = saveQueueRef.current.then(async () => {
+        setIsSaving(true);
+        try {
+          const entry = await saveProject({ ...input, id: currentIdRef.current ?? undefined });
+          if (currentIdRef.current !== entry.id) {
+            selectProject(entry.id);
+          }
+          setLastSavedAt(entry.updatedAt);
+          await refresh();
+          return entry;
+        } finally {
+          setIsSaving(false);
+        }
+      });
+      saveQueueRef.current = task.catch(() => undefined);
+      return task;
+    },
+    [refresh, selectProject],
+  );
+
+  const open = useCallback(
+    async (id: string) => {
+      const project = await loadProject(id);
+      selectProject(id);
+      setLastSavedAt(project.entry.updatedAt);
+      return project;
+    },
+    [selectProject],
+  );
+
+  const openLast = useCallback(async () => {
+    const id = getLastProjectId();
+    if (!id || !isProjectLibrarySupported()) {
+      return null;
+    }
+    try {
+      return await open(id);
+    } catch (error) {
+      console.error(error);
+      setLastProjectId(null);
+      return null;
+    }
+  }, [open]);
+
+  const rename = useCallback(
+    async (id: string, name: string) => {
+      await renameProject(id, name);
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const duplicate = useCallback(
+    async (id: string) => {
+      const entry = await duplicateProject(id);
+      await refresh();
+      return entry;
+    },
+    [refresh],
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      if (currentIdRef.current === id) {
+        throw new Error('Open another project before deleting this one.');
+      }
+      await deleteProject(id);
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const detach = useCallback(() => {
+    selectProject(null);
+  }, [selectProject]);
+
+  return {
+    isSupported,
+    entries,
+    storageUsage,
+    currentProjectId,
+    isSaving,
+    lastSavedAt,
+    save,
+    open,
+    openLast,
+    rename,
+    duplicate,
+    remove,
+    detach,
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { derivePhonemeTimings, estimateWordTimings, sampleScriptVisemes, type PhonemeTiming } from './alignment';
+import type { AnimationTrack, PauseRegion } from './animationTrack';
+
+// Only the pauses matter to the word estimate.
+const trackWithPauses = (pauses: PauseRegion[]): AnimationTrack => ({
+  frameRate: 100,
+  frameCount: 0,
+  duration: 0,
+  mouth: new Float32Array(0),
+  energy: new Float32Array(0),
+  visemes: new Float32Array(0),
+  pauses,
+});
+
+describe('estimateWordTimings', () => {
+  it('splits the range between words by their phoneme weight', () => {
+    const words = estimateWordTimings('bib bib', trackWithPauses([]), { start: 0, end: 2 });
+    expect(words).toEqual([
+      { text: 'bib', charStart: 0, charEnd: 3, start: 0, end: 1 },
+      { text: 'bib', charStart: 4, charEnd: 7, start: 1, end: 2 },
+    ]);
+  });
+
+  it('never places a word across a pause', () => {
+    const pause = { start: 0.9, end: 1.1 };
+    const words = estimateWordTimings('bib bib bib', trackWithPauses([pause]), { start: 0, end: 2.2 });
+    expect(words).toHaveLength(3);
+    for (const word of words) {
+      expect(word.start < pause.end && word.end > pause.start).toBe(false);
+      expect(word.end).toBeGreaterThanOrEqual(word.start);
+    }
+    expect(words.at(-1)?.end).toBeCloseTo(2.2);
+  });
+
+  it('returns nothing without words or time', () => {
+    expect(estimateWordTimings('...', trackWithPauses([]), { start: 0, end: 1 })).toEqual([]);
+    expect(estimateWordTimings('hello', trackWithPauses([]), { start: 1, end: 1 })).toEqual([]);
+  });
+});
+
+describe('derivePhonemeTimings', () => {
+  it('divides each word between its visemes by weight', () => {
+    const phonemes = derivePhonemeTimings([{ text: 'bib', start: 0, end: 3.6, charStart: 0, charEnd: 3 }]);
+    expect(phonemes.map((phoneme) => phoneme.viseme)).toEqual(['PP', 'ih', 'PP']);
+    expect(phonemes[0].end).toBeCloseTo(1);
+    expect(phonemes[1].end).toBeCloseTo(2.6);
+    expect(phonemes[2].end).toBeCloseTo(3.6);
+  });
+});
+
+describe('sampleScriptVisemes', () => {
+  const phonemes: PhonemeTiming[] = [
+    { viseme: 'PP', start: 0, end: 0.2 },
+    { viseme: 'aa', start: 0.2, end: 0.4 },
+  ];
+  const total = (weights: Record<string, number>) => Object.values(weights).reduce((sum, value) => sum + value, 0);
+
+  it('shows the current viseme in the middle of a phoneme', () => {
+    expect(sampleScriptVisemes(phonemes, 0.1)).toMatchObject({ PP: 1, aa: 0, sil: 0 });
+  });
+
+  it('is silent outside the script', () => {
+    expect(sampleScriptVisemes(phonemes, 0.5)).toMatchObject({ sil: 1, PP: 0, aa: 0 });
+  });
+
+  it('cross-fades evenly at a shared boundary', () => {
+    const weights = sampleScriptVisemes(phonemes, 0.2);
+    expect(weights.PP).toBeCloseTo(0.5);
+    expect(weights.aa).toBeCloseTo(0.5);
+  });
+
+  it('fades in from silence and always sums to one', () => {
+    const weights = sampleScriptVisemes(phonemes, 0.01);
+    expect(weights.sil).toBeCloseTo(0.375);
+    expect(weights.PP).toBeCloseTo(0.625);
+    for (let time = 0; time < 0.5; time += 0.005) {
+      expect(total(sampleScriptVisemes(phonemes, time))).toBeCloseTo(1);
+    }
+  });
+});
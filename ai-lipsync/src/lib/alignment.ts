@@ -0,0 +1,160 @@
+import type { AnimationTrack } from './animationTrack';
+import { tokenizeWords, wordToVisemes, wordWeight } from './phonemes';
+import { createVisemeWeights, VISEME_KEYS, type VisemeKey, type VisemeWeights } from './visemes';
+
+export type TimingSource = 'provider' | 'estimated';
+
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+  charStart: number;
+  charEnd: number;
+}
+
+export interface PhonemeTiming {
+  viseme: VisemeKey;
+  start: number;
+  end: number;
+}
+
+export interface SpeechTimeline {
+  words: WordTiming[];
+  phonemes: PhonemeTiming[];
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const COARTICULATION_SECONDS = 0.04;
+
+const voicedIntervals = (track: AnimationTrack, range: TimeRange): TimeRange[] => {
+  const intervals: TimeRange[] = [];
+  let cursor = range.start;
+  for (const pause of track.pauses) {
+    if (pause.end <= range.start || pause.start >= range.end) {
+      continue;
+    }
+    if (pause.start > cursor) {
+      intervals.push({ start: cursor, end: pause.start });
+    }
+    cursor = Math.max(cursor, pause.end);
+  }
+  if (cursor < range.end) {
+    intervals.push({ start: cursor, end: range.end });
+  }
+  return intervals.length > 0 ? intervals : [range];
+};
+
+/**
+ * Spreads the words of `text` over the voiced parts of `range`, each word
+ * taking time in proportion to its estimated phoneme count. Used when the
+ * speech provider returns no timing marks of its own.
+ */
+export const estimateWordTimings = (text: string, track: AnimationTrack, range: TimeRange): WordTiming[] => {
+  const tokens = tokenizeWords(text);
+  if (tokens.length === 0 || range.end <= range.start) {
+    return [];
+  }
+  const intervals = voicedIntervals(track, range);
+  const voicedTotal = intervals.reduce((total, interval) => total + interval.end - interval.start, 0);
+  const weights = tokens.map((token) => wordWeight(token.text));
+  const weightTotal = weights.reduce((total, weight) => total + weight, 0);
+
+  // At an interval edge a word start belongs after the pause and a word end before it.
+  const locate = (fraction: number, isStart: boolean) => {
+    let remaining = fraction * voicedTotal;
+    for (let index = 0; index < intervals.length; index++) {
+      const interval = intervals[index];
+      const length = interval.end - interval.start;
+      if (isStart ? remaining < length : remaining <= length) {
+        return { time: interval.start + remaining, index };
+      }
+      remaining -= length;
+    }
+    return { time: range.end, index: intervals.length - 1 };
+  };
+
+  let consumed = 0;
+  return tokens.map((token, index) => {
+    const startFraction = consumed / weightTotal;
+    consumed += weights[index];
+    const from = locate(startFraction, true);
+    const to = locate(consumed / weightTotal, false);
+    if (from.index === to.index) {
+      return { ...token, start: from.time, end: Math.max(from.time, to.time) };
+    }
+    // A word never spans a pause: keep it on the side that holds most of it.
+    const head = intervals[from.index].end - from.time;
+    const tail = to.time - intervals[to.index].start;
+    return head >= tail
+      ? { ...token, start: from.time, end: intervals[from.index].end }
+      : { ...token, start: intervals[to.index].start, end: to.time };
+  });
+};
+
+export const derivePhonemeTimings = (words: WordTiming[]): PhonemeTiming[] =>
+  words.flatMap((word) => {
+    const graphemes = wordToVisemes(word.text);
+    const total = graphemes.reduce((sum, item) => sum + item.weight, 0);
+    const duration = word.end - word.start;
+    let consumed = 0;
+    return graphemes.map((item) => {
+      const start = word.start + (consumed / total) * duration;
+      consumed += item.weight;
+      return { viseme: item.viseme, start, end: word.start + (consumed / total) * duration };
+    });
+  });
+
+const findPhonemeIndex = (phonemes: PhonemeTiming[], time: number) => {
+  let low = 0;
+  let high = phonemes.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (phonemes[mid].end <= time) {
+      low = mid + 1;
+    } else if (phonemes[mid].start > time) {
+      high = mid - 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Viseme weights for the scripted phoneme at `time`, cross-faded with its
+ * neighbours near the edges so consecutive shapes flow into each other.
+ */
+export const sampleScriptVisemes = (
+  phonemes: PhonemeTiming[],
+  time: number,
+  target: VisemeWeights = createVisemeWeights(),
+): VisemeWeights => {
+  VISEME_KEYS.forEach((key) => {
+    target[key] = 0;
+  });
+  const index = findPhonemeIndex(phonemes, time);
+  if (index < 0) {
+    target.sil = 1;
+    return target;
+  }
+  const current = phonemes[index];
+  const window = Math.min(COARTICULATION_SECONDS, (current.end - current.start) / 2);
+  const previous = phonemes[index - 1];
+  const next = phonemes[index + 1];
+  let neighbour: VisemeKey = 'sil';
+  let mix = 0;
+  if (window > 0 && time - current.start < window) {
+    neighbour = previous && current.start - previous.end < window ? previous.viseme : 'sil';
+    mix = 0.5 - (time - current.start) / (2 * window);
+  } else if (window > 0 && current.end - time < window) {
+    neighbour = next && next.start - current.end < window ? next.viseme : 'sil';
+    mix = 0.5 - (current.end - time) / (2 * window);
+  }
+  target[current.viseme] += 1 - mix;
+  target[neighbour] += mix;
+  return target;
+};
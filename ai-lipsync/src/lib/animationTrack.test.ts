@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeAudioBuffer, sampleAnimationTrack, type AnimationTrack } from './animationTrack';
+import { VISEME_KEYS } from './visemes';
+
+const SAMPLE_RATE = 16_000;
+
+// Just enough of an AudioBuffer for the analysis, which only reads samples.
+const fakeBuffer = (channels: Float32Array[]) =>
+  ({
+    sampleRate: SAMPLE_RATE,
+    length: channels[0].length,
+    duration: channels[0].length / SAMPLE_RATE,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+  }) as unknown as AudioBuffer;
+
+// A 220 Hz tone that is silent between `silenceFrom` and `silenceTo` seconds.
+const toneWithGap = (seconds: number, silenceFrom: number, silenceTo: number) =>
+  Float32Array.from({ length: seconds * SAMPLE_RATE }, (_, index) => {
+    const time = index / SAMPLE_RATE;
+    return time >= silenceFrom && time < silenceTo ? 0 : 0.5 * Math.sin(2 * Math.PI * 220 * time);
+  });
+
+describe('analyzeAudioBuffer', () => {
+  it('produces one frame per hundredth of a second', async () => {
+    const track = await analyzeAudioBuffer(fakeBuffer([toneWithGap(1.5, 0.5, 1)]));
+    expect(track).toMatchObject({ frameRate: 100, frameCount: 150, duration: 1.5 });
+    expect(track.mouth).toHaveLength(150);
+    expect(track.visemes).toHaveLength(150 * VISEME_KEYS.length);
+  });
+
+  it('finds the silent gap as a pause and opens the mouth around it', async () => {
+    const track = await analyzeAudioBuffer(fakeBuffer([toneWithGap(2, 0.5, 1.5)]));
+    // Smoothing eats into the edges of the gap, but the pause stays inside it.
+    expect(track.pauses).toHaveLength(1);
+    expect(track.pauses[0].start).toBeGreaterThan(0.5);
+    expect(track.pauses[0].start).toBeLessThan(0.8);
+    expect(track.pauses[0].end).toBeGreaterThan(1.2);
+    expect(track.pauses[0].end).toBeLessThan(1.5);
+    expect(track.energy[25]).toBeGreaterThan(0.8);
+    expect(track.energy[100]).toBeLessThan(0.01);
+    expect(track.mouth[25]).toBeGreaterThan(track.mouth[100] + 0.5);
+  });
+
+  it('finds no pause in a breath shorter than the minimum', async () => {
+    const track = await analyzeAudioBuffer(fakeBuffer([toneWithGap(1.5, 0.6, 0.7)]));
+    expect(track.pauses).toEqual([]);
+  });
+
+  it('mixes channels down to mono', async () => {
+    const signal = toneWithGap(1, 0.4, 0.7);
+    const mono = await analyzeAudioBuffer(fakeBuffer([signal]));
+    const stereo = await analyzeAudioBuffer(fakeBuffer([signal, signal]));
+    expect(Array.from(stereo.energy)).toEqual(Array.from(mono.energy));
+    expect(stereo.pauses).toEqual(mono.pauses);
+  });
+
+  it('reports progress up to completion', async () => {
+    const progress: number[] = [];
+    await analyzeAudioBuffer(fakeBuffer([toneWithGap(0.5, 0, 0)]), { onProgress: (value) => progress.push(value) });
+    expect(progress.at(-1)).toBe(1);
+  });
+});
+
+describe('sampleAnimationTrack', () => {
+  const visemes = new Float32Array(3 * VISEME_KEYS.length);
+  visemes[VISEME_KEYS.indexOf('aa')] = 1;
+  visemes[2 * VISEME_KEYS.length + VISEME_KEYS.indexOf('aa')] = 0.5;
+  const track: AnimationTrack = {
+    frameRate: 10,
+    frameCount: 3,
+    duration: 0.3,
+    mouth: Float32Array.from([0, 1, 0.5]),
+    energy: Float32Array.from([0.2, 0.4, 0.6]),
+    visemes,
+    pauses: [{ start: 0.2, end: 0.25 }],
+  };
+
+  it('interpolates between frames', () => {
+    const sample = sampleAnimationTrack(track, 0.05);
+    expect(sample.mouth).toBeCloseTo(0.5);
+    expect(sample.energy).toBeCloseTo(0.3);
+    expect(sample.visemes.aa).toBeCloseTo(0.5);
+  });
+
+  it('holds the first and last frame outside the track', () => {
+    expect(sampleAnimationTrack(track, -1).mouth).toBe(0);
+    expect(sampleAnimationTrack(track, 5)).toMatchObject({ mouth: 0.5, energy: expect.closeTo(0.6) });
+    expect(sampleAnimationTrack(track, 5).visemes.aa).toBe(0.5);
+  });
+
+  it('treats pauses as half-open ranges', () => {
+    expect(sampleAnimationTrack(track, 0.19).inPause).toBe(false);
+    expect(sampleAnimationTrack(track, 0.2).inPause).toBe(true);
+    expect(sampleAnimationTrack(track, 0.25).inPause).toBe(false);
+  });
+
+  it('writes into the target it is given', () => {
+    const target = sampleAnimationTrack(track, 0);
+    expect(sampleAnimationTrack(track, 0.1, target)).toBe(target);
+    expect(target.mouth).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import { createFeatureExtractor, FEATURE_FRAME_SIZE } from './audioFeatures';
+import { classifyVisemes, createVisemeWeights, VISEME_KEYS, type VisemeWeights } from './visemes';
+
+export interface PauseRegion {
+  start: number;
+  end: number;
+}
+
+export interface AnimationTrack {
+  frameRate: number;
+  frameCount: number;
+  duration: number;
+  mouth: Float32Array;
+  energy: Float32Array;
+  visemes: Float32Array;
+  pauses: PauseRegion[];
+}
+
+export interface AnimationTrackSample {
+  mouth: number;
+  energy: number;
+  visemes: VisemeWeights;
+  inPause: boolean;
+}
+
+interface AnalyzeOptions {
+  frameRate?: number;
+  onProgress?: (progress: number) => void;
+}
+
+export const TRACK_FRAME_RATE = 100;
+
+const PAUSE_THRESHOLD = 0.08;
+const MIN_PAUSE_SECONDS = 0.18;
+const FRAMES_PER_YIELD = 2000;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const smoothStep = (value: number, smoothing = 0.3) =>
+  value < 0 ? 0 : value > 1 ? 1 : value * value * (3 - 2 * value) * smoothing + value * (1 - smoothing);
+
+const yieldToMainThread = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const mixToMono = (buffer: AudioBuffer) => {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+// Forward-backward one-pole filter: smooths like the old per-frame easing without adding lag.
+export const smoothZeroPhase = (
+  values: Float32Array,
+  timeConstant: number,
+  frameRate: number,
+  stride = 1,
+  offset = 0,
+) => {
+  const alpha = 1 - Math.exp(-1 / (timeConstant * frameRate));
+  const count = Math.floor(values.length / stride);
+  let state = values[offset];
+  for (let i = 0; i < count; i++) {
+    const index = i * stride + offset;
+    state += (values[index] - state) * alpha;
+    values[index] = state;
+  }
+  for (let i = count - 1; i >= 0; i--) {
+    const index = i * stride + offset;
+    state += (values[index] - state) * alpha;
+    values[index] = state;
+  }
+};
+
+export const percentile = (values: Float32Array, ratio: number) => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))] ?? 0;
+};
+
+const findPauses = (energy: Float32Array, frameRate: number): PauseRegion[] => {
+  const pauses: PauseRegion[] = [];
+  let start = -1;
+  for (let i = 0; i <= energy.length; i++) {
+    const quiet = i < energy.length && energy[i] < PAUSE_THRESHOLD;
+    if (quiet && start < 0) {
+      start = i;
+    } else if (!quiet && start >= 0) {
+      if ((i - start) / frameRate >= MIN_PAUSE_SECONDS) {
+        pauses.push({ start: start / frameRate, end: i / frameRate });
+      }
+      start = -1;
+    }
+  }
+  return pauses;
+};
+
+export const analyzeAudioBuffer = async (
+  buffer: AudioBuffer,
+  { frameRate = TRACK_FRAME_RATE, onProgress }: AnalyzeOptions = {},
+): Promise<AnimationTrack> => {
+  const samples = mixToMono(buffer);
+  const frameCount = Math.max(1, Math.ceil(buffer.duration * frameRate));
+  const hop = buffer.sampleRate / frameRate;
+  const extract = createFeatureExtractor(FEATURE_FRAME_SIZE);
+  const window = new Float32Array(FEATURE_FRAME_SIZE);
+  const features = new Array<ReturnType<typeof extract>>(frameCount);
+  const rms = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const center = Math.round(frame * hop);
+    const start = center - FEATURE_FRAME_SIZE / 2;
+    for (let i = 0; i < FEATURE_FRAME_SIZE; i++) {
+      const index = start + i;
+      window[i] = index >= 0 && index < samples.length ? samples[index] : 0;
+    }
+    features[frame] = extract(window, buffer.sampleRate);
+    rms[frame] = features[frame].rms;
+    if (frame % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+      onProgress?.((frame / frameCount) * 0.9);
+      await yieldToMainThread();
+    }
+  }
+
+  const reference = Math.max(percentile(rms, 0.95), 0.0001);
+  const energy = new Float32Array(frameCount);
+  const mouth = new Float32Array(frameCount);
+  const visemes = new Float32Array(frameCount * VISEME_KEYS.length);
+  const scratch = createVisemeWeights();
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const normalized = clamp01(rms[frame] / reference);
+    energy[frame] = normalized;
+    mouth[frame] = smoothStep(normalized * 1.8, 0.4);
+    classifyVisemes(features[frame], normalized, scratch);
+    VISEME_KEYS.forEach((key, index) => {
+      visemes[frame * VISEME_KEYS.length + index] = scratch[key];
+    });
+  }
+
+  smoothZeroPhase(energy, 0.08, frameRate);
+  smoothZeroPhase(mouth, 0.035, frameRate);
+  VISEME_KEYS.forEach((_, index) => {
+    smoothZeroPhase(visemes, 0.03, frameRate, VISEME_KEYS.length, index);
+  });
+  onProgress?.(1);
+
+  return {
+    frameRate,
+    frameCount,
+    duration: buffer.duration,
+    mouth,
+    energy,
+    visemes,
+    pauses: findPauses(energy, frameRate),
+  };
+};
+
+export const sampleAnimationTrack = (
+  track: AnimationTrack,
+  time: number,
+  target: AnimationTrackSample = {
+    mouth: 0,
+    energy: 0,
+    visemes: createVisemeWeights(),
+    inPause: true,
+  },
+): AnimationTrackSample => {
+  const position = Math.min(Math.max(time * track.frameRate, 0), track.frameCount - 1);
+  const index = Math.floor(position);
+  const next = Math.min(index + 1, track.frameCount - 1);
+  const mix = position - index;
+  const lerp = (values: Float32Array, a: number, b: number) => values[a] + (values[b] - values[a]) * mix;
+
+  target.mouth = lerp(track.mouth, index, next);
+  target.energy = lerp(track.energy, index, next);
+  VISEME_KEYS.forEach((key, offset) => {
+    target.visemes[key] = lerp(
+      track.visemes,
+      index * VISEME_KEYS.length + offset,
+      next * VISEME_KEYS.length + offset,
+    );
+  });
+  target.inPause = track.pauses.some((pause) => time >= pause.start && time < pause.end);
+  return target;
+};
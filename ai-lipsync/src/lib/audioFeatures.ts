@@ -0,0 +1,139 @@
+export interface BandEnergies {
+  low: number;
+  mid: number;
+  high: number;
+  sibilance: number;
+}
+
+export interface SpectralFeatures {
+  rms: number;
+  zeroCrossingRate: number;
+  spectralCentroid: number;
+  spectralFlatness: number;
+  bands: BandEnergies;
+}
+
+export type FeatureExtractor = (samples: Float32Array, sampleRate: number) => SpectralFeatures;
+
+export const FEATURE_FRAME_SIZE = 1024;
+
+/**
+ * Creates a feature extractor with preallocated FFT buffers. Frames longer than
+ * `frameSize` use their most recent samples; shorter frames are zero padded.
+ *
+ * The body must not reference anything outside the function: the feature
+ * worklet is built from its source text.
+ */
+export const createFeatureExtractor = (frameSize = FEATURE_FRAME_SIZE): FeatureExtractor => {
+  const bandEdges: [keyof BandEnergies, number, number][] = [
+    ['low', 80, 500],
+    ['mid', 500, 2000],
+    ['high', 2000, 4000],
+    ['sibilance', 4000, 10000],
+  ];
+
+  const fftInPlace = (real: Float32Array, imag: Float32Array) => {
+    const n = real.length;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      const stepReal = Math.cos(angle);
+      const stepImag = Math.sin(angle);
+      const half = size >> 1;
+      for (let start = 0; start < n; start += size) {
+        let wReal = 1;
+        let wImag = 0;
+        for (let k = 0; k < half; k++) {
+          const a = start + k;
+          const b = a + half;
+          const tReal = real[b] * wReal - imag[b] * wImag;
+          const tImag = real[b] * wImag + imag[b] * wReal;
+          real[b] = real[a] - tReal;
+          imag[b] = imag[a] - tImag;
+          real[a] += tReal;
+          imag[a] += tImag;
+          const nextReal = wReal * stepReal - wImag * stepImag;
+          wImag = wReal * stepImag + wImag * stepReal;
+          wReal = nextReal;
+        }
+      }
+    }
+  };
+
+  if (frameSize & (frameSize - 1)) {
+    throw new Error('Feature frame size must be a power of two.');
+  }
+  const real = new Float32Array(frameSize);
+  const imag = new Float32Array(frameSize);
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  return (samples, sampleRate) => {
+    const offset = Math.max(0, samples.length - frameSize);
+    const count = Math.min(frameSize, samples.length);
+
+    let sumSquares = 0;
+    let crossings = 0;
+    let previous = 0;
+    for (let i = 0; i < frameSize; i++) {
+      const value = i < count ? samples[offset + i] : 0;
+      sumSquares += value * value;
+      if (i > 0 && (value >= 0) !== (previous >= 0)) {
+        crossings++;
+      }
+      previous = value;
+      real[i] = value * window[i];
+      imag[i] = 0;
+    }
+
+    fftInPlace(real, imag);
+
+    const bins = frameSize >> 1;
+    const binWidth = sampleRate / frameSize;
+    const bands: BandEnergies = { low: 0, mid: 0, high: 0, sibilance: 0 };
+    let total = 0;
+    let weighted = 0;
+    let logSum = 0;
+    for (let i = 1; i < bins; i++) {
+      const power = real[i] * real[i] + imag[i] * imag[i];
+      const frequency = i * binWidth;
+      total += power;
+      weighted += power * frequency;
+      logSum += Math.log(power + 1e-12);
+      for (const [band, from, to] of bandEdges) {
+        if (frequency >= from && frequency < to) {
+          bands[band] += power;
+          break;
+        }
+      }
+    }
+
+    if (total > 0) {
+      bands.low /= total;
+      bands.mid /= total;
+      bands.high /= total;
+      bands.sibilance /= total;
+    }
+
+    const meanPower = total / (bins - 1);
+    return {
+      rms: Math.sqrt(sumSquares / Math.max(count, 1)),
+      zeroCrossingRate: crossings / frameSize,
+      spectralCentroid: total > 0 ? weighted / total : 0,
+      spectralFlatness: meanPower > 0 ? Math.exp(logSum / (bins - 1)) / meanPower : 0,
+      bands,
+    };
+  };
+};
@@ -0,0 +1,95 @@
+export interface StitchPart {
+  buffer: AudioBuffer;
+  gapAfter: number;
+}
+
+export interface StitchedRange {
+  start: number;
+  end: number;
+  sourceStart: number;
+}
+
+export interface StitchOptions {
+  fadeSeconds?: number;
+  silenceThreshold?: number;
+  paddingSeconds?: number;
+  // Silence before the first chunk, e.g. for a pause at the start of a script.
+  leadingSeconds?: number;
+}
+
+export interface StitchResult {
+  buffer: AudioBuffer;
+  ranges: StitchedRange[];
+}
+
+const findAudibleRange = (buffer: AudioBuffer, threshold: number, padding: number) => {
+  let first = buffer.length;
+  let last = -1;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < Math.min(first, data.length); i++) {
+      if (Math.abs(data[i]) > threshold) {
+        first = i;
+        break;
+      }
+    }
+    for (let i = data.length - 1; i > last; i--) {
+      if (Math.abs(data[i]) > threshold) {
+        last = i;
+        break;
+      }
+    }
+  }
+  if (last < first) {
+    return { start: 0, end: 0 };
+  }
+  return { start: Math.max(0, first - padding), end: Math.min(buffer.length, last + 1 + padding) };
+};
+
+/**
+ * Joins synthesized chunks into one buffer: edge silence is trimmed, each
+ * chunk gets a short fade so the joins don't click, and `gapAfter` seconds of
+ * silence follow it, the last chunk included. Parts must already share the
+ * context's sample rate.
+ */
+export const stitchAudioBuffers = (
+  context: BaseAudioContext,
+  parts: StitchPart[],
+  { fadeSeconds = 0.008, silenceThreshold = 0.004, paddingSeconds = 0.02, leadingSeconds = 0 }: StitchOptions = {},
+): StitchResult => {
+  const sampleRate = context.sampleRate;
+  const padding = Math.round(paddingSeconds * sampleRate);
+  const lead = Math.round(Math.max(0, leadingSeconds) * sampleRate);
+  const channels = Math.max(1, ...parts.map((part) => part.buffer.numberOfChannels));
+  const layout = parts.map((part) => {
+    const range = findAudibleRange(part.buffer, silenceThreshold, padding);
+    return { ...part, range, gap: Math.round(Math.max(0, part.gapAfter) * sampleRate) };
+  });
+  const length = layout.reduce((total, part) => total + (part.range.end - part.range.start) + part.gap, lead);
+
+  const output = context.createBuffer(channels, Math.max(1, length), sampleRate);
+  const ranges: StitchedRange[] = [];
+  let cursor = lead;
+  layout.forEach((part) => {
+    const size = part.range.end - part.range.start;
+    const fade = Math.min(Math.round(fadeSeconds * sampleRate), Math.floor(size / 2));
+    for (let channel = 0; channel < channels; channel++) {
+      const source = part.buffer.getChannelData(Math.min(channel, part.buffer.numberOfChannels - 1));
+      const target = output.getChannelData(channel);
+      target.set(source.subarray(part.range.start, part.range.end), cursor);
+      for (let i = 0; i < fade; i++) {
+        const gain = i / fade;
+        target[cursor + i] *= gain;
+        target[cursor + size - 1 - i] *= gain;
+      }
+    }
+    ranges.push({
+      start: cursor / sampleRate,
+      end: (cursor + size) / sampleRate,
+      sourceStart: part.range.start / sampleRate,
+    });
+    cursor += size + part.gap;
+  });
+
+  return { buffer: output, ranges };
+};
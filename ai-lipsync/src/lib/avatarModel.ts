@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRMLoaderPlugin, VRMUtils, type VRM, type VRMHumanBoneName } from '@pixiv/three-vrm';
+
+export const AVATAR_MODEL_EXTENSIONS = ['.glb', '.gltf', '.vrm'];
+
+export interface AvatarModelSource {
+  name: string;
+  url: string;
+}
+
+export interface LoadedAvatarModel {
+  scene: THREE.Group;
+  vrm: VRM | null;
+  // Morph target names for glTF models, expression names for VRM models.
+  morphTargets: string[];
+  // Node names for glTF models, humanoid bone names for VRM models.
+  bones: string[];
+}
+
+// The primitive rig spans roughly this height with its feet at FLOOR_Y; models are scaled to match.
+const TARGET_HEIGHT = 3.3;
+const FLOOR_Y = -1.45;
+
+export const isAvatarModelFile = (name: string) =>
+  AVATAR_MODEL_EXTENSIONS.some((extension) => name.toLowerCase().endsWith(extension));
+
+const fitToStage = (scene: THREE.Object3D) => {
+  scene.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(scene);
+  const size = box.getSize(new THREE.Vector3());
+  if (size.y <= 0) {
+    return;
+  }
+  const scale = TARGET_HEIGHT / size.y;
+  const center = box.getCenter(new THREE.Vector3());
+  scene.scale.multiplyScalar(scale);
+  scene.position.set(-center.x * scale, FLOOR_Y - box.min.y * scale, -center.z * scale);
+};
+
+const collectMorphTargets = (scene: THREE.Object3D) => {
+  const names = new Set<string>();
+  scene.traverse((object) => {
+    const dictionary = (object as THREE.Mesh).morphTargetDictionary;
+    if (dictionary) {
+      Object.keys(dictionary).forEach((name) => names.add(name));
+    }
+  });
+  return [...names];
+};
+
+const collectNodeNames = (scene: THREE.Object3D) => {
+  const names: string[] = [];
+  scene.traverse((object) => {
+    if (object.name) {
+      names.push(object.name);
+    }
+  });
+  return names;
+};
+
+/**
+ * Loads a glTF/GLB or VRM file. VRM models are detected by their extension
+ * data rather than the file name, so a VRM saved as .glb still gets expressions.
+ */
+export const loadAvatarModel = async (url: string): Promise<LoadedAvatarModel> => {
+  const loader = new GLTFLoader();
+  loader.register((parser) => new VRMLoaderPlugin(parser));
+  let gltf;
+  try {
+    gltf = await loader.loadAsync(url);
+  } catch (error) {
+    console.error(error);
+    throw new Error('Unable to read the 3D model. Use a GLB, glTF or VRM file.');
+  }
+
+  const vrm = (gltf.userData.vrm as VRM | undefined) ?? null;
+  const scene = vrm ? vrm.scene : gltf.scene;
+  if (vrm) {
+    VRMUtils.removeUnnecessaryVertices(scene);
+    VRMUtils.combineSkeletons(scene);
+    VRMUtils.rotateVRM0(vrm);
+    vrm.lookAt?.reset();
+    if (vrm.lookAt) {
+      vrm.lookAt.autoUpdate = false;
+    }
+  }
+  scene.traverse((object) => {
+    object.frustumCulled = false;
+    if ((object as THREE.Mesh).isMesh) {
+      object.castShadow = true;
+    }
+  });
+  fitToStage(scene);
+
+  return {
+    scene,
+    vrm,
+    morphTargets: vrm
+      ? (vrm.expressionManager?.expressions.map((expression) => expression.expressionName) ?? [])
+      : collectMorphTargets(scene),
+    bones: vrm
+      ? (Object.keys(vrm.humanoid.humanBones) as VRMHumanBoneName[]).filter((name) =>
+          vrm.humanoid.getNormalizedBoneNode(name),
+        )
+      : collectNodeNames(scene),
+  };
+};
+
+export const disposeAvatarModel = (model: LoadedAvatarModel) => {
+  VRMUtils.deepDispose(model.scene);
+};
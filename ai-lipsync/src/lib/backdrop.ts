@@ -0,0 +1,47 @@
+export type BackdropKind = 'image' | 'video';
+
+export interface BackdropSource {
+  name: string;
+  url: string;
+  kind: BackdropKind;
+}
+
+export type BackdropFit = 'fit' | 'fill';
+
+export interface BackdropStyle {
+  fit: BackdropFit;
+  // 0–1 strength of the blur applied to the backdrop.
+  blur: number;
+  // 0–1 share of the overscan margin the backdrop may shift by as the camera orbits.
+  parallax: number;
+}
+
+export const DEFAULT_BACKDROP_STYLE: BackdropStyle = { fit: 'fill', blur: 0, parallax: 0.6 };
+
+// Fill mode covers a view this much larger than the frame, leaving room for parallax.
+export const BACKDROP_OVERSCAN = 1.2;
+
+// Blur radius at full strength, as a fraction of the backdrop height.
+const MAX_BLUR = 0.03;
+
+export const backdropKindOf = (file: File): BackdropKind | null =>
+  file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : null;
+
+export const backdropBlurRadius = (blur: number, height: number) => blur * MAX_BLUR * height;
+
+/**
+ * Plane size in world units for media of `aspect` behind a view of
+ * `viewWidth` × `viewHeight`: covering it with overscan, or fitting inside it.
+ */
+export const backdropPlaneSize = (
+  aspect: number,
+  viewWidth: number,
+  viewHeight: number,
+  fit: BackdropFit,
+): [number, number] => {
+  const scale =
+    fit === 'fill'
+      ? Math.max(viewWidth / aspect, viewHeight) * BACKDROP_OVERSCAN
+      : Math.min(viewWidth / aspect, viewHeight);
+  return [scale * aspect, scale];
+};
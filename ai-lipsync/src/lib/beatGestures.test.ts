@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { AnimationTrack, PauseRegion } from './animationTrack';
+import {
+  BEAT_CHANNELS,
+  chooseGestureClip,
+  detectBeats,
+  GESTURE_CLIPS,
+  sampleBeatGestures,
+  type BeatEvent,
+} from './beatGestures';
+
+const FRAME_RATE = 100;
+
+// Syllables at 4.3 per second with every third one stressed, speaking only outside `pauses`.
+const speechTrack = (duration: number, pauses: PauseRegion[]): AnimationTrack => {
+  const frameCount = Math.round(duration * FRAME_RATE);
+  const energy = new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    const time = i / FRAME_RATE;
+    if (!pauses.some((pause) => time >= pause.start && time < pause.end)) {
+      const syllable = Math.floor(time * 4.3);
+      const stress = syllable % 3 === 0 ? 1 : 0.55;
+      energy[i] = 0.1 + stress * 0.9 * Math.exp(-((time * 4.3) % 1) * 4);
+    }
+  }
+  return {
+    frameRate: FRAME_RATE,
+    frameCount,
+    duration,
+    mouth: new Float32Array(frameCount),
+    energy,
+    visemes: new Float32Array(0),
+    pauses,
+  };
+};
+
+const PAUSES = [
+  { start: 0, end: 0.3 },
+  { start: 2.6, end: 3.3 },
+  { start: 5.6, end: 6 },
+];
+
+describe('detectBeats', () => {
+  const beats = detectBeats(speechTrack(6, PAUSES));
+
+  it('finds stressed syllables inside phrases', () => {
+    const stresses = beats.filter((beat) => beat.kind === 'stress');
+    expect(stresses.length).toBeGreaterThanOrEqual(6);
+    stresses.forEach((beat) => {
+      expect(PAUSES.some((pause) => beat.time > pause.start && beat.time < pause.end)).toBe(false);
+      expect(beat.strength).toBeGreaterThanOrEqual(0.35);
+    });
+  });
+
+  it('spaces stresses apart', () => {
+    const times = beats.filter((beat) => beat.kind === 'stress').map((beat) => beat.time);
+    times.slice(1).forEach((time, index) => expect(time - times[index]).toBeGreaterThanOrEqual(0.35));
+  });
+
+  it('marks phrase edges at pauses, but not at the ends of the audio', () => {
+    const edges = beats.filter((beat) => beat.kind !== 'stress');
+    expect(edges.map(({ time, kind }) => [time, kind])).toEqual([
+      [0.3, 'phrase-start'],
+      [2.6, 'phrase-end'],
+      [3.3, 'phrase-start'],
+      [5.6, 'phrase-end'],
+    ]);
+  });
+
+  it('sorts beats by time', () => {
+    beats.slice(1).forEach((beat, index) => expect(beat.time).toBeGreaterThanOrEqual(beats[index].time));
+  });
+
+  it('finds nothing in silence', () => {
+    expect(detectBeats(speechTrack(2, [{ start: 0, end: 2 }]))).toEqual([]);
+  });
+});
+
+describe('chooseGestureClip', () => {
+  const stress: BeatEvent = { time: 1, kind: 'stress', strength: 1 };
+
+  it('picks the same clip for the same seed', () => {
+    for (let index = 0; index < 20; index++) {
+      expect(chooseGestureClip(42, stress, index)).toBe(chooseGestureClip(42, stress, index));
+    }
+  });
+
+  it('picks clips that suit the beat', () => {
+    expect(chooseGestureClip(42, { time: 1, kind: 'phrase-start', strength: 1 }, 0)).toBe('brow-raise');
+    const ends = Array.from({ length: 20 }, (_, index) =>
+      chooseGestureClip(index, { time: 1, kind: 'phrase-end', strength: 1 }, 0),
+    );
+    expect(new Set(ends)).toEqual(new Set(['phrase-nod', 'head-tilt']));
+  });
+});
+
+describe('sampleBeatGestures', () => {
+  const beats = detectBeats(speechTrack(6, PAUSES));
+
+  it('is at rest without beats or intensity', () => {
+    const rest = Object.fromEntries(BEAT_CHANNELS.map((channel) => [channel, 0]));
+    expect(sampleBeatGestures([], 1, 1, 1)).toEqual(rest);
+    expect(sampleBeatGestures(beats, 1, 1, 0)).toEqual(rest);
+  });
+
+  it('lands each clip stroke on its beat', () => {
+    const beat: BeatEvent = { time: 2, kind: 'stress', strength: 1 };
+    const clip = GESTURE_CLIPS[chooseGestureClip(1, beat, 0)];
+    const pose = sampleBeatGestures([beat], 1, beat.time, 1);
+    const [channel, keys] = Object.entries(clip.channels)[0];
+    const strokeKey = keys.find(([time]) => time === clip.stroke);
+    expect(pose[channel as keyof typeof pose]).toBeCloseTo(strokeKey?.[1] ?? 0);
+  });
+
+  it('scales with intensity and stays within [-1, 1]', () => {
+    for (let time = 0; time < 6; time += 0.01) {
+      const full = sampleBeatGestures(beats, 1, time, 1);
+      const half = sampleBeatGestures(beats, 1, time, 0.5);
+      BEAT_CHANNELS.forEach((channel) => {
+        expect(Math.abs(full[channel])).toBeLessThanOrEqual(1);
+        expect(Math.abs(half[channel])).toBeLessThanOrEqual(Math.abs(full[channel]) + 1e-9);
+      });
+    }
+  });
+
+  it('repeats for the same seed', () => {
+    for (let time = 0; time < 6; time += 0.05) {
+      expect(sampleBeatGestures(beats, 7, time, 0.6)).toEqual(sampleBeatGestures(beats, 7, time, 0.6));
+    }
+  });
+});
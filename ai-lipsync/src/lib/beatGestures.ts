@@ -0,0 +1,248 @@
+import type { AnimationTrack } from './animationTrack';
+import { createSlotRandom } from './random';
+
+export type BeatKind = 'stress' | 'phrase-start' | 'phrase-end';
+
+export interface BeatEvent {
+  time: number;
+  kind: BeatKind;
+  // 0–1 prominence of the stressed syllable or boundary.
+  strength: number;
+}
+
+export const BEAT_CHANNELS = ['nod', 'turn', 'tilt', 'handBeat', 'brow'] as const;
+
+export type BeatChannel = (typeof BEAT_CHANNELS)[number];
+
+export type BeatPose = Record<BeatChannel, number>;
+
+/**
+ * A short, additive motion. Each channel is a list of `[time, value]` keys
+ * that start and end at rest, so overlapping clips blend without pops.
+ * `stroke` is the key the clip is aligned to, landing on the beat itself.
+ */
+export interface GestureClip {
+  duration: number;
+  stroke: number;
+  channels: Partial<Record<BeatChannel, [number, number][]>>;
+}
+
+export const GESTURE_CLIPS = {
+  'hand-beat': {
+    duration: 0.45,
+    stroke: 0.12,
+    channels: {
+      handBeat: [[0, 0], [0.12, 1], [0.22, -0.2], [0.45, 0]],
+      nod: [[0, 0], [0.14, 0.3], [0.45, 0]],
+    },
+  },
+  'head-nod': {
+    duration: 0.45,
+    stroke: 0.1,
+    channels: { nod: [[0, 0], [0.1, 1], [0.25, -0.3], [0.45, 0]] },
+  },
+  'double-nod': {
+    duration: 0.55,
+    stroke: 0.1,
+    channels: { nod: [[0, 0], [0.1, 0.8], [0.22, 0], [0.32, 0.6], [0.55, 0]] },
+  },
+  'head-tilt': {
+    duration: 0.7,
+    stroke: 0.2,
+    channels: {
+      tilt: [[0, 0], [0.2, 1], [0.7, 0]],
+      turn: [[0, 0], [0.2, 0.4], [0.7, 0]],
+    },
+  },
+  'brow-raise': {
+    duration: 0.6,
+    stroke: 0.1,
+    channels: { brow: [[0, 0], [0.1, 1], [0.35, 1], [0.6, 0]] },
+  },
+  'beat-and-brow': {
+    duration: 0.5,
+    stroke: 0.12,
+    channels: {
+      handBeat: [[0, 0], [0.12, 1], [0.22, -0.2], [0.45, 0]],
+      brow: [[0, 0], [0.1, 0.8], [0.3, 0.8], [0.5, 0]],
+    },
+  },
+  'phrase-nod': {
+    duration: 0.75,
+    stroke: 0.25,
+    channels: {
+      nod: [[0, 0], [0.25, 1], [0.75, 0]],
+      tilt: [[0, 0], [0.25, 0.3], [0.75, 0]],
+    },
+  },
+} satisfies Record<string, GestureClip>;
+
+export type GestureClipId = keyof typeof GESTURE_CLIPS;
+
+// Which clips each kind of beat picks from, with relative weights.
+const CLIP_CHOICES: Record<BeatKind, [GestureClipId, number][]> = {
+  stress: [
+    ['hand-beat', 3],
+    ['head-nod', 3],
+    ['beat-and-brow', 1],
+    ['double-nod', 1],
+    ['head-tilt', 1],
+  ],
+  'phrase-start': [['brow-raise', 1]],
+  'phrase-end': [['phrase-nod', 2], ['head-tilt', 1]],
+};
+
+const BEAT_STREAM = 3;
+const LONGEST_CLIP = Math.max(...Object.values(GESTURE_CLIPS).map((clip: GestureClip) => clip.duration));
+
+// Onset strength is the rise in energy over this window.
+const ONSET_SECONDS = 0.03;
+// Peaks must stand out this much from the surrounding second to count as stressed.
+const ONSET_CONTRAST = 1.5;
+const MIN_STRESS = 0.35;
+// Beat gestures fall on roughly every other stressed syllable at most.
+const MIN_BEAT_SPACING = 0.35;
+// Boundaries at the very start and end of the audio are not phrase breaks.
+const EDGE_SECONDS = 0.1;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const localMean = (values: Float32Array, radius: number) => {
+  const prefix = new Float64Array(values.length + 1);
+  values.forEach((value, index) => {
+    prefix[index + 1] = prefix[index] + value;
+  });
+  return values.map((_, index) => {
+    const from = Math.max(0, index - radius);
+    const to = Math.min(values.length, index + radius + 1);
+    return (prefix[to] - prefix[from]) / (to - from);
+  });
+};
+
+const detectStresses = (track: AnimationTrack): BeatEvent[] => {
+  const { energy, frameRate } = track;
+  const lag = Math.max(1, Math.round(ONSET_SECONDS * frameRate));
+  const onset = energy.map((value, index) => Math.max(0, value - energy[Math.max(0, index - lag)]));
+  const mean = localMean(onset, Math.round(frameRate / 2));
+  const peak = onset.reduce((max, value) => Math.max(max, value), 0);
+  if (peak <= 0) {
+    return [];
+  }
+
+  const candidates: BeatEvent[] = [];
+  for (let i = 1; i < onset.length - 1; i++) {
+    const value = onset[i];
+    if (value > onset[i - 1] && value >= onset[i + 1] && value > mean[i] * ONSET_CONTRAST) {
+      const strength = clamp01(value / peak);
+      if (strength >= MIN_STRESS) {
+        candidates.push({ time: i / frameRate, kind: 'stress', strength });
+      }
+    }
+  }
+  // Strongest first, so weaker onsets make way for the stresses next to them.
+  const accepted: BeatEvent[] = [];
+  for (const beat of candidates.sort((a, b) => b.strength - a.strength)) {
+    if (accepted.every((other) => Math.abs(other.time - beat.time) >= MIN_BEAT_SPACING)) {
+      accepted.push(beat);
+    }
+  }
+  return accepted;
+};
+
+const detectPhraseBoundaries = (track: AnimationTrack): BeatEvent[] =>
+  track.pauses.flatMap((pause) => {
+    const strength = clamp01((pause.end - pause.start) / 0.6);
+    const events: BeatEvent[] = [];
+    if (pause.start > EDGE_SECONDS) {
+      events.push({ time: pause.start, kind: 'phrase-end', strength });
+    }
+    if (pause.end < track.duration - EDGE_SECONDS) {
+      events.push({ time: pause.end, kind: 'phrase-start', strength });
+    }
+    return events;
+  });
+
+/**
+ * Finds stressed syllables (sharp rises in loudness that stand out from
+ * their surroundings) and phrase boundaries (the edges of pauses) in an
+ * analysed track, sorted by time.
+ */
+export const detectBeats = (track: AnimationTrack): BeatEvent[] =>
+  [...detectStresses(track), ...detectPhraseBoundaries(track)].sort((a, b) => a.time - b.time);
+
+/** The clip a beat plays; a given seed always picks the same one. */
+export const chooseGestureClip = (seed: number, beat: BeatEvent, index: number): GestureClipId => {
+  const choices = CLIP_CHOICES[beat.kind];
+  const total = choices.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = createSlotRandom(seed, index, BEAT_STREAM)() * total;
+  for (const [id, weight] of choices) {
+    pick -= weight;
+    if (pick < 0) {
+      return id;
+    }
+  }
+  return choices[choices.length - 1][0];
+};
+
+const sampleKeys = (keys: [number, number][], time: number) => {
+  for (let i = 1; i < keys.length; i++) {
+    const [end, to] = keys[i];
+    if (time <= end) {
+      const [start, from] = keys[i - 1];
+      const progress = end > start ? (time - start) / (end - start) : 1;
+      return from + (to - from) * progress * progress * (3 - 2 * progress);
+    }
+  }
+  return 0;
+};
+
+export const createBeatPose = (): BeatPose => ({ nod: 0, turn: 0, tilt: 0, handBeat: 0, brow: 0 });
+
+/**
+ * Sums the clips playing at `time`, each scaled by its beat's strength and
+ * `intensity`. `beats` must be sorted by time.
+ */
+export const sampleBeatGestures = (
+  beats: BeatEvent[],
+  seed: number,
+  time: number,
+  intensity: number,
+  target: BeatPose = createBeatPose(),
+): BeatPose => {
+  BEAT_CHANNELS.forEach((channel) => {
+    target[channel] = 0;
+  });
+  if (intensity <= 0 || !beats.length) {
+    return target;
+  }
+  // Clips start before their beat, so look ahead by the longest clip as well as behind.
+  let low = 0;
+  let high = beats.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (beats[middle].time < time - LONGEST_CLIP) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  for (let index = low; index < beats.length && beats[index].time <= time + LONGEST_CLIP; index++) {
+    const beat = beats[index];
+    const clip: GestureClip = GESTURE_CLIPS[chooseGestureClip(seed, beat, index)];
+    const local = time - (beat.time - clip.stroke);
+    if (local < 0 || local > clip.duration) {
+      continue;
+    }
+    const weight = beat.strength * intensity;
+    for (const channel of BEAT_CHANNELS) {
+      const keys = clip.channels[channel];
+      if (keys) {
+        target[channel] += sampleKeys(keys, local) * weight;
+      }
+    }
+  }
+  BEAT_CHANNELS.forEach((channel) => {
+    target[channel] = Math.max(-1, Math.min(1, target[channel]));
+  });
+  return target;
+};
@@ -0,0 +1,147 @@
+import { findCaption, type Caption } from './captions';
+
+export const CAPTION_FONTS = [
+  { id: 'sans', label: 'Sans', family: '"Helvetica Neue", Arial, sans-serif' },
+  { id: 'serif', label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+  { id: 'rounded', label: 'Rounded', family: 'ui-rounded, "Arial Rounded MT Bold", "Trebuchet MS", sans-serif' },
+  { id: 'mono', label: 'Mono', family: 'ui-monospace, Menlo, Consolas, monospace' },
+] as const;
+
+export type CaptionFontId = (typeof CAPTION_FONTS)[number]['id'];
+
+export const CAPTION_POSITIONS = ['top', 'middle', 'bottom'] as const;
+
+export type CaptionPosition = (typeof CAPTION_POSITIONS)[number];
+
+export const CAPTION_TREATMENTS = ['box', 'outline', 'shadow'] as const;
+
+export type CaptionTreatment = (typeof CAPTION_TREATMENTS)[number];
+
+export interface CaptionStyle {
+  font: CaptionFontId;
+  // Font size as a fraction of the frame height, so previews and exports match.
+  size: number;
+  position: CaptionPosition;
+  treatment: CaptionTreatment;
+  color: string;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  font: 'sans',
+  size: 0.05,
+  position: 'bottom',
+  treatment: 'box',
+  color: '#ffffff',
+};
+
+export const MIN_CAPTION_SIZE = 0.03;
+export const MAX_CAPTION_SIZE = 0.09;
+
+const MAX_LINES = 3;
+// Keeps captions clear of the frame edge and of platform UI along the bottom.
+const EDGE_MARGIN = 0.08;
+
+const wrapLines = (context: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines.length > MAX_LINES ? [...lines.slice(0, MAX_LINES - 1), lines.slice(MAX_LINES - 1).join(' ')] : lines;
+};
+
+/**
+ * Draws one caption onto a 2D context covering a `width` × `height` frame.
+ */
+export const drawCaption = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  style: CaptionStyle,
+  width: number,
+  height: number,
+) => {
+  const fontSize = Math.max(8, Math.round(style.size * height));
+  const family = CAPTION_FONTS.find((font) => font.id === style.font)?.family ?? CAPTION_FONTS[0].family;
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.35;
+
+  context.save();
+  context.font = `600 ${fontSize}px ${family}`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.lineJoin = 'round';
+
+  const lines = wrapLines(context, text, width * 0.84);
+  const blockHeight = lines.length * lineHeight;
+  const top =
+    style.position === 'top'
+      ? height * EDGE_MARGIN
+      : style.position === 'middle'
+        ? (height - blockHeight) / 2
+        : height * (1 - EDGE_MARGIN) - blockHeight;
+
+  lines.forEach((line, index) => {
+    const y = top + lineHeight * (index + 0.5);
+    if (style.treatment === 'box') {
+      const lineWidth = context.measureText(line).width + padding * 2;
+      context.fillStyle = 'rgba(0, 0, 0, 0.62)';
+      context.beginPath();
+      context.roundRect(width / 2 - lineWidth / 2, y - lineHeight / 2, lineWidth, lineHeight, padding * 0.6);
+      context.fill();
+    } else if (style.treatment === 'outline') {
+      context.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+      context.lineWidth = fontSize * 0.16;
+      context.strokeText(line, width / 2, y);
+    } else {
+      context.shadowColor = 'rgba(0, 0, 0, 0.85)';
+      context.shadowBlur = fontSize * 0.3;
+      context.shadowOffsetY = fontSize * 0.06;
+    }
+    context.fillStyle = style.color;
+    context.fillText(line, width / 2, y);
+  });
+  context.restore();
+};
+
+export interface CaptionCompositor {
+  canvas: HTMLCanvasElement;
+  draw: (time: number) => void;
+}
+
+/**
+ * Copies the preview canvas onto a 2D canvas and draws the caption for
+ * `time` on top; exports capture this canvas instead of the preview.
+ */
+export const createCaptionCompositor = (
+  source: HTMLCanvasElement,
+  captions: Caption[],
+  style: CaptionStyle,
+): CaptionCompositor => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Unable to draw captions in this browser.');
+  }
+  return {
+    canvas,
+    draw: (time) => {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(source, 0, 0, canvas.width, canvas.height);
+      const caption = findCaption(captions, time);
+      if (caption) {
+        drawCaption(context, caption.text, style, canvas.width, canvas.height);
+      }
+    },
+  };
+};
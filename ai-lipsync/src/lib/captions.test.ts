@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { WordTiming } from './alignment';
+import { buildCaptions, findCaption, formatSrt, formatVtt, type CaptionSource } from './captions';
+
+// Times every word of `source` back to back from `start`, `seconds` each.
+const timeWords = (source: CaptionSource, start: number, seconds = 0.3): WordTiming[] =>
+  [...source.text.matchAll(/\S+/g)].map((match, index) => ({
+    text: match[0].replace(/[^\w']/g, ''),
+    start: start + index * seconds,
+    end: start + (index + 1) * seconds,
+    charStart: source.start + (match.index ?? 0),
+    charEnd: source.start + (match.index ?? 0) + match[0].replace(/[^\w']+$/, '').length,
+  }));
+
+describe('buildCaptions', () => {
+  it('breaks after clause punctuation once a phrase is long enough', () => {
+    const source = { text: 'Thanks for coming along today, it means a lot to all of us.', start: 0 };
+    const captions = buildCaptions([source], timeWords(source, 0));
+    expect(captions.map((caption) => caption.text)).toEqual([
+      'Thanks for coming along today,',
+      'it means a lot to all of us.',
+    ]);
+    expect(captions[0]).toMatchObject({ start: 0, end: 1.5 });
+  });
+
+  it('never spans two sources', () => {
+    const first = { text: 'Hi.', start: 0 };
+    const second = { text: 'Bye now.', start: 4 };
+    const captions = buildCaptions([first, second], [...timeWords(first, 0), ...timeWords(second, 2)]);
+    expect(captions.map((caption) => caption.text)).toEqual(['Hi.', 'Bye now.']);
+  });
+
+  it('keeps short captions up for the minimum duration without overlapping the next', () => {
+    const first = { text: 'Hi.', start: 0 };
+    const second = { text: 'Bye.', start: 4 };
+    const captions = buildCaptions([first, second], [...timeWords(first, 0), ...timeWords(second, 0.5)]);
+    expect(captions.map((caption) => caption.end)).toEqual([0.5, 1.3]);
+  });
+
+  it('limits the characters per caption', () => {
+    const source = { text: 'one two three four five six seven eight nine ten eleven twelve thirteen', start: 0 };
+    const captions = buildCaptions([source], timeWords(source, 0), { maxChars: 20 });
+    captions.forEach((caption) => expect(caption.text.length).toBeLessThanOrEqual(20));
+    expect(captions.map((caption) => caption.text).join(' ')).toBe(source.text);
+  });
+});
+
+describe('findCaption', () => {
+  const captions = [
+    { start: 0, end: 1, text: 'a' },
+    { start: 2, end: 3, text: 'b' },
+  ];
+
+  it('finds the caption showing at a time', () => {
+    expect(findCaption(captions, 2.5)?.text).toBe('b');
+    expect(findCaption(captions, 1.5)).toBeNull();
+  });
+});
+
+describe('caption formats', () => {
+  const captions = [
+    { start: 0.5, end: 2.25, text: 'Hello <there> & you' },
+    { start: 3661.001, end: 3662, text: 'Later' },
+  ];
+
+  it('writes SRT', () => {
+    expect(formatSrt(captions)).toBe(
+      '1\n00:00:00,500 --> 00:00:02,250\nHello <there> & you\n\n2\n01:01:01,001 --> 01:01:02,000\nLater\n',
+    );
+  });
+
+  it('writes WebVTT with escaped cue text', () => {
+    expect(formatVtt(captions)).toBe(
+      'WEBVTT\n\n00:00:00.500 --> 00:00:02.250\nHello &lt;there&gt; &amp; you\n\n01:01:01.001 --> 01:01:02.000\nLater\n',
+    );
+  });
+});
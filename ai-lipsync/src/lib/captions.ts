@@ -0,0 +1,111 @@
+import type { WordTiming } from './alignment';
+
+export interface Caption {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Anything with a chunk of the spoken text and its offset, e.g. TTS segments.
+export interface CaptionSource {
+  text: string;
+  start: number;
+}
+
+interface CaptionOptions {
+  maxChars?: number;
+  maxDuration?: number;
+  minDuration?: number;
+}
+
+// Phrases shorter than this keep going past a comma rather than flashing by.
+const MIN_PHRASE_CHARS = 16;
+const CLAUSE_END = /[,;:—–]$/;
+
+const phraseText = (source: CaptionSource, first: WordTiming, last: WordTiming) => {
+  let end = last.charEnd - source.start;
+  // Carry the punctuation that follows the last word.
+  while (end < source.text.length && /[^\s]/.test(source.text[end])) {
+    end++;
+  }
+  return source.text.slice(first.charStart - source.start, end).replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Groups timed words into caption phrases. Captions never span two sources
+ * and break at clause punctuation, `maxChars` or `maxDuration`, whichever
+ * comes first.
+ */
+export const buildCaptions = (
+  sources: CaptionSource[],
+  words: WordTiming[],
+  { maxChars = 42, maxDuration = 5, minDuration = 0.8 }: CaptionOptions = {},
+): Caption[] => {
+  const captions: Caption[] = [];
+  sources.forEach((source, index) => {
+    const limit = sources[index + 1]?.start ?? Number.POSITIVE_INFINITY;
+    const sourceWords = words.filter((word) => word.charStart >= source.start && word.charStart < limit);
+    let phrase: WordTiming[] = [];
+    const flush = () => {
+      if (phrase.length) {
+        const first = phrase[0];
+        const last = phrase[phrase.length - 1];
+        captions.push({ start: first.start, end: last.end, text: phraseText(source, first, last) });
+        phrase = [];
+      }
+    };
+    for (const word of sourceWords) {
+      if (phrase.length) {
+        const text = phraseText(source, phrase[0], word);
+        const previous = phraseText(source, phrase[0], phrase[phrase.length - 1]);
+        if (
+          text.length > maxChars ||
+          word.end - phrase[0].start > maxDuration ||
+          (CLAUSE_END.test(previous) && previous.length >= MIN_PHRASE_CHARS)
+        ) {
+          flush();
+        }
+      }
+      phrase.push(word);
+    }
+    flush();
+  });
+
+  // Short phrases stay up a little longer, as long as they don't run into the next one.
+  return captions.map((caption, index) => ({
+    ...caption,
+    end: Math.max(caption.end, Math.min(caption.start + minDuration, captions[index + 1]?.start ?? Infinity)),
+  }));
+};
+
+export const findCaption = (captions: Caption[], time: number) =>
+  captions.find((caption) => time >= caption.start && time < caption.end) ?? null;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor(totalMs / 60_000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSrt = (captions: Caption[]) =>
+  captions
+    .map(
+      (caption, index) =>
+        `${index + 1}\n${formatTimestamp(caption.start, ',')} --> ${formatTimestamp(caption.end, ',')}\n${caption.text}\n`,
+    )
+    .join('\n');
+
+// WebVTT cue text is parsed for markup, so these need escaping; SRT players show text as is.
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const formatVtt = (captions: Caption[]) =>
+  `WEBVTT\n\n${captions
+    .map(
+      (caption) =>
+        `${formatTimestamp(caption.start, '.')} --> ${formatTimestamp(caption.end, '.')}\n${escapeVtt(caption.text)}\n`,
+    )
+    .join('\n')}`;
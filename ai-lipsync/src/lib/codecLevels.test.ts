@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { avcCodecString, vp9CodecString } from './codecLevels';
+import { EXPORT_FRAME_RATES, EXPORT_PRESETS, EXPORT_QUALITIES, resolveExportOutput } from './exportPresets';
+
+const stream = (width: number, height: number, fps: number, bitrate = 8_000_000) => ({ width, height, fps, bitrate });
+
+describe('avcCodecString', () => {
+  it('picks level 4.0 for 1080p30', () => {
+    expect(avcCodecString(stream(1920, 1080, 30))).toBe('avc1.640028');
+  });
+
+  it('moves up a level when the frame rate needs it', () => {
+    expect(avcCodecString(stream(1920, 1080, 60))).toBe('avc1.64002a');
+  });
+
+  it('picks level 5.1 and 5.2 for 4K', () => {
+    expect(avcCodecString(stream(3840, 2160, 30))).toBe('avc1.640033');
+    expect(avcCodecString(stream(3840, 2160, 60))).toBe('avc1.640034');
+  });
+
+  it('accounts for the bitrate', () => {
+    expect(avcCodecString(stream(1920, 1080, 30, 40_000_000))).toBe('avc1.640029');
+  });
+
+  it('fits vertical frames like landscape ones', () => {
+    expect(avcCodecString(stream(1080, 1920, 30))).toBe(avcCodecString(stream(1920, 1080, 30)));
+  });
+});
+
+describe('vp9CodecString', () => {
+  it('picks the level from the luma sample rate', () => {
+    expect(vp9CodecString(stream(1280, 720, 30, 4_000_000))).toBe('vp09.00.31.08');
+    expect(vp9CodecString(stream(1920, 1080, 30))).toBe('vp09.00.40.08');
+    expect(vp9CodecString(stream(1920, 1080, 60))).toBe('vp09.00.41.08');
+    expect(vp9CodecString(stream(3840, 2160, 30))).toBe('vp09.00.50.08');
+    expect(vp9CodecString(stream(3840, 2160, 60))).toBe('vp09.00.51.08');
+  });
+
+  it('accounts for the bitrate', () => {
+    expect(vp9CodecString(stream(1920, 1080, 30, 25_000_000))).toBe('vp09.00.41.08');
+  });
+});
+
+describe('export presets', () => {
+  it('all map to a declared level', () => {
+    for (const preset of EXPORT_PRESETS) {
+      for (const fps of EXPORT_FRAME_RATES) {
+        for (const quality of EXPORT_QUALITIES) {
+          const output = resolveExportOutput({ presetId: preset.id, fps, quality: quality.id });
+          const size = { ...output, bitrate: output.videoBitrate };
+          expect(avcCodecString(size)).not.toBe('avc1.64003e');
+          expect(vp9CodecString(size)).not.toBe('vp09.00.62.08');
+        }
+      }
+    }
+  });
+});
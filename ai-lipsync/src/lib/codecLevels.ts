@@ -0,0 +1,68 @@
+export interface VideoStreamSize {
+  width: number;
+  height: number;
+  fps: number;
+  bitrate: number;
+}
+
+// H.264 levels (Table A-1): level_idc, macroblocks per second, macroblocks per frame, High profile bitrate.
+const AVC_LEVELS: [number, number, number, number][] = [
+  [30, 40_500, 1_620, 12_500_000],
+  [31, 108_000, 3_600, 17_500_000],
+  [32, 216_000, 5_120, 25_000_000],
+  [40, 245_760, 8_192, 25_000_000],
+  [41, 245_760, 8_192, 62_500_000],
+  [42, 522_240, 8_704, 62_500_000],
+  [50, 589_824, 22_080, 168_750_000],
+  [51, 983_040, 36_864, 300_000_000],
+  [52, 2_073_600, 36_864, 300_000_000],
+  [60, 4_177_920, 139_264, 300_000_000],
+  [61, 8_355_840, 139_264, 600_000_000],
+  [62, 16_711_680, 139_264, 1_000_000_000],
+];
+
+// VP9 levels (Annex A): level, luma samples per second, luma samples per frame, bitrate, largest dimension.
+const VP9_LEVELS: [number, number, number, number, number][] = [
+  [10, 829_440, 36_864, 200_000, 512],
+  [11, 2_764_800, 73_728, 800_000, 768],
+  [20, 4_608_000, 122_880, 1_800_000, 960],
+  [21, 9_216_000, 245_760, 3_600_000, 1_344],
+  [30, 20_736_000, 552_960, 7_200_000, 2_048],
+  [31, 36_864_000, 983_040, 12_000_000, 2_752],
+  [40, 83_558_400, 2_228_224, 18_000_000, 4_160],
+  [41, 160_432_128, 2_228_224, 30_000_000, 4_160],
+  [50, 311_951_360, 8_912_896, 60_000_000, 8_384],
+  [51, 588_251_136, 8_912_896, 120_000_000, 8_384],
+  [52, 1_176_502_272, 8_912_896, 180_000_000, 8_384],
+  [60, 1_176_502_272, 35_651_584, 180_000_000, 16_832],
+  [61, 2_353_004_544, 35_651_584, 240_000_000, 16_832],
+  [62, 4_706_009_088, 35_651_584, 480_000_000, 16_832],
+];
+
+/**
+ * The H.264 High profile codec string at the lowest level that fits the
+ * stream; encoders reject frames too large or fast for the declared level.
+ */
+export const avcCodecString = ({ width, height, fps, bitrate }: VideoStreamSize) => {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const level =
+    AVC_LEVELS.find(
+      ([, perSecond, perFrame, maxBitrate]) =>
+        macroblocks <= perFrame && macroblocks * fps <= perSecond && bitrate <= maxBitrate,
+    ) ?? AVC_LEVELS[AVC_LEVELS.length - 1];
+  return `avc1.6400${level[0].toString(16).padStart(2, '0')}`;
+};
+
+/** The VP9 profile 0, 8-bit codec string at the lowest level that fits the stream. */
+export const vp9CodecString = ({ width, height, fps, bitrate }: VideoStreamSize) => {
+  const samples = width * height;
+  const level =
+    VP9_LEVELS.find(
+      ([, perSecond, perFrame, maxBitrate, maxDimension]) =>
+        samples <= perFrame &&
+        samples * fps <= perSecond &&
+        bitrate <= maxBitrate &&
+        Math.max(width, height) <= maxDimension,
+    ) ?? VP9_LEVELS[VP9_LEVELS.length - 1];
+  return `vp09.00.${level[0]}.08`;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEmotionTimeline,
+  removeKeyframe,
+  sampleEmotionChannel,
+  sampleEmotionTimeline,
+  upsertKeyframe,
+  type EasingKind,
+  type EmotionKeyframe,
+} from './emotionTimeline';
+
+const keyframe = (id: string, time: number, value: number, easing: EasingKind = 'linear'): EmotionKeyframe => ({
+  id,
+  time,
+  value,
+  easing,
+});
+
+const base = { happy: 0.2, sad: 0, angry: 0, surprised: 0, neutral: 0.5 };
+
+describe('sampleEmotionChannel', () => {
+  it('falls back when the channel has no keyframes', () => {
+    expect(sampleEmotionChannel([], 1, 0.4)).toBe(0.4);
+  });
+
+  it('holds the first value before and the last value after the keyed range', () => {
+    const keyframes = [keyframe('a', 1, 0.2), keyframe('b', 2, 0.8)];
+    expect(sampleEmotionChannel(keyframes, 0, 0.5)).toBe(0.2);
+    expect(sampleEmotionChannel(keyframes, 1, 0.5)).toBe(0.2);
+    expect(sampleEmotionChannel(keyframes, 2, 0.5)).toBe(0.8);
+    expect(sampleEmotionChannel(keyframes, 10, 0.5)).toBe(0.8);
+  });
+
+  it('starts and ends every easing on the keyframe values', () => {
+    for (const easing of ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+      const keyframes = [keyframe('a', 0, 0, easing), keyframe('b', 1, 1)];
+      expect(sampleEmotionChannel(keyframes, 0, 0.5)).toBe(0);
+      expect(sampleEmotionChannel(keyframes, 1e-9, 0.5)).toBeCloseTo(0, 6);
+      expect(sampleEmotionChannel(keyframes, 1 - 1e-9, 0.5)).toBeCloseTo(1, 6);
+      expect(sampleEmotionChannel(keyframes, 1, 0.5)).toBe(1);
+    }
+  });
+
+  it('shapes the curve with the easing of the earlier keyframe', () => {
+    const sampleAt = (easing: EasingKind, time: number) =>
+      sampleEmotionChannel([keyframe('a', 0, 0, easing), keyframe('b', 1, 1, 'step')], time, 0);
+    expect(sampleAt('linear', 0.25)).toBeCloseTo(0.25);
+    expect(sampleAt('easeIn', 0.25)).toBeLessThan(0.25);
+    expect(sampleAt('easeOut', 0.25)).toBeGreaterThan(0.25);
+    expect(sampleAt('easeInOut', 0.5)).toBeCloseTo(0.5);
+  });
+
+  it('holds the value until the next keyframe with step easing', () => {
+    const keyframes = [keyframe('a', 0, 0.1, 'step'), keyframe('b', 1, 0.9)];
+    expect(sampleEmotionChannel(keyframes, 0.5, 0)).toBe(0.1);
+    expect(sampleEmotionChannel(keyframes, 0.999, 0)).toBe(0.1);
+    expect(sampleEmotionChannel(keyframes, 1, 0)).toBe(0.9);
+  });
+
+  it('jumps at keyframes that share a time', () => {
+    const keyframes = [keyframe('a', 0, 0), keyframe('b', 1, 0.4), keyframe('c', 1, 0.9), keyframe('d', 2, 0.9)];
+    expect(sampleEmotionChannel(keyframes, 1, 0)).toBe(0.9);
+  });
+});
+
+describe('sampleEmotionTimeline', () => {
+  it('keeps the slider value for channels without keyframes', () => {
+    const timeline = upsertKeyframe(createEmotionTimeline(), 'sad', keyframe('a', 0, 0.7));
+    expect(sampleEmotionTimeline(timeline, 3, base)).toEqual({ ...base, sad: 0.7 });
+  });
+});
+
+describe('upsertKeyframe', () => {
+  it('keeps keyframes sorted by time', () => {
+    let timeline = createEmotionTimeline();
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('a', 2, 0.5));
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('b', 1, 0.5));
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('c', 3, 0.5));
+    expect(timeline.happy.map((item) => item.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('replaces a keyframe with the same id and re-sorts it', () => {
+    let timeline = createEmotionTimeline();
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('a', 1, 0.5));
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('b', 2, 0.5));
+    timeline = upsertKeyframe(timeline, 'happy', keyframe('a', 3, 0.6));
+    expect(timeline.happy.map((item) => [item.id, item.time, item.value])).toEqual([
+      ['b', 2, 0.5],
+      ['a', 3, 0.6],
+    ]);
+  });
+
+  it('clamps the time and value', () => {
+    const timeline = upsertKeyframe(createEmotionTimeline(), 'angry', keyframe('a', -1, 1.4));
+    expect(timeline.angry[0]).toMatchObject({ time: 0, value: 1 });
+  });
+
+  it('leaves the input timeline untouched', () => {
+    const timeline = createEmotionTimeline();
+    const next = upsertKeyframe(timeline, 'happy', keyframe('a', 1, 0.5));
+    expect(timeline.happy).toEqual([]);
+    expect(removeKeyframe(next, 'happy', 'a').happy).toEqual([]);
+    expect(next.happy).toHaveLength(1);
+  });
+});
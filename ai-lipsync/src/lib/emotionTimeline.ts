@@ -0,0 +1,93 @@
+import type { EmotionKey, EmotionState } from '../hooks/useAvatarEngine';
+
+export const EMOTION_KEYS: EmotionKey[] = ['happy', 'sad', 'angry', 'surprised', 'neutral'];
+
+export const EASING_KINDS = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'step'] as const;
+
+export type EasingKind = (typeof EASING_KINDS)[number];
+
+export interface EmotionKeyframe {
+  id: string;
+  time: number;
+  value: number;
+  // Curve used on the way from this keyframe to the next one.
+  easing: EasingKind;
+}
+
+export type EmotionTimeline = Record<EmotionKey, EmotionKeyframe[]>;
+
+const EASINGS: Record<EasingKind, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: (t) => 1 - (1 - t) ** 3,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  step: () => 0,
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+let keyframeCounter = 0;
+
+export const createKeyframeId = () => `kf-${Date.now().toString(36)}-${(keyframeCounter++).toString(36)}`;
+
+export const createEmotionTimeline = (): EmotionTimeline =>
+  EMOTION_KEYS.reduce((timeline, key) => {
+    timeline[key] = [];
+    return timeline;
+  }, {} as EmotionTimeline);
+
+export const hasEmotionKeyframes = (timeline: EmotionTimeline) =>
+  EMOTION_KEYS.some((key) => timeline[key].length > 0);
+
+export const sampleEmotionChannel = (keyframes: EmotionKeyframe[], time: number, fallback: number) => {
+  if (keyframes.length === 0) {
+    return fallback;
+  }
+  if (time <= keyframes[0].time) {
+    return keyframes[0].value;
+  }
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const current = keyframes[i];
+    const next = keyframes[i + 1];
+    if (time < next.time) {
+      const span = next.time - current.time;
+      const progress = span > 0 ? EASINGS[current.easing]((time - current.time) / span) : 1;
+      return current.value + (next.value - current.value) * progress;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+};
+
+/**
+ * Emotion mix at `time`. Channels without keyframes keep the static slider
+ * value from `base`; keyed channels hold their first/last value outside the
+ * keyed range.
+ */
+export const sampleEmotionTimeline = (
+  timeline: EmotionTimeline,
+  time: number,
+  base: EmotionState,
+): EmotionState =>
+  EMOTION_KEYS.reduce((state, key) => {
+    state[key] = clamp01(sampleEmotionChannel(timeline[key], time, base[key]));
+    return state;
+  }, {} as EmotionState);
+
+const sortKeyframes = (keyframes: EmotionKeyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+export const upsertKeyframe = (
+  timeline: EmotionTimeline,
+  key: EmotionKey,
+  keyframe: EmotionKeyframe,
+): EmotionTimeline => ({
+  ...timeline,
+  [key]: sortKeyframes([
+    ...timeline[key].filter((item) => item.id !== keyframe.id),
+    { ...keyframe, time: Math.max(0, keyframe.time), value: clamp01(keyframe.value) },
+  ]),
+});
+
+export const removeKeyframe = (timeline: EmotionTimeline, key: EmotionKey, id: string): EmotionTimeline => ({
+  ...timeline,
+  [key]: timeline[key].filter((item) => item.id !== id),
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_PRESETS, findExportPreset, resolveExportOutput } from './exportPresets';
+
+describe('resolveExportOutput', () => {
+  it('renders the preset size at the chosen frame rate', () => {
+    expect(resolveExportOutput({ presetId: 'vertical-1080', fps: 25, quality: 'standard' })).toMatchObject({
+      width: 1080,
+      height: 1920,
+      fps: 25,
+    });
+  });
+
+  it('gives 1080p30 at standard quality about 6 Mbps', () => {
+    expect(resolveExportOutput(DEFAULT_EXPORT_SETTINGS).videoBitrate).toBe(6_220_800);
+  });
+
+  it('scales the bitrate with the frame rate', () => {
+    const at30 = resolveExportOutput({ ...DEFAULT_EXPORT_SETTINGS, fps: 30 }).videoBitrate;
+    const at60 = resolveExportOutput({ ...DEFAULT_EXPORT_SETTINGS, fps: 60 }).videoBitrate;
+    expect(at60).toBe(at30 * 2);
+  });
+
+  it('scales the bitrate with the pixel count', () => {
+    const hd = resolveExportOutput({ ...DEFAULT_EXPORT_SETTINGS, presetId: 'landscape-1080' }).videoBitrate;
+    const uhd = resolveExportOutput({ ...DEFAULT_EXPORT_SETTINGS, presetId: 'landscape-4k' }).videoBitrate;
+    expect(uhd).toBe(hd * 4);
+  });
+
+  it('doubles the bitrate with each quality step', () => {
+    const [low, standard, high] = (['low', 'standard', 'high'] as const).map(
+      (quality) => resolveExportOutput({ ...DEFAULT_EXPORT_SETTINGS, quality }).videoBitrate,
+    );
+    expect(standard).toBe(low * 2);
+    expect(high).toBe(standard * 2);
+  });
+});
+
+describe('findExportPreset', () => {
+  it('falls back to the first preset for unknown ids', () => {
+    expect(findExportPreset('missing')).toBe(EXPORT_PRESETS[0]);
+  });
+});
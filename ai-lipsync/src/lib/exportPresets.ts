@@ -0,0 +1,53 @@
+export interface ExportPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'landscape-1080', label: '1920×1080 landscape', width: 1920, height: 1080 },
+  { id: 'vertical-1080', label: '1080×1920 vertical', width: 1080, height: 1920 },
+  { id: 'square-1080', label: '1080×1080 square', width: 1080, height: 1080 },
+  { id: 'landscape-4k', label: '3840×2160 4K', width: 3840, height: 2160 },
+];
+
+export const EXPORT_FRAME_RATES = [24, 25, 30, 60];
+
+export type ExportQuality = 'low' | 'standard' | 'high';
+
+// Bits per pixel per frame; the bitrate scales with resolution and frame rate.
+export const EXPORT_QUALITIES: { id: ExportQuality; label: string; bitsPerPixel: number }[] = [
+  { id: 'low', label: 'Low', bitsPerPixel: 0.05 },
+  { id: 'standard', label: 'Standard', bitsPerPixel: 0.1 },
+  { id: 'high', label: 'High', bitsPerPixel: 0.2 },
+];
+
+export interface ExportSettings {
+  presetId: string;
+  fps: number;
+  quality: ExportQuality;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  presetId: EXPORT_PRESETS[0].id,
+  fps: 30,
+  quality: 'standard',
+};
+
+// What an export renders and encodes, independent of the size of the preview on screen.
+export interface ExportOutput {
+  width: number;
+  height: number;
+  fps: number;
+  videoBitrate: number;
+}
+
+export const findExportPreset = (id: string) => EXPORT_PRESETS.find((preset) => preset.id === id) ?? EXPORT_PRESETS[0];
+
+export const resolveExportOutput = (settings: ExportSettings): ExportOutput => {
+  const { width, height } = findExportPreset(settings.presetId);
+  const bitsPerPixel =
+    EXPORT_QUALITIES.find((quality) => quality.id === settings.quality)?.bitsPerPixel ?? EXPORT_QUALITIES[1].bitsPerPixel;
+  return { width, height, fps: settings.fps, videoBitrate: Math.round(width * height * settings.fps * bitsPerPixel) };
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import type { EmotionState } from '../hooks/useAvatarEngine';
+import { createDriveLatch, eyeContactDirection, sampleBlink, sampleGaze, type EyeDrive, type EyeDriveAt } from './eyeBehavior';
+
+const NEUTRAL: EmotionState = { happy: 0, sad: 0, angry: 0, surprised: 0, neutral: 1 };
+
+const drive = (overrides: Partial<EyeDrive> = {}): EyeDriveAt => () => ({
+  emotions: NEUTRAL,
+  energy: 0,
+  inPause: false,
+  ...overrides,
+});
+
+// Speech that swells and breaks off every few seconds.
+const varyingDrive: EyeDriveAt = (time) => ({
+  emotions: NEUTRAL,
+  energy: 0.5 + 0.5 * Math.sin(time * 7.3),
+  inPause: time % 3 > 2.4,
+});
+
+// Blinks per minute over `minutes`, counted as closures starting.
+const blinkRate = (seed: number, eyeDrive: EyeDriveAt, minutes = 10) => {
+  let blinks = 0;
+  let closed = false;
+  for (let time = 0; time < minutes * 60; time += 1 / 60) {
+    const isClosed = sampleBlink(seed, time, eyeDrive) > 0.5;
+    if (isClosed && !closed) {
+      blinks++;
+    }
+    closed = isClosed;
+  }
+  return blinks / minutes;
+};
+
+describe('sampleBlink', () => {
+  it('is a pure function of seed, time and drive', () => {
+    for (let time = 0; time < 20; time += 0.137) {
+      expect(sampleBlink(7, time, drive())).toBe(sampleBlink(7, time, drive()));
+    }
+  });
+
+  it('blinks at a natural resting rate', () => {
+    const rate = blinkRate(3, drive());
+    expect(rate).toBeGreaterThan(10);
+    expect(rate).toBeLessThan(25);
+  });
+
+  it('blinks more in pauses and when sad, less while speaking', () => {
+    const resting = blinkRate(3, drive());
+    expect(blinkRate(3, drive({ inPause: true }))).toBeGreaterThan(resting);
+    expect(blinkRate(3, drive({ emotions: { ...NEUTRAL, sad: 1 } }))).toBeGreaterThan(resting);
+    expect(blinkRate(3, drive({ energy: 1 }))).toBeLessThan(resting);
+  });
+
+  it('stays within [0, 1]', () => {
+    for (let time = 0; time < 60; time += 0.01) {
+      const closure = sampleBlink(11, time, drive());
+      expect(closure).toBeGreaterThanOrEqual(0);
+      expect(closure).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('sampleGaze', () => {
+  it('is a pure function of seed, time and drive', () => {
+    for (let time = 0; time < 20; time += 0.137) {
+      expect(sampleGaze(7, time, drive())).toEqual(sampleGaze(7, time, drive()));
+    }
+  });
+
+  it('holds fixations and moves between them in quick saccades', () => {
+    let moving = 0;
+    let samples = 0;
+    let previous = sampleGaze(5, 0, drive());
+    for (let time = 0.001; time < 60; time += 0.001) {
+      const gaze = sampleGaze(5, time, drive());
+      if (Math.hypot(gaze[0] - previous[0], gaze[1] - previous[1]) > 1e-6) {
+        moving++;
+      }
+      samples++;
+      previous = gaze;
+    }
+    expect(moving / samples).toBeLessThan(0.1);
+  });
+
+  it('returns to the home point most of the time', () => {
+    const home: [number, number] = [0.4, -0.2];
+    let near = 0;
+    let samples = 0;
+    for (let time = 0; time < 120; time += 0.1) {
+      const gaze = sampleGaze(9, time, drive(), home);
+      if (Math.hypot(gaze[0] - home[0], gaze[1] - home[1]) < 0.1) {
+        near++;
+      }
+      samples++;
+    }
+    expect(near / samples).toBeGreaterThan(0.5);
+  });
+});
+
+describe('drive changes', () => {
+  // Follows `varyingDrive` until `from`, then switches to full energy in a pause.
+  const switchedAt =
+    (from: number): EyeDriveAt =>
+    (time) =>
+      time < from ? varyingDrive(time) : { emotions: { ...NEUTRAL, sad: 1 }, energy: 1, inPause: true };
+
+  it('leave blinks and fixations already under way alone', () => {
+    for (let from = 0.13; from < 30; from += 0.71) {
+      const switched = switchedAt(from);
+      // Until the next slot starts, nothing was decided after the switch.
+      const blinkSlotEnd = Math.ceil(from / 0.5) * 0.5;
+      const gazeSlotEnd = Math.ceil(from / 0.8) * 0.8;
+      for (let time = from; time < blinkSlotEnd; time += 1 / 60) {
+        expect(sampleBlink(4, time, switched)).toBe(sampleBlink(4, time, varyingDrive));
+      }
+      for (let time = from; time < gazeSlotEnd; time += 1 / 60) {
+        expect(sampleGaze(4, time, switched)).toEqual(sampleGaze(4, time, varyingDrive));
+      }
+    }
+  });
+
+  it('never pops a blink in or out between frames', () => {
+    let previous = 0;
+    for (let time = 0; time < 60; time += 1 / 60) {
+      const closure = sampleBlink(8, time, varyingDrive);
+      // Lids take at least 0.056 s to close, a bit over three frames.
+      expect(Math.abs(closure - previous)).toBeLessThan(0.6);
+      previous = closure;
+    }
+  });
+
+  it('only moves the gaze in one saccade per fixation', () => {
+    let previous = sampleGaze(8, 0, varyingDrive);
+    let saccades = 0;
+    let wasMoving = false;
+    for (let frame = 1; frame < 60 * 60; frame++) {
+      const gaze = sampleGaze(8, frame / 60, varyingDrive);
+      const moving = Math.hypot(gaze[0] - previous[0], gaze[1] - previous[1]) > 1e-6;
+      if (moving && !wasMoving) {
+        saccades++;
+      }
+      wasMoving = moving;
+      previous = gaze;
+    }
+    // One fixation starts in each 0.8 s slot.
+    expect(saccades).toBeLessThanOrEqual(Math.ceil(60 / 0.8));
+  });
+});
+
+describe('createDriveLatch', () => {
+  it('keeps the drive a slot first saw', () => {
+    const latch = createDriveLatch();
+    const quiet: EyeDrive = { emotions: NEUTRAL, energy: 0, inPause: true };
+    const loud: EyeDrive = { emotions: NEUTRAL, energy: 1, inPause: false };
+    expect(latch(quiet)(1.5)).toBe(quiet);
+    expect(latch(loud)(1.5)).toBe(quiet);
+    expect(latch(loud)(2)).toBe(loud);
+  });
+
+  it('gives live input the same continuity', () => {
+    const latch = createDriveLatch();
+    let previous = 0;
+    for (let time = 0; time < 60; time += 1 / 60) {
+      const closure = sampleBlink(8, time, latch(varyingDrive(time)));
+      expect(Math.abs(closure - previous)).toBeLessThan(0.6);
+      previous = closure;
+    }
+  });
+});
+
+describe('eyeContactDirection', () => {
+  it('looks straight ahead at a camera in front of the head', () => {
+    expect(eyeContactDirection({ position: [0, 0, 5], target: [0, 0, 0] }, [0, 0, 0])).toEqual([0, 0]);
+  });
+
+  it("counter-rotates against the head and clamps to the eyes' range", () => {
+    const [yaw] = eyeContactDirection({ position: [0, 0, 5], target: [0, 0, 0] }, [0, 0.1, 0]);
+    expect(yaw).toBeLessThan(0);
+    expect(eyeContactDirection({ position: [5, 0, 0], target: [0, 0, 0] }, [0, 0, 0])[0]).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import type { EmotionState } from '../hooks/useAvatarEngine';
+import { createSlotRandom } from './random';
+
+// What the eyes hold contact with, e.g. the active camera angle.
+export interface GazeTarget {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+export interface EyeDrive {
+  emotions: EmotionState;
+  energy: number;
+  // Between phrases, where blinks tend to cluster.
+  inPause: boolean;
+}
+
+/**
+ * The drive at any time. Each blink and fixation slot is decided once, from
+ * the drive at the slot's start, so a slot already under way doesn't change
+ * when the drive does.
+ */
+export type EyeDriveAt = (time: number) => EyeDrive;
+
+/**
+ * For live input, where earlier drives aren't known: each slot keeps the
+ * drive current when it was first sampled.
+ */
+export const createDriveLatch = (size = 16) => {
+  const drives = new Map<number, EyeDrive>();
+  return (current: EyeDrive): EyeDriveAt =>
+    (time) => {
+      let drive = drives.get(time);
+      if (!drive) {
+        drive = current;
+        drives.set(time, drive);
+        if (drives.size > size) {
+          drives.delete(drives.keys().next().value!);
+        }
+      }
+      return drive;
+    };
+};
+
+const BLINK_STREAM = 1;
+const GAZE_STREAM = 2;
+
+// At most one blink starts per slot.
+const BLINK_SLOT = 0.5;
+// A relaxed adult blinks about 17 times a minute.
+const BLINKS_PER_SECOND = 0.28;
+const MIN_BLINK_INTERVAL = 0.3;
+// Lids close fast, hold briefly and reopen about twice as slowly.
+const BLINK_CLOSE = 0.07;
+const BLINK_HOLD = 0.03;
+const BLINK_OPEN = 0.16;
+
+// Each slot holds one fixation starting somewhere in its first half.
+const FIXATION_SLOT = 0.8;
+const SACCADE_SECONDS = 0.045;
+
+// Eye rotation in radians at full `eyeDirection`, as in the default rig mapping.
+const EYE_RANGE: [number, number] = [0.35, 0.2];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const spread = (random: () => number, amount: number) => (random() * 2 - 1) * amount;
+
+interface Blink {
+  start: number;
+  // Stretches the whole blink; slower blinks read as tired or sad.
+  scale: number;
+  // Peak closure; some blinks don't close fully.
+  depth: number;
+}
+
+// Sadness and tension raise the rate, surprise and speaking hold it back, and pauses release it.
+const blinkChance = ({ emotions, energy, inPause }: EyeDrive) => {
+  const mood = Math.max(0.2, 1 + emotions.sad * 0.9 + emotions.angry * 0.3 - emotions.surprised * 0.5);
+  const speech = inPause ? 1.5 : 1 - energy * 0.4;
+  return BLINKS_PER_SECOND * mood * speech * BLINK_SLOT;
+};
+
+const blinkInSlot = (seed: number, slot: number, driveAt: EyeDriveAt): Blink | null => {
+  const drive = driveAt(slot * BLINK_SLOT);
+  const sad = drive.emotions.sad;
+  const random = createSlotRandom(seed, slot, BLINK_STREAM);
+  if (random() >= blinkChance(drive)) {
+    return null;
+  }
+  return {
+    start: (slot + random() * 0.9) * BLINK_SLOT,
+    scale: 0.8 + random() * 0.4 + sad * 0.3,
+    depth: random() < 0.15 ? 0.6 + random() * 0.3 : 1,
+  };
+};
+
+const blinkShape = ({ start, scale, depth }: Blink, time: number) => {
+  const elapsed = time - start;
+  const closed = BLINK_CLOSE * scale;
+  const held = closed + BLINK_HOLD * scale;
+  const opened = held + BLINK_OPEN * scale;
+  if (elapsed < 0 || elapsed >= opened) {
+    return 0;
+  }
+  if (elapsed < closed) {
+    return depth * Math.sin(((elapsed / closed) * Math.PI) / 2);
+  }
+  if (elapsed < held) {
+    return depth;
+  }
+  const progress = (elapsed - held) / (opened - held);
+  return depth * (1 - progress) * (1 - progress);
+};
+
+/**
+ * Lid closure in [0, 1] at `time`. Blinks start at seeded, irregular moments,
+ * so the same seed and drive always blink at the same times.
+ */
+export const sampleBlink = (seed: number, time: number, driveAt: EyeDriveAt) => {
+  const slot = Math.floor(time / BLINK_SLOT);
+  const previous = blinkInSlot(seed, slot - 1, driveAt);
+  let current = blinkInSlot(seed, slot, driveAt);
+  if (current && previous && current.start - previous.start < MIN_BLINK_INTERVAL) {
+    current = null;
+  }
+  return Math.max(previous ? blinkShape(previous, time) : 0, current ? blinkShape(current, time) : 0);
+};
+
+interface Fixation {
+  start: number;
+  target: [number, number];
+}
+
+const fixationInSlot = (seed: number, slot: number, driveAt: EyeDriveAt, home: [number, number]): Fixation => {
+  const random = createSlotRandom(seed, slot, GAZE_STREAM);
+  const start = (slot + random() * 0.5) * FIXATION_SLOT;
+  const { emotions, energy } = driveAt(slot * FIXATION_SLOT);
+  // Speakers glance away more while talking; surprise holds the gaze.
+  const awayChance = clamp(0.3 + energy * 0.3 - emotions.surprised * 0.2, 0.1, 0.7);
+  // Sadness lowers the gaze.
+  const drop = -emotions.sad * 0.35;
+  if (random() < awayChance) {
+    return { start, target: [spread(random, 0.7), clamp(spread(random, 0.45) + drop, -1, 1)] };
+  }
+  // Small corrective saccades around the home point.
+  return { start, target: [home[0] + spread(random, 0.06), home[1] + spread(random, 0.06) + drop * 0.3] };
+};
+
+/**
+ * Eye direction at `time`: fixations held for a seeded while, joined by quick
+ * saccades. Most fixations return to `home`, straight ahead or at the camera.
+ */
+export const sampleGaze = (
+  seed: number,
+  time: number,
+  driveAt: EyeDriveAt,
+  home: [number, number] = [0, 0],
+): [number, number] => {
+  let slot = Math.floor(time / FIXATION_SLOT);
+  let current = fixationInSlot(seed, slot, driveAt, home);
+  if (time < current.start) {
+    slot -= 1;
+    current = fixationInSlot(seed, slot, driveAt, home);
+  }
+  const previous = fixationInSlot(seed, slot - 1, driveAt, home);
+  const progress = clamp((time - current.start) / SACCADE_SECONDS, 0, 1);
+  const eased = 1 - (1 - progress) ** 3;
+  return [
+    previous.target[0] + (current.target[0] - previous.target[0]) * eased,
+    previous.target[1] + (current.target[1] - previous.target[1]) * eased,
+  ];
+};
+
+/**
+ * The eye direction that meets `gaze` from a head turned by `headRotation`,
+ * clamped to the eyes' range. The eyes counter-rotate as the head sways.
+ */
+export const eyeContactDirection = (
+  { position, target }: GazeTarget,
+  headRotation: [number, number, number],
+): [number, number] => {
+  const dx = position[0] - target[0];
+  const dy = position[1] - target[1];
+  const dz = position[2] - target[2];
+  const yaw = Math.atan2(dx, dz) - headRotation[1];
+  const pitch = Math.atan2(dy, Math.hypot(dx, dz)) + headRotation[0];
+  return [clamp(yaw / EYE_RANGE[0], -1, 1), clamp(pitch / EYE_RANGE[1], -1, 1)];
+};
@@ -0,0 +1,85 @@
+import { createFeatureExtractor, FEATURE_FRAME_SIZE, type SpectralFeatures } from './audioFeatures';
+import {
+  FEATURE_PROCESSOR_NAME,
+  FEATURE_PROCESSOR_STOP,
+  registerFeatureProcessor,
+  type FeatureProcessorOptions,
+} from '../worklets/featureProcessor';
+
+// 256 samples is about 5 ms at 48 kHz, well under a display frame.
+export const FEATURE_HOP_SIZE = 256;
+
+export interface FeatureFrame extends SpectralFeatures {
+  // Audio context time at the end of the analysed window.
+  time: number;
+}
+
+export type FeatureListener = (frame: FeatureFrame, hopSeconds: number) => void;
+
+export interface FeatureStream {
+  // Connect sources here; the node has no outputs.
+  input: AudioNode;
+  hopSeconds: number;
+  subscribe: (listener: FeatureListener) => () => void;
+  dispose: () => void;
+}
+
+const processorModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// Bundlers don't emit worklet entry points, so the module is assembled from the functions' source.
+const loadFeatureProcessor = (audioContext: BaseAudioContext) => {
+  let loading = processorModules.get(audioContext);
+  if (!loading) {
+    const source = `(${registerFeatureProcessor})(${createFeatureExtractor}, ${JSON.stringify(
+      FEATURE_PROCESSOR_NAME,
+    )}, ${JSON.stringify(FEATURE_PROCESSOR_STOP)});`;
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    loading = audioContext.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loading.catch(() => processorModules.delete(audioContext));
+    processorModules.set(audioContext, loading);
+  }
+  return loading;
+};
+
+/**
+ * Analyses whatever is connected to `input` on the audio thread and delivers
+ * RMS, zero-crossing rate, spectral centroid and band energies every
+ * `FEATURE_HOP_SIZE` samples, independent of the display frame rate.
+ */
+export const createFeatureStream = async (audioContext: AudioContext): Promise<FeatureStream> => {
+  if (!audioContext.audioWorklet) {
+    throw new Error('Audio worklets are not supported in this browser.');
+  }
+  await loadFeatureProcessor(audioContext);
+
+  const processorOptions: FeatureProcessorOptions = { frameSize: FEATURE_FRAME_SIZE, hopSize: FEATURE_HOP_SIZE };
+  const node = new AudioWorkletNode(audioContext, FEATURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions,
+  });
+  const hopSeconds = FEATURE_HOP_SIZE / audioContext.sampleRate;
+  const listeners = new Set<FeatureListener>();
+  node.port.onmessage = (event: MessageEvent<FeatureFrame>) => {
+    listeners.forEach((listener) => listener(event.data, hopSeconds));
+  };
+
+  return {
+    input: node,
+    hopSeconds,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      listeners.clear();
+      node.port.postMessage(FEATURE_PROCESSOR_STOP);
+      node.port.close();
+      node.disconnect();
+    },
+  };
+};
@@ -0,0 +1,171 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+export interface FFmpegTaskOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+interface FFmpegTask {
+  input: { name: string; data: Uint8Array };
+  output: string;
+  args: string[];
+}
+
+const FFMPEG_CORE_BASE_URL = process.env.NEXT_PUBLIC_FFMPEG_CORE_URL ?? '/ffmpeg';
+
+let instancePromise: Promise<FFmpeg> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+const abortError = () => new DOMException('FFmpeg task cancelled.', 'AbortError');
+
+// The worker only reports a generic failure when the core is missing, so check for it first.
+const assertCoreAvailable = async (coreURL: string) => {
+  const response = await fetch(coreURL, { method: 'HEAD' }).catch(() => null);
+  if (!response?.ok) {
+    throw new Error(
+      `FFmpeg core not found at ${FFMPEG_CORE_BASE_URL}. Run "node scripts/copy-ffmpeg-core.mjs" or set NEXT_PUBLIC_FFMPEG_CORE_URL.`,
+    );
+  }
+};
+
+const loadFFmpeg = () => {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (typeof window === 'undefined') {
+        throw new Error('FFmpeg is only available in the browser.');
+      }
+      const coreURL = `${FFMPEG_CORE_BASE_URL}/ffmpeg-core.js`;
+      await assertCoreAvailable(coreURL);
+      const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+      const ffmpeg = new FFmpeg();
+      await ffmpeg.load({ coreURL, wasmURL: `${FFMPEG_CORE_BASE_URL}/ffmpeg-core.wasm` });
+      return ffmpeg;
+    })().catch((error) => {
+      instancePromise = null;
+      throw error;
+    });
+  }
+  return instancePromise;
+};
+
+// Terminating the worker is the only way to stop a running exec; the next task reloads the core.
+const resetFFmpeg = async () => {
+  const pending = instancePromise;
+  instancePromise = null;
+  try {
+    (await pending)?.terminate();
+  } catch {
+    // Loading failed; nothing to terminate.
+  }
+};
+
+const runTask = async ({ input, output, args }: FFmpegTask, { onProgress, signal }: FFmpegTaskOptions) => {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+  const ffmpeg = await loadFFmpeg();
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress?.(Math.min(1, Math.max(0, progress)));
+  };
+  let cancelled = false;
+  const handleAbort = () => {
+    cancelled = true;
+    void resetFFmpeg();
+  };
+
+  ffmpeg.on('progress', handleProgress);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+  try {
+    await ffmpeg.writeFile(input.name, input.data);
+    const exitCode = await ffmpeg.exec(['-i', input.name, ...args, output]);
+    if (cancelled) {
+      throw abortError();
+    }
+    if (exitCode !== 0) {
+      throw new Error(`FFmpeg exited with code ${exitCode}.`);
+    }
+    const data = await ffmpeg.readFile(output);
+    if (typeof data === 'string') {
+      throw new Error('FFmpeg returned text instead of binary output.');
+    }
+    onProgress?.(1);
+    return data;
+  } catch (error) {
+    throw cancelled ? abortError() : error;
+  } finally {
+    signal?.removeEventListener('abort', handleAbort);
+    if (!cancelled) {
+      ffmpeg.off('progress', handleProgress);
+      await Promise.allSettled([ffmpeg.deleteFile(input.name), ffmpeg.deleteFile(output)]);
+    }
+  }
+};
+
+// The wasm core runs one command at a time, so tasks are serialised.
+const enqueue = <T>(job: () => Promise<T>) => {
+  const next = queue.then(job, job);
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+const fileExtension = (name: string, fallback: string) => {
+  const match = /\.([a-z0-9]+)$/i.exec(name);
+  return match ? match[1].toLowerCase() : fallback;
+};
+
+export interface Mp4ConversionOptions extends FFmpegTaskOptions {
+  fps?: number;
+  videoBitrate?: number;
+}
+
+export const convertWebMToMp4 = async (
+  blob: Blob,
+  { fps, videoBitrate, ...options }: Mp4ConversionOptions = {},
+) => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  // Recorded WebM has a variable frame rate; a target rate makes the MP4 constant.
+  const rateArgs = [
+    ...(fps ? ['-r', String(fps)] : []),
+    ...(videoBitrate ? ['-b:v', `${Math.round(videoBitrate / 1000)}k`] : []),
+  ];
+  const output = await enqueue(() =>
+    runTask(
+      {
+        input: { name: 'input.webm', data },
+        output: 'output.mp4',
+        args: [
+          '-c:v',
+          'libx264',
+          '-preset',
+          'veryfast',
+          '-pix_fmt',
+          'yuv420p',
+          ...rateArgs,
+          '-c:a',
+          'aac',
+          '-b:a',
+          '128k',
+          '-movflags',
+          '+faststart',
+        ],
+      },
+      options,
+    ),
+  );
+  return new Blob([output.slice()], { type: 'video/mp4' });
+};
+
+export const extractAudioFromVideo = async (file: File, options: FFmpegTaskOptions = {}) => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const output = await enqueue(() =>
+    runTask(
+      {
+        input: { name: `input.${fileExtension(file.name, 'mp4')}`, data },
+        output: 'output.wav',
+        args: ['-vn', '-ac', '2', '-ar', '48000', '-c:a', 'pcm_s16le'],
+      },
+      options,
+    ),
+  );
+  return output.slice().buffer;
+};
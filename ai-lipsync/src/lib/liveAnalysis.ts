@@ -0,0 +1,64 @@
+import type { AnimationTrackSample } from './animationTrack';
+import { createFeatureExtractor, FEATURE_FRAME_SIZE, type SpectralFeatures } from './audioFeatures';
+import { classifyVisemes, createVisemeWeights, VISEME_KEYS } from './visemes';
+
+export interface LiveAnalyzer {
+  frameSize: number;
+  analyze: (samples: Float32Array, sampleRate: number, deltaSeconds: number) => AnimationTrackSample;
+  // For features already extracted elsewhere, such as the feature worklet.
+  analyzeFeatures: (features: SpectralFeatures, deltaSeconds: number) => AnimationTrackSample;
+  reset: () => void;
+}
+
+const PAUSE_THRESHOLD = 0.08;
+const ATTACK_SECONDS = 0.02;
+const RELEASE_SECONDS = 0.07;
+const VISEME_SECONDS = 0.03;
+const PEAK_DECAY_SECONDS = 4;
+const MIN_REFERENCE = 0.01;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const follow = (current: number, target: number, timeConstant: number, delta: number) =>
+  current + (target - current) * (1 - Math.exp(-delta / timeConstant));
+
+/**
+ * Frame-by-frame counterpart to `analyzeAudioBuffer` for live input. There is
+ * no look-ahead, so loudness is normalised against a slowly decaying peak and
+ * smoothing is causal with a fast attack to keep latency low.
+ */
+export const createLiveAnalyzer = (): LiveAnalyzer => {
+  const extract = createFeatureExtractor(FEATURE_FRAME_SIZE);
+  const raw = createVisemeWeights();
+  const sample: AnimationTrackSample = { mouth: 0, energy: 0, visemes: createVisemeWeights(), inPause: true };
+  let reference = MIN_REFERENCE;
+
+  const analyzeFeatures = (features: SpectralFeatures, deltaSeconds: number) => {
+    const delta = Math.max(deltaSeconds, 1 / 240);
+    reference = Math.max(features.rms, MIN_REFERENCE, reference * Math.exp(-delta / PEAK_DECAY_SECONDS));
+    const normalized = clamp01(features.rms / reference);
+    const mouthTarget = clamp01(normalized * 1.6);
+
+    sample.energy = follow(sample.energy, normalized, normalized > sample.energy ? ATTACK_SECONDS : RELEASE_SECONDS, delta);
+    sample.mouth = follow(sample.mouth, mouthTarget, mouthTarget > sample.mouth ? ATTACK_SECONDS : RELEASE_SECONDS, delta);
+    classifyVisemes(features, normalized, raw);
+    for (const key of VISEME_KEYS) {
+      sample.visemes[key] = follow(sample.visemes[key], raw[key], VISEME_SECONDS, delta);
+    }
+    sample.inPause = sample.energy < PAUSE_THRESHOLD;
+    return sample;
+  };
+
+  return {
+    frameSize: FEATURE_FRAME_SIZE,
+    analyze: (samples, sampleRate, deltaSeconds) => analyzeFeatures(extract(samples, sampleRate), deltaSeconds),
+    analyzeFeatures,
+    reset: () => {
+      reference = MIN_REFERENCE;
+      sample.mouth = 0;
+      sample.energy = 0;
+      sample.visemes = createVisemeWeights();
+      sample.inPause = true;
+    },
+  };
+};
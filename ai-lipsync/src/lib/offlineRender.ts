@@ -0,0 +1,321 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebMTarget, Muxer as WebMMuxer } from 'webm-muxer';
+import { Zip, ZipPassThrough } from 'fflate';
+import { avcCodecString, vp9CodecString, type VideoStreamSize } from './codecLevels';
+import { encodeWav } from './wav';
+
+export type OfflineRenderFormat = 'webm' | 'mp4';
+
+export interface OfflineRenderOptions {
+  canvas: HTMLCanvasElement;
+  audioBuffer: AudioBuffer;
+  format: OfflineRenderFormat;
+  fps?: number;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  // Keeps the canvas alpha in the video. Only VP9 in WebM can carry it.
+  transparent?: boolean;
+  renderFrame: (time: number, frameIndex: number) => void | Promise<void>;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export type FrameSequenceOptions = Omit<
+  OfflineRenderOptions,
+  'format' | 'videoBitrate' | 'audioBitrate' | 'transparent'
+>;
+
+interface CodecProfile {
+  // The level in the codec string depends on the frame size, rate and bitrate.
+  video: (stream: VideoStreamSize) => string;
+  audio: string;
+  mimeType: string;
+}
+
+const CODECS: Record<OfflineRenderFormat, CodecProfile> = {
+  webm: { video: vp9CodecString, audio: 'opus', mimeType: 'video/webm' },
+  mp4: { video: avcCodecString, audio: 'mp4a.40.2', mimeType: 'video/mp4' },
+};
+
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK_FRAMES = 1024;
+const MAX_ENCODE_QUEUE = 8;
+
+export const isOfflineRenderSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof window.VideoEncoder !== 'undefined' &&
+  typeof window.AudioEncoder !== 'undefined' &&
+  typeof window.VideoFrame !== 'undefined';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException('Render cancelled.', 'AbortError');
+  }
+};
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise<void>((resolve) => encoder.addEventListener('dequeue', () => resolve(), { once: true }));
+  }
+};
+
+const resampleBuffer = async (buffer: AudioBuffer, sampleRate: number) => {
+  if (buffer.sampleRate === sampleRate) {
+    return buffer;
+  }
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    Math.ceil(buffer.duration * sampleRate),
+    sampleRate,
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+const downmix = async (buffer: AudioBuffer, channels: number) => {
+  const context = new OfflineAudioContext(channels, buffer.length, buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+const createMuxer = (
+  format: OfflineRenderFormat,
+  width: number,
+  height: number,
+  fps: number,
+  channels: number,
+  alpha: boolean,
+) => {
+  if (format === 'mp4') {
+    const target = new Mp4Target();
+    const muxer = new Mp4Muxer({
+      target,
+      video: { codec: 'avc', width, height, frameRate: fps },
+      audio: { codec: 'aac', numberOfChannels: channels, sampleRate: AUDIO_SAMPLE_RATE },
+      fastStart: 'in-memory',
+    });
+    return {
+      addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return target.buffer;
+      },
+    };
+  }
+  const target = new WebMTarget();
+  const muxer = new WebMMuxer({
+    target,
+    video: { codec: 'V_VP9', width, height, frameRate: fps, alpha },
+    audio: { codec: 'A_OPUS', numberOfChannels: channels, sampleRate: AUDIO_SAMPLE_RATE },
+  });
+  return {
+    addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return target.buffer;
+    },
+  };
+};
+
+const encodeAudio = async (
+  encoder: AudioEncoder,
+  buffer: AudioBuffer,
+  signal?: AbortSignal,
+) => {
+  const channels = buffer.numberOfChannels;
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    throwIfAborted(signal);
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+    const planar = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel++) {
+      planar.set(buffer.getChannelData(channel).subarray(offset, offset + frames), channel * frames);
+    }
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+  }
+};
+
+/**
+ * Steps the scene at a fixed timestep, encodes each frame with WebCodecs and
+ * muxes it with the audio buffer. Output only depends on the inputs, never on
+ * how quickly the machine renders.
+ */
+export const renderOffline = async ({
+  canvas,
+  audioBuffer,
+  format,
+  fps = 30,
+  videoBitrate = 8_000_000,
+  audioBitrate = 128_000,
+  transparent = false,
+  renderFrame,
+  onProgress,
+  signal,
+}: OfflineRenderOptions): Promise<Blob> => {
+  if (!isOfflineRenderSupported()) {
+    throw new Error('Offline rendering requires WebCodecs support.');
+  }
+  if (transparent && format === 'mp4') {
+    throw new Error('MP4 has no alpha channel.');
+  }
+  const profile = CODECS[format];
+  const width = canvas.width - (canvas.width % 2);
+  const height = canvas.height - (canvas.height % 2);
+  const audio = await resampleBuffer(audioBuffer, AUDIO_SAMPLE_RATE);
+  const channels = Math.min(audio.numberOfChannels, 2);
+
+  const videoConfig: VideoEncoderConfig = {
+    codec: profile.video({ width, height, fps, bitrate: videoBitrate }),
+    width,
+    height,
+    bitrate: videoBitrate,
+    framerate: fps,
+    latencyMode: 'quality',
+    alpha: transparent ? 'keep' : 'discard',
+  };
+  const audioConfig: AudioEncoderConfig = {
+    codec: profile.audio,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: channels,
+    bitrate: audioBitrate,
+  };
+  const [videoSupport, audioSupport] = await Promise.all([
+    VideoEncoder.isConfigSupported(videoConfig),
+    AudioEncoder.isConfigSupported(audioConfig),
+  ]);
+  if (!videoSupport.supported || !audioSupport.supported) {
+    throw new Error(`Browser cannot encode ${format.toUpperCase()} offline.`);
+  }
+
+  const muxer = createMuxer(format, width, height, fps, channels, transparent);
+  let encoderError: Error | null = null;
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+  const audioEncoder = new AudioEncoder({
+    output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+
+  try {
+    videoEncoder.configure(videoConfig);
+    audioEncoder.configure(audioConfig);
+
+    const totalFrames = Math.max(1, Math.ceil(audioBuffer.duration * fps));
+    const keyFrameInterval = fps * 2;
+    for (let frame = 0; frame < totalFrames; frame++) {
+      throwIfAborted(signal);
+      if (encoderError) {
+        throw encoderError;
+      }
+      const time = frame / fps;
+      await renderFrame(time, frame);
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round((frame * 1_000_000) / fps),
+        duration: Math.round(1_000_000 / fps),
+        visibleRect: { x: 0, y: 0, width, height },
+      });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % keyFrameInterval === 0 });
+      videoFrame.close();
+      await waitForQueue(videoEncoder);
+      onProgress?.(((frame + 1) / totalFrames) * 0.95);
+    }
+
+    const mixed = channels === audio.numberOfChannels ? audio : await downmix(audio, channels);
+    await encodeAudio(audioEncoder, mixed, signal);
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()]);
+    if (encoderError) {
+      throw encoderError;
+    }
+    onProgress?.(1);
+    return new Blob([muxer.finalize()], { type: profile.mimeType });
+  } finally {
+    if (videoEncoder.state !== 'closed') {
+      videoEncoder.close();
+    }
+    if (audioEncoder.state !== 'closed') {
+      audioEncoder.close();
+    }
+  }
+};
+
+const encodePng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Unable to encode a PNG frame.'));
+        return;
+      }
+      blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+
+/**
+ * Steps the scene like `renderOffline` but keeps every frame as a PNG with its
+ * alpha channel, zipped together with the audio as WAV.
+ */
+export const renderFrameSequence = async ({
+  canvas,
+  audioBuffer,
+  fps = 30,
+  renderFrame,
+  onProgress,
+  signal,
+}: FrameSequenceOptions): Promise<Blob> => {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let zipError: Error | null = null;
+  const zip = new Zip((error, data) => {
+    if (error) {
+      zipError = error;
+    } else {
+      chunks.push(data.slice());
+    }
+  });
+  // PNG and WAV barely compress, so entries are stored as they are.
+  const addFile = (name: string, data: Uint8Array) => {
+    const entry = new ZipPassThrough(name);
+    zip.add(entry);
+    entry.push(data, true);
+  };
+
+  const totalFrames = Math.max(1, Math.ceil(audioBuffer.duration * fps));
+  const digits = Math.max(5, String(totalFrames).length);
+  for (let frame = 0; frame < totalFrames; frame++) {
+    throwIfAborted(signal);
+    if (zipError) {
+      throw zipError;
+    }
+    await renderFrame(frame / fps, frame);
+    addFile(`frames/frame-${String(frame + 1).padStart(digits, '0')}.png`, await encodePng(canvas));
+    onProgress?.(((frame + 1) / totalFrames) * 0.95);
+  }
+  addFile('audio.wav', new Uint8Array(encodeWav(audioBuffer)));
+  zip.end();
+  if (zipError) {
+    throw zipError;
+  }
+  onProgress?.(1);
+  return new Blob(chunks, { type: 'application/zip' });
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { tokenizeWords, wordToVisemes, wordWeight } from './phonemes';
+
+const visemesOf = (word: string) => wordToVisemes(word).map((item) => item.viseme);
+
+describe('tokenizeWords', () => {
+  it('keeps contractions together and records character offsets', () => {
+    expect(tokenizeWords("Don't stop—now!")).toEqual([
+      { text: "Don't", charStart: 0, charEnd: 5 },
+      { text: 'stop', charStart: 6, charEnd: 10 },
+      { text: 'now', charStart: 11, charEnd: 14 },
+    ]);
+  });
+
+  it('returns nothing for punctuation only', () => {
+    expect(tokenizeWords('... !?')).toEqual([]);
+  });
+});
+
+describe('wordToVisemes', () => {
+  it('prefers digraphs over their single letters', () => {
+    expect(visemesOf('chip')).toEqual(['CH', 'ih', 'PP']);
+    expect(visemesOf('phone')).toEqual(['FF', 'oh', 'nn']);
+  });
+
+  it('folds a trailing silent e into the previous shape', () => {
+    expect(wordToVisemes('make').at(-1)).toMatchObject({ viseme: 'kk', charStart: 2, charEnd: 4 });
+  });
+
+  it('merges neighbouring graphemes with the same shape', () => {
+    expect(wordToVisemes('bump')).toEqual([
+      { viseme: 'PP', charStart: 0, charEnd: 1, weight: 1 },
+      { viseme: 'ou', charStart: 1, charEnd: 2, weight: 1.6 },
+      { viseme: 'PP', charStart: 2, charEnd: 4, weight: 1 },
+    ]);
+  });
+
+  it('ignores case and accents', () => {
+    expect(visemesOf('NAÏVE')).toEqual(visemesOf('naive'));
+  });
+});
+
+describe('wordWeight', () => {
+  it('weights vowels above consonants', () => {
+    expect(wordWeight('chip')).toBeCloseTo(3.6);
+  });
+
+  it('never drops below one', () => {
+    expect(wordWeight('h')).toBe(1);
+  });
+});
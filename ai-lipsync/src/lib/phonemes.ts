@@ -0,0 +1,119 @@
+import type { VisemeKey } from './visemes';
+
+export interface WordToken {
+  text: string;
+  charStart: number;
+  charEnd: number;
+}
+
+export interface GraphemeViseme {
+  viseme: VisemeKey;
+  charStart: number;
+  charEnd: number;
+  weight: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// Longest graphemes first so digraphs win over their single letters.
+const GRAPHEME_RULES: [string, VisemeKey][] = [
+  ['tch', 'CH'],
+  ['igh', 'aa'],
+  ['th', 'TH'],
+  ['sh', 'CH'],
+  ['ch', 'CH'],
+  ['ph', 'FF'],
+  ['ng', 'nn'],
+  ['ck', 'kk'],
+  ['qu', 'kk'],
+  ['wh', 'ou'],
+  ['oo', 'ou'],
+  ['ou', 'aa'],
+  ['ow', 'oh'],
+  ['oa', 'oh'],
+  ['au', 'oh'],
+  ['aw', 'oh'],
+  ['ee', 'ih'],
+  ['ea', 'ih'],
+  ['ie', 'ih'],
+  ['ai', 'E'],
+  ['ay', 'E'],
+  ['ey', 'E'],
+  ['er', 'RR'],
+  ['ir', 'RR'],
+  ['ur', 'RR'],
+  ['a', 'aa'],
+  ['e', 'E'],
+  ['i', 'ih'],
+  ['o', 'oh'],
+  ['u', 'ou'],
+  ['y', 'ih'],
+  ['b', 'PP'],
+  ['m', 'PP'],
+  ['p', 'PP'],
+  ['f', 'FF'],
+  ['v', 'FF'],
+  ['d', 'DD'],
+  ['t', 'DD'],
+  ['l', 'DD'],
+  ['c', 'kk'],
+  ['g', 'kk'],
+  ['k', 'kk'],
+  ['q', 'kk'],
+  ['x', 'kk'],
+  ['j', 'CH'],
+  ['s', 'SS'],
+  ['z', 'SS'],
+  ['n', 'nn'],
+  ['r', 'RR'],
+  ['w', 'ou'],
+];
+
+const VOWEL_VISEMES = new Set<VisemeKey>(['aa', 'E', 'ih', 'oh', 'ou', 'RR']);
+
+export const tokenizeWords = (text: string): WordToken[] =>
+  Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    text: match[0],
+    charStart: match.index ?? 0,
+    charEnd: (match.index ?? 0) + match[0].length,
+  }));
+
+/**
+ * Rough English grapheme-to-viseme pass. It is not a pronunciation
+ * dictionary, but it gets lip closures, fricatives and vowel shapes in the
+ * right order, which is what the mouth needs. Offsets are relative to `word`.
+ */
+export const wordToVisemes = (word: string): GraphemeViseme[] => {
+  const lower = word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+  const result: GraphemeViseme[] = [];
+  let index = 0;
+  while (index < lower.length) {
+    const isSilentE = lower[index] === 'e' && index === lower.length - 1 && lower.length > 2;
+    const rule = isSilentE ? undefined : GRAPHEME_RULES.find(([grapheme]) => lower.startsWith(grapheme, index));
+    if (!rule) {
+      // Silent letters (h, trailing e, digits, apostrophes) stretch the previous shape.
+      if (result.length > 0) {
+        result[result.length - 1].charEnd = index + 1;
+      }
+      index += 1;
+      continue;
+    }
+    const [grapheme, viseme] = rule;
+    const previous = result[result.length - 1];
+    if (previous && previous.viseme === viseme && previous.charEnd === index) {
+      previous.charEnd = index + grapheme.length;
+    } else {
+      result.push({
+        viseme,
+        charStart: index,
+        charEnd: index + grapheme.length,
+        weight: VOWEL_VISEMES.has(viseme) ? 1.6 : 1,
+      });
+    }
+    index += grapheme.length;
+  }
+  return result;
+};
+
+export const wordWeight = (word: string) =>
+  Math.max(1, wordToVisemes(word).reduce((total, item) => total + item.weight, 0));
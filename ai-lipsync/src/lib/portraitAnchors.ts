@@ -0,0 +1,112 @@
+export const PORTRAIT_ANCHOR_KEYS = ['leftEye', 'rightEye', 'mouthLeft', 'mouthRight', 'chin'] as const;
+
+export type PortraitAnchorKey = (typeof PORTRAIT_ANCHOR_KEYS)[number];
+
+export interface AnchorPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Facial landmarks in normalised image coordinates (0–1, origin top-left).
+ * "Left" means the left side of the image, not the subject's left.
+ */
+export type PortraitAnchors = Record<PortraitAnchorKey, AnchorPoint>;
+
+export type FaceRigMode = 'sphere' | 'portrait';
+
+// Typical proportions of a centred, front-facing head-and-shoulders portrait.
+export const DEFAULT_PORTRAIT_ANCHORS: PortraitAnchors = {
+  leftEye: { x: 0.4, y: 0.4 },
+  rightEye: { x: 0.6, y: 0.4 },
+  mouthLeft: { x: 0.45, y: 0.6 },
+  mouthRight: { x: 0.55, y: 0.6 },
+  chin: { x: 0.5, y: 0.72 },
+};
+
+// Minimal typing for the Shape Detection API, which only some Chromium builds ship.
+interface DetectedLandmark {
+  type: 'eye' | 'mouth' | 'nose';
+  locations: { x: number; y: number }[];
+}
+
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks: DetectedLandmark[];
+}
+
+interface FaceDetectorLike {
+  detect: (image: ImageBitmapSource) => Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+const clampPoint = ({ x, y }: AnchorPoint): AnchorPoint => ({
+  x: Math.min(1, Math.max(0, x)),
+  y: Math.min(1, Math.max(0, y)),
+});
+
+const centroid = (points: { x: number; y: number }[]) => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Unable to read the portrait image.'));
+    image.src = url;
+  });
+
+// Places anchors from a face bounding box using the same proportions as the defaults.
+const anchorsFromBox = (box: DOMRectReadOnly, width: number, height: number): PortraitAnchors => {
+  const point = (x: number, y: number) => clampPoint({ x: (box.x + box.width * x) / width, y: (box.y + box.height * y) / height });
+  return {
+    leftEye: point(0.3, 0.38),
+    rightEye: point(0.7, 0.38),
+    mouthLeft: point(0.36, 0.76),
+    mouthRight: point(0.64, 0.76),
+    chin: point(0.5, 1),
+  };
+};
+
+/**
+ * Finds the face in a portrait with the browser's FaceDetector when it is
+ * available, and falls back to typical portrait proportions otherwise.
+ */
+export const detectPortraitAnchors = async (url: string): Promise<PortraitAnchors> => {
+  const Detector = (globalThis as { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!Detector) {
+    return DEFAULT_PORTRAIT_ANCHORS;
+  }
+  try {
+    const image = await loadImage(url);
+    const [face] = await new Detector({ maxDetectedFaces: 1 }).detect(image);
+    if (!face) {
+      return DEFAULT_PORTRAIT_ANCHORS;
+    }
+    const width = image.naturalWidth;
+    const height = image.naturalHeight;
+    const anchors = anchorsFromBox(face.boundingBox, width, height);
+    const eyes = face.landmarks
+      .filter((landmark) => landmark.type === 'eye')
+      .map((landmark) => centroid(landmark.locations))
+      .sort((a, b) => a.x - b.x);
+    if (eyes.length === 2) {
+      anchors.leftEye = clampPoint({ x: eyes[0].x / width, y: eyes[0].y / height });
+      anchors.rightEye = clampPoint({ x: eyes[1].x / width, y: eyes[1].y / height });
+    }
+    const mouth = face.landmarks.find((landmark) => landmark.type === 'mouth');
+    if (mouth && mouth.locations.length > 1) {
+      const xs = mouth.locations.map((location) => location.x);
+      const y = centroid(mouth.locations).y / height;
+      anchors.mouthLeft = clampPoint({ x: Math.min(...xs) / width, y });
+      anchors.mouthRight = clampPoint({ x: Math.max(...xs) / width, y });
+    }
+    return anchors;
+  } catch (error) {
+    console.error(error);
+    return DEFAULT_PORTRAIT_ANCHORS;
+  }
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createEmotionTimeline } from './emotionTimeline';
+import { DEFAULT_PORTRAIT_ANCHORS } from './portraitAnchors';
+import { createProjectDocument, parseProject, PROJECT_FORMAT, PROJECT_VERSION, type ProjectFields } from './project';
+
+// A project as the first version of the format saved it.
+const versionOneDocument = () => ({
+  format: PROJECT_FORMAT,
+  version: 1,
+  name: 'Greeting',
+  savedAt: '2025-01-01T00:00:00.000Z',
+  face: { mode: 'upload', name: 'me.png', dataUrl: 'data:image/png;base64,AAAA' },
+  emotions: { happy: 0.6, sad: 0, angry: 0, surprised: 0.1, neutral: 0.3 },
+  gestureSeed: 0.25,
+  volume: 0.8,
+  scene: { backgroundId: 'studio', cameraAngleId: 'front' },
+  tts: { text: 'Hello there.', voice: 'en-US', provider: null, pauses: { sentence: 0.25, clause: 0.12, word: 0 } },
+  audio: { source: 'reference', name: 'hello.wav', url: null },
+  speech: {
+    segments: [
+      {
+        text: 'Hello there.',
+        start: 0,
+        end: 12,
+        boundary: 'end',
+        startTime: 0,
+        endTime: 0.9,
+        timingSource: 'estimated',
+      },
+    ],
+    timeline: { words: [{ text: 'Hello', start: 0, end: 0.4, charStart: 0, charEnd: 5 }], phonemes: [] },
+  },
+});
+
+const currentFields = (): ProjectFields => ({
+  name: 'Current',
+  face: { mode: 'preset', presetId: 'nova' },
+  emotions: { happy: 0.2, sad: 0.1, angry: 0, surprised: 0, neutral: 0.7 },
+  autoEmotion: true,
+  emotionTimeline: {
+    ...createEmotionTimeline(),
+    happy: [{ id: 'kf-1', time: 1.5, value: 0.9, easing: 'easeInOut' }],
+  },
+  gestureSeed: 123456789,
+  gestureIntensity: 0.6,
+  volume: 1,
+  scene: { backgroundId: 'studio', cameraAngleId: 'close' },
+  tts: { text: '[happy] Hi!', voice: 'en-GB', provider: 'openai', pauses: { sentence: 0.3, clause: 0.1, word: 0 } },
+  audio: { source: 'embedded', name: 'take.wav', dataUrl: 'data:audio/wav;base64,AAAA' },
+  speech: null,
+});
+
+describe('parseProject', () => {
+  it('migrates a version 1 document to the current version', () => {
+    const project = parseProject(JSON.stringify(versionOneDocument()));
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.emotionTimeline).toEqual(createEmotionTimeline());
+    expect(project.face).toEqual({
+      mode: 'upload',
+      name: 'me.png',
+      dataUrl: 'data:image/png;base64,AAAA',
+      rig: 'sphere',
+      anchors: DEFAULT_PORTRAIT_ANCHORS,
+    });
+    expect(project.autoEmotion).toBe(false);
+    expect(project.speech?.gestures).toEqual([]);
+    expect(project.gestureIntensity).toBe(0);
+    expect(project.gestureSeed).toBe(0.25);
+  });
+
+  it('migrates from each intermediate version', () => {
+    const versionOne = versionOneDocument();
+    const steps = [
+      { emotionTimeline: createEmotionTimeline() },
+      { face: { ...versionOne.face, rig: 'portrait', anchors: DEFAULT_PORTRAIT_ANCHORS } },
+      { autoEmotion: true },
+      { speech: { ...versionOne.speech, gestures: [{ time: 0.2, gesture: 'wave' }] } },
+    ];
+    let document: Record<string, unknown> = versionOne;
+    steps.forEach((step, index) => {
+      document = { ...document, ...step, version: index + 2 };
+      const project = parseProject(JSON.stringify(document));
+      expect(project.version).toBe(PROJECT_VERSION);
+      expect(project.gestureIntensity).toBe(0);
+    });
+    const fromFive = parseProject(JSON.stringify(document));
+    expect(fromFive.face).toMatchObject({ rig: 'portrait' });
+    expect(fromFive.autoEmotion).toBe(true);
+    expect(fromFive.speech?.gestures).toEqual([{ time: 0.2, gesture: 'wave' }]);
+  });
+
+  it('reads back what createProjectDocument writes', () => {
+    const document = createProjectDocument(currentFields());
+    expect(parseProject(JSON.stringify(document))).toEqual(document);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseProject('not json')).toThrow('Project file is not valid JSON.');
+    expect(() => parseProject(JSON.stringify({ format: 'other', version: 1 }))).toThrow(
+      'This file is not an AI lipsync project.',
+    );
+    expect(() => parseProject(JSON.stringify({ ...versionOneDocument(), version: PROJECT_VERSION + 1 }))).toThrow(
+      `Project version ${PROJECT_VERSION + 1} is newer than this app supports (${PROJECT_VERSION}).`,
+    );
+  });
+
+  it('names the field that fails validation', () => {
+    const document = { ...createProjectDocument(currentFields()), gestureIntensity: 2 };
+    expect(() => parseProject(JSON.stringify(document))).toThrow(
+      'Invalid project file: gestureIntensity must be a number between 0 and 1.',
+    );
+  });
+});
@@ -0,0 +1,337 @@
+import type { EmotionState, SpeechPauses, SpeechSegmentTiming } from '../hooks/useAvatarEngine';
+import type { PhonemeTiming, SpeechTimeline, WordTiming } from './alignment';
+import {
+  EASING_KINDS,
+  EMOTION_KEYS,
+  createEmotionTimeline,
+  type EmotionKeyframe,
+  type EmotionTimeline,
+} from './emotionTimeline';
+import {
+  DEFAULT_PORTRAIT_ANCHORS,
+  PORTRAIT_ANCHOR_KEYS,
+  type AnchorPoint,
+  type FaceRigMode,
+  type PortraitAnchors,
+} from './portraitAnchors';
+import { GESTURE_KINDS, type GestureCue } from './scriptMarkup';
+import { TTS_PROVIDER_IDS, type TtsProviderId } from './tts/types';
+import { VISEME_KEYS, type VisemeKey } from './visemes';
+
+export const PROJECT_FORMAT = 'ai-lipsync/project';
+export const PROJECT_VERSION = 6;
+export const PROJECT_FILE_EXTENSION = '.lipsync.json';
+
+export type ProjectFace =
+  | { mode: 'preset'; presetId: string }
+  | { mode: 'upload'; name: string; dataUrl: string; rig: FaceRigMode; anchors: PortraitAnchors };
+
+export type ProjectAudio =
+  | { source: 'embedded'; name: string; dataUrl: string }
+  | { source: 'reference'; name: string; url: string | null };
+
+export interface ProjectSpeech {
+  segments: SpeechSegmentTiming[];
+  timeline: SpeechTimeline;
+  // Gestures cued by script tags such as `[wave]`.
+  gestures: GestureCue[];
+}
+
+export interface ProjectDocument {
+  format: typeof PROJECT_FORMAT;
+  version: typeof PROJECT_VERSION;
+  name: string;
+  savedAt: string;
+  face: ProjectFace;
+  emotions: EmotionState;
+  // Derive the emotion mix from the voice, with `emotions` acting as a bias.
+  autoEmotion: boolean;
+  emotionTimeline: EmotionTimeline;
+  gestureSeed: number;
+  // 0–1 scale of the beat gestures cued by the audio.
+  gestureIntensity: number;
+  volume: number;
+  scene: {
+    backgroundId: string;
+    cameraAngleId: string;
+  };
+  tts: {
+    text: string;
+    voice: string;
+    provider: TtsProviderId | null;
+    pauses: SpeechPauses;
+  };
+  audio: ProjectAudio | null;
+  speech: ProjectSpeech | null;
+}
+
+type UnknownDocument = Record<string, unknown>;
+
+// Each entry upgrades a document from version `n` to `n + 1`.
+const MIGRATIONS: Record<number, (document: UnknownDocument) => UnknownDocument> = {
+  1: (document) => ({ ...document, emotionTimeline: createEmotionTimeline() }),
+  // Uploaded faces used to be wrapped on the sphere; keep them that way.
+  2: (document) => {
+    const face = document.face as UnknownDocument | undefined;
+    return face?.mode === 'upload'
+      ? { ...document, face: { ...face, rig: 'sphere', anchors: DEFAULT_PORTRAIT_ANCHORS } }
+      : document;
+  },
+  3: (document) => ({ ...document, autoEmotion: false }),
+  4: (document) =>
+    document.speech ? { ...document, speech: { ...(document.speech as UnknownDocument), gestures: [] } } : document,
+  // Takes saved before beat gestures keep playing without them.
+  5: (document) => ({ ...document, gestureIntensity: 0 }),
+};
+
+const SEGMENT_BOUNDARIES = ['sentence', 'clause', 'word', 'end'] as const;
+const TIMING_SOURCES = ['provider', 'estimated'] as const;
+const FACE_RIG_MODES: FaceRigMode[] = ['sphere', 'portrait'];
+
+const invalid = (path: string, expectation: string): never => {
+  throw new Error(`Invalid project file: ${path} ${expectation}.`);
+};
+
+const readObject = (value: unknown, path: string): UnknownDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as UnknownDocument)
+    : invalid(path, 'must be an object');
+
+const readArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : invalid(path, 'must be an array');
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : invalid(path, 'must be a string');
+
+const readNumber = (value: unknown, path: string, min = -Infinity, max = Infinity): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : invalid(path, `must be a number between ${min} and ${max}`);
+
+const readBoolean = (value: unknown, path: string): boolean =>
+  typeof value === 'boolean' ? value : invalid(path, 'must be true or false');
+
+const readEnum = <T extends string>(value: unknown, options: readonly T[], path: string): T =>
+  options.includes(value as T) ? (value as T) : invalid(path, `must be one of ${options.join(', ')}`);
+
+const readDataUrl = (value: unknown, path: string, kind: string) => {
+  const url = readString(value, path);
+  return url.startsWith(`data:${kind}/`) ? url : invalid(path, `must be a ${kind} data URL`);
+};
+
+const readAnchorPoint = (value: unknown, path: string): AnchorPoint => {
+  const point = readObject(value, path);
+  return { x: readNumber(point.x, `${path}.x`, 0, 1), y: readNumber(point.y, `${path}.y`, 0, 1) };
+};
+
+const readAnchors = (value: unknown): PortraitAnchors => {
+  const anchors = readObject(value, 'face.anchors');
+  return PORTRAIT_ANCHOR_KEYS.reduce((result, key) => {
+    result[key] = readAnchorPoint(anchors[key], `face.anchors.${key}`);
+    return result;
+  }, {} as PortraitAnchors);
+};
+
+const readFace = (value: unknown): ProjectFace => {
+  const face = readObject(value, 'face');
+  if (face.mode === 'preset') {
+    return { mode: 'preset', presetId: readString(face.presetId, 'face.presetId') };
+  }
+  if (face.mode === 'upload') {
+    return {
+      mode: 'upload',
+      name: readString(face.name, 'face.name'),
+      dataUrl: readDataUrl(face.dataUrl, 'face.dataUrl', 'image'),
+      rig: readEnum(face.rig, FACE_RIG_MODES, 'face.rig'),
+      anchors: readAnchors(face.anchors),
+    };
+  }
+  return invalid('face.mode', 'must be "preset" or "upload"');
+};
+
+const readAudio = (value: unknown): ProjectAudio | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const audio = readObject(value, 'audio');
+  const name = readString(audio.name, 'audio.name');
+  if (audio.source === 'embedded') {
+    return { source: 'embedded', name, dataUrl: readDataUrl(audio.dataUrl, 'audio.dataUrl', 'audio') };
+  }
+  if (audio.source === 'reference') {
+    return {
+      source: 'reference',
+      name,
+      url: audio.url === null || audio.url === undefined ? null : readString(audio.url, 'audio.url'),
+    };
+  }
+  return invalid('audio.source', 'must be "embedded" or "reference"');
+};
+
+const readWord = (value: unknown, path: string): WordTiming => {
+  const word = readObject(value, path);
+  return {
+    text: readString(word.text, `${path}.text`),
+    start: readNumber(word.start, `${path}.start`, 0),
+    end: readNumber(word.end, `${path}.end`, 0),
+    charStart: readNumber(word.charStart, `${path}.charStart`, 0),
+    charEnd: readNumber(word.charEnd, `${path}.charEnd`, 0),
+  };
+};
+
+const readPhoneme = (value: unknown, path: string): PhonemeTiming => {
+  const phoneme = readObject(value, path);
+  return {
+    viseme: readEnum<VisemeKey>(phoneme.viseme, VISEME_KEYS, `${path}.viseme`),
+    start: readNumber(phoneme.start, `${path}.start`, 0),
+    end: readNumber(phoneme.end, `${path}.end`, 0),
+  };
+};
+
+const readSegment = (value: unknown, path: string): SpeechSegmentTiming => {
+  const segment = readObject(value, path);
+  return {
+    text: readString(segment.text, `${path}.text`),
+    start: readNumber(segment.start, `${path}.start`, 0),
+    end: readNumber(segment.end, `${path}.end`, 0),
+    boundary: readEnum(segment.boundary, SEGMENT_BOUNDARIES, `${path}.boundary`),
+    startTime: readNumber(segment.startTime, `${path}.startTime`, 0),
+    endTime: readNumber(segment.endTime, `${path}.endTime`, 0),
+    timingSource: readEnum(segment.timingSource, TIMING_SOURCES, `${path}.timingSource`),
+  };
+};
+
+const readKeyframe = (value: unknown, path: string): EmotionKeyframe => {
+  const keyframe = readObject(value, path);
+  return {
+    id: readString(keyframe.id, `${path}.id`),
+    time: readNumber(keyframe.time, `${path}.time`, 0),
+    value: readNumber(keyframe.value, `${path}.value`, 0, 1),
+    easing: readEnum(keyframe.easing, EASING_KINDS, `${path}.easing`),
+  };
+};
+
+const readEmotionTimeline = (value: unknown): EmotionTimeline => {
+  const timeline = readObject(value, 'emotionTimeline');
+  return EMOTION_KEYS.reduce((result, key) => {
+    result[key] = readArray(timeline[key], `emotionTimeline.${key}`)
+      .map((item, index) => readKeyframe(item, `emotionTimeline.${key}[${index}]`))
+      .sort((a, b) => a.time - b.time);
+    return result;
+  }, {} as EmotionTimeline);
+};
+
+const readGesture = (value: unknown, path: string): GestureCue => {
+  const gesture = readObject(value, path);
+  return {
+    time: readNumber(gesture.time, `${path}.time`, 0),
+    gesture: readEnum(gesture.gesture, GESTURE_KINDS, `${path}.gesture`),
+  };
+};
+
+const readSpeech = (value: unknown): ProjectSpeech | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const speech = readObject(value, 'speech');
+  const timeline = readObject(speech.timeline, 'speech.timeline');
+  return {
+    segments: readArray(speech.segments, 'speech.segments').map((item, index) =>
+      readSegment(item, `speech.segments[${index}]`),
+    ),
+    timeline: {
+      words: readArray(timeline.words, 'speech.timeline.words').map((item, index) =>
+        readWord(item, `speech.timeline.words[${index}]`),
+      ),
+      phonemes: readArray(timeline.phonemes, 'speech.timeline.phonemes').map((item, index) =>
+        readPhoneme(item, `speech.timeline.phonemes[${index}]`),
+      ),
+    },
+    gestures: readArray(speech.gestures, 'speech.gestures').map((item, index) =>
+      readGesture(item, `speech.gestures[${index}]`),
+    ),
+  };
+};
+
+const validateProject = (document: UnknownDocument): ProjectDocument => {
+  const emotions = readObject(document.emotions, 'emotions');
+  const scene = readObject(document.scene, 'scene');
+  const tts = readObject(document.tts, 'tts');
+  const pauses = readObject(tts.pauses, 'tts.pauses');
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: readString(document.name, 'name'),
+    savedAt: readString(document.savedAt, 'savedAt'),
+    face: readFace(document.face),
+    emotions: EMOTION_KEYS.reduce((result, key) => {
+      result[key] = readNumber(emotions[key], `emotions.${key}`, 0, 1);
+      return result;
+    }, {} as EmotionState),
+    autoEmotion: readBoolean(document.autoEmotion, 'autoEmotion'),
+    emotionTimeline: readEmotionTimeline(document.emotionTimeline),
+    gestureSeed: readNumber(document.gestureSeed, 'gestureSeed'),
+    gestureIntensity: readNumber(document.gestureIntensity, 'gestureIntensity', 0, 1),
+    volume: readNumber(document.volume, 'volume', 0, 1),
+    scene: {
+      backgroundId: readString(scene.backgroundId, 'scene.backgroundId'),
+      cameraAngleId: readString(scene.cameraAngleId, 'scene.cameraAngleId'),
+    },
+    tts: {
+      text: readString(tts.text, 'tts.text'),
+      voice: readString(tts.voice, 'tts.voice'),
+      provider:
+        tts.provider === null || tts.provider === undefined
+          ? null
+          : readEnum(tts.provider, TTS_PROVIDER_IDS, 'tts.provider'),
+      pauses: {
+        sentence: readNumber(pauses.sentence, 'tts.pauses.sentence', 0),
+        clause: readNumber(pauses.clause, 'tts.pauses.clause', 0),
+        word: readNumber(pauses.word, 'tts.pauses.word', 0),
+      },
+    },
+    audio: readAudio(document.audio),
+    speech: readSpeech(document.speech),
+  };
+};
+
+/**
+ * Parses a saved project of any known version: older documents are migrated
+ * step by step to the current version and then validated field by field.
+ */
+export const parseProject = (json: string): ProjectDocument => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Project file is not valid JSON.');
+  }
+  let document = readObject(raw, 'document');
+  if (document.format !== PROJECT_FORMAT) {
+    throw new Error('This file is not an AI lipsync project.');
+  }
+  let version = readNumber(document.version, 'version', 1);
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this app supports (${PROJECT_VERSION}).`);
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from project version ${version}.`);
+    }
+    document = migrate(document);
+    version += 1;
+  }
+  return validateProject(document);
+};
+
+export type ProjectFields = Omit<ProjectDocument, 'format' | 'version' | 'savedAt'>;
+
+export const createProjectDocument = (fields: ProjectFields): ProjectDocument => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...fields,
+});
+
+export const serializeProject = (fields: ProjectFields) => JSON.stringify(createProjectDocument(fields));
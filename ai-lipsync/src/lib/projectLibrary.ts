@@ -0,0 +1,216 @@
+import { parseProject, type ProjectDocument } from './project';
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  audioName: string | null;
+  thumbnail: Blob | null;
+  size: number;
+}
+
+export interface LoadedProject {
+  entry: LibraryEntry;
+  document: ProjectDocument;
+  audio: Blob | null;
+}
+
+export interface SaveProjectInput {
+  id?: string;
+  document: ProjectDocument;
+  // `undefined` keeps the audio already stored for this project.
+  audio?: Blob | null;
+  thumbnail?: Blob | null;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+interface StoredProjectData {
+  id: string;
+  json: string;
+  audio: Blob | null;
+}
+
+const DATABASE_NAME = 'ai-lipsync';
+const DATABASE_VERSION = 1;
+const ENTRY_STORE = 'projects';
+const DATA_STORE = 'projectData';
+const LAST_PROJECT_KEY = 'ai-lipsync:last-project';
+const THUMBNAIL_WIDTH = 320;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isProjectLibrarySupported = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isProjectLibrarySupported()) {
+        reject(new Error('This browser cannot store projects locally.'));
+        return;
+      }
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(ENTRY_STORE)) {
+          database.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(DATA_STORE)) {
+          database.createObjectStore(DATA_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Unable to open the project library.'));
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  task: (stores: { entries: IDBObjectStore; data: IDBObjectStore }) => Promise<T>,
+) => {
+  const database = await openDatabase();
+  const transaction = database.transaction([ENTRY_STORE, DATA_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Project library transaction aborted.'));
+  });
+  // Awaited together so a failing task doesn't leave the aborted transaction's rejection unhandled.
+  const [result] = await Promise.all([
+    task({
+      entries: transaction.objectStore(ENTRY_STORE),
+      data: transaction.objectStore(DATA_STORE),
+    }),
+    done,
+  ]);
+  return result;
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const measure = (json: string, audio: Blob | null, thumbnail: Blob | null) =>
+  json.length * 2 + (audio?.size ?? 0) + (thumbnail?.size ?? 0);
+
+export const listProjects = async (): Promise<LibraryEntry[]> => {
+  const entries = await runTransaction('readonly', ({ entries: store }) =>
+    promisify(store.getAll() as IDBRequest<LibraryEntry[]>),
+  );
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadProject = async (id: string): Promise<LoadedProject> => {
+  const [entry, data] = await runTransaction('readonly', ({ entries, data: store }) =>
+    Promise.all([
+      promisify(entries.get(id) as IDBRequest<LibraryEntry | undefined>),
+      promisify(store.get(id) as IDBRequest<StoredProjectData | undefined>),
+    ]),
+  );
+  if (!entry || !data) {
+    throw new Error('Project not found in the library.');
+  }
+  // Stored documents go through the same migrations as imported files.
+  return { entry, document: parseProject(data.json), audio: data.audio };
+};
+
+/**
+ * Creates or updates a library project. Audio is kept as a Blob next to the
+ * document rather than inside it, so autosaves only rewrite it when it changes.
+ */
+export const saveProject = async ({ id, document, audio, thumbnail }: SaveProjectInput) => {
+  const projectId = id ?? createId();
+  const json = JSON.stringify({ ...document, audio: document.audio && { ...document.audio, url: null } });
+  return runTransaction('readwrite', async ({ entries, data }) => {
+    const [existingEntry, existingData] = await Promise.all([
+      promisify(entries.get(projectId) as IDBRequest<LibraryEntry | undefined>),
+      promisify(data.get(projectId) as IDBRequest<StoredProjectData | undefined>),
+    ]);
+    const storedAudio = audio === undefined ? (existingData?.audio ?? null) : audio;
+    const storedThumbnail = thumbnail === undefined ? (existingEntry?.thumbnail ?? null) : thumbnail;
+    const now = new Date().toISOString();
+    const entry: LibraryEntry = {
+      id: projectId,
+      name: document.name,
+      createdAt: existingEntry?.createdAt ?? now,
+      updatedAt: now,
+      audioName: document.audio?.name ?? null,
+      thumbnail: storedThumbnail,
+      size: measure(json, storedAudio, storedThumbnail),
+    };
+    entries.put(entry);
+    data.put({ id: projectId, json, audio: storedAudio } satisfies StoredProjectData);
+    return entry;
+  });
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const { document } = await loadProject(id);
+  return saveProject({ id, document: { ...document, name } });
+};
+
+export const duplicateProject = async (id: string) => {
+  const { entry, document, audio } = await loadProject(id);
+  return saveProject({
+    document: { ...document, name: `${document.name} (copy)` },
+    audio,
+    thumbnail: entry.thumbnail,
+  });
+};
+
+export const deleteProject = (id: string) =>
+  runTransaction('readwrite', async ({ entries, data }) => {
+    entries.delete(id);
+    data.delete(id);
+  });
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const getLastProjectId = () =>
+  typeof localStorage === 'undefined' ? null : localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+  if (id) {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(LAST_PROJECT_KEY);
+  }
+};
+
+export const captureThumbnail = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob | null>((resolve) => {
+    if (!canvas.width || !canvas.height) {
+      resolve(null);
+      return;
+    }
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = THUMBNAIL_WIDTH;
+    thumbnail.height = Math.round((canvas.height / canvas.width) * THUMBNAIL_WIDTH);
+    thumbnail.getContext('2d')?.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+    thumbnail.toBlob(resolve, 'image/webp', 0.8);
+  });
@@ -0,0 +1,239 @@
+import type { EmotionState } from '../hooks/useAvatarEngine';
+import { percentile, smoothZeroPhase } from './animationTrack';
+import { EMOTION_KEYS } from './emotionTimeline';
+
+interface ProsodyFrame {
+  // Mean pitch over the surrounding window, in semitones above the speaker's median.
+  pitch: number;
+  // Standard deviation of the pitch over the window, in semitones.
+  pitchVariance: number;
+  // Mean loudness over the window relative to the loud passages of the clip (0–1).
+  loudness: number;
+  // Syllable nuclei per second over the window.
+  speakingRate: number;
+}
+
+export interface ProsodyTrack {
+  frameRate: number;
+  frameCount: number;
+  // Interleaved EmotionState values, EMOTION_KEYS.length per frame.
+  emotions: Float32Array;
+}
+
+export const PROSODY_FRAME_RATE = 25;
+
+// Pitch is tracked on a decimated signal; speech fundamentals sit well below 1 kHz.
+const ANALYSIS_SAMPLE_RATE = 11025;
+const MIN_PITCH = 70;
+const MAX_PITCH = 400;
+const PITCH_WINDOW_SECONDS = 0.04;
+const MIN_CLARITY = 0.6;
+const VOICED_LOUDNESS = 0.15;
+// Prosody is read over phrase-length windows; single syllables carry little emotion.
+const CONTEXT_SECONDS = 1.5;
+const NUCLEUS_THRESHOLD = 0.25;
+const NUCLEUS_DIP = 0.08;
+const EMOTION_SMOOTHING = 0.5;
+const FRAMES_PER_YIELD = 500;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Linear ramp from 0 at `from` to 1 at `to`.
+const ramp = (value: number, from: number, to: number) => clamp01((value - from) / (to - from));
+
+const yieldToMainThread = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Averages the channels and every `factor` samples, which doubles as a crude low-pass.
+const downmix = (buffer: AudioBuffer, factor: number) => {
+  const output = new Float32Array(Math.floor(buffer.length / factor));
+  const scale = 1 / (factor * buffer.numberOfChannels);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < output.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < factor; j++) {
+        sum += data[i * factor + j];
+      }
+      output[i] += sum * scale;
+    }
+  }
+  return output;
+};
+
+// Normalised autocorrelation; picks the first strong peak to avoid octave-down errors.
+const estimatePitch = (samples: Float32Array, start: number, size: number, minLag: number, maxLag: number) => {
+  const correlations = new Float32Array(maxLag + 1);
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let energy = 0;
+    for (let i = start; i < start + size; i++) {
+      const a = samples[i] ?? 0;
+      const b = samples[i + lag] ?? 0;
+      product += a * b;
+      energy += a * a + b * b;
+    }
+    correlations[lag] = energy > 0 ? (2 * product) / energy : 0;
+    best = Math.max(best, correlations[lag]);
+  }
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const value = correlations[lag];
+    if (value >= best * 0.9 && value >= correlations[lag - 1] && value >= correlations[lag + 1]) {
+      return { lag, clarity: value };
+    }
+  }
+  return { lag: 0, clarity: 0 };
+};
+
+const countNuclei = (loudness: Float32Array) => {
+  const nuclei = new Uint8Array(loudness.length);
+  let valley = Infinity;
+  for (let i = 1; i < loudness.length - 1; i++) {
+    valley = Math.min(valley, loudness[i]);
+    const isPeak = loudness[i] >= loudness[i - 1] && loudness[i] > loudness[i + 1];
+    if (isPeak && loudness[i] >= NUCLEUS_THRESHOLD && loudness[i] - valley >= NUCLEUS_DIP) {
+      nuclei[i] = 1;
+      valley = loudness[i];
+    }
+  }
+  return nuclei;
+};
+
+const prefixSum = (values: ArrayLike<number>) => {
+  const sums = new Float64Array(values.length + 1);
+  for (let i = 0; i < values.length; i++) {
+    sums[i + 1] = sums[i] + values[i];
+  }
+  return sums;
+};
+
+/**
+ * Maps windowed prosody to emotion weights. Lively pitch reads as happy or,
+ * when it also climbs, surprised; loud and fast without much lift reads as
+ * angry; quiet, flat and slow reads as sad.
+ */
+const inferEmotionFromProsody = (frame: ProsodyFrame, activity: number): EmotionState => {
+  const lift = ramp(frame.pitch, -2, 3);
+  const spread = ramp(frame.pitchVariance, 1.5, 5);
+  const energetic = ramp(frame.loudness, 0.25, 0.75);
+  const pace = ramp(frame.speakingRate, 2.5, 6);
+
+  const happy = clamp01(0.45 * lift + 0.35 * spread + 0.2 * energetic) * activity;
+  const surprised = clamp01(1.4 * lift * spread + 0.2 * energetic) * activity;
+  const angry = clamp01(energetic * (0.6 + 0.4 * pace) * (1 - 0.6 * lift)) * activity;
+  const sad = clamp01((1 - energetic) * (1 - spread) * (0.6 + 0.4 * (1 - pace)) * (1 - 0.5 * lift)) * activity;
+  const neutral = clamp01(1 - 0.9 * Math.max(happy, surprised, angry, sad));
+  return { happy, sad, angry, surprised, neutral };
+};
+
+/**
+ * Estimates pitch, pitch variance, loudness and speaking rate across a clip
+ * and turns them into a time-varying emotion mix. Pitch and loudness are read
+ * relative to the speaker's own median so different voices land on the same scale.
+ */
+export const analyzeProsody = async (
+  buffer: AudioBuffer,
+  frameRate = PROSODY_FRAME_RATE,
+): Promise<ProsodyTrack> => {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_SAMPLE_RATE));
+  const sampleRate = buffer.sampleRate / factor;
+  const samples = downmix(buffer, factor);
+  const frameCount = Math.max(1, Math.ceil(buffer.duration * frameRate));
+  const size = Math.round(sampleRate * PITCH_WINDOW_SECONDS);
+  const minLag = Math.floor(sampleRate / MAX_PITCH);
+  const maxLag = Math.ceil(sampleRate / MIN_PITCH);
+
+  const rms = new Float32Array(frameCount);
+  const pitch = new Float32Array(frameCount);
+  const clarity = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.round((frame / frameRate) * sampleRate - size / 2);
+    let sumSquares = 0;
+    for (let i = start; i < start + size; i++) {
+      const value = samples[i] ?? 0;
+      sumSquares += value * value;
+    }
+    rms[frame] = Math.sqrt(sumSquares / size);
+    if (rms[frame] > 0) {
+      const estimate = estimatePitch(samples, start, size, minLag, maxLag);
+      pitch[frame] = estimate.lag > 0 ? sampleRate / estimate.lag : 0;
+      clarity[frame] = estimate.clarity;
+    }
+    if (frame % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+      await yieldToMainThread();
+    }
+  }
+
+  const reference = Math.max(percentile(rms, 0.95), 0.0001);
+  const loudness = rms.map((value) => clamp01(value / reference));
+  smoothZeroPhase(loudness, 0.05, frameRate);
+  const voiced = new Float32Array(frameCount);
+  const voicedPitches: number[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (pitch[frame] > 0 && clarity[frame] >= MIN_CLARITY && loudness[frame] >= VOICED_LOUDNESS) {
+      voiced[frame] = 1;
+      voicedPitches.push(pitch[frame]);
+    }
+  }
+  const median = voicedPitches.length ? percentile(Float32Array.from(voicedPitches), 0.5) : 0;
+  const semitones = pitch.map((value, frame) => (voiced[frame] ? 12 * Math.log2(value / median) : 0));
+
+  const voicedSums = prefixSum(voiced);
+  const pitchSums = prefixSum(semitones);
+  const pitchSquares = prefixSum(semitones.map((value) => value * value));
+  const loudnessSums = prefixSum(loudness);
+  const nucleusSums = prefixSum(countNuclei(loudness));
+
+  const radius = Math.round((CONTEXT_SECONDS * frameRate) / 2);
+  const emotions = new Float32Array(frameCount * EMOTION_KEYS.length);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const from = Math.max(0, frame - radius);
+    const to = Math.min(frameCount, frame + radius + 1);
+    const span = to - from;
+    const voicedCount = voicedSums[to] - voicedSums[from];
+    const meanPitch = voicedCount ? (pitchSums[to] - pitchSums[from]) / voicedCount : 0;
+    const meanSquare = voicedCount ? (pitchSquares[to] - pitchSquares[from]) / voicedCount : 0;
+    const state = inferEmotionFromProsody(
+      {
+        pitch: meanPitch,
+        pitchVariance: Math.sqrt(Math.max(0, meanSquare - meanPitch * meanPitch)),
+        loudness: (loudnessSums[to] - loudnessSums[from]) / span,
+        speakingRate: ((nucleusSums[to] - nucleusSums[from]) / span) * frameRate,
+      },
+      // Pauses and breaths relax towards neutral instead of holding the last reading.
+      ramp(voicedCount / span, 0.1, 0.4),
+    );
+    EMOTION_KEYS.forEach((key, index) => {
+      emotions[frame * EMOTION_KEYS.length + index] = state[key];
+    });
+  }
+  EMOTION_KEYS.forEach((_, index) => {
+    smoothZeroPhase(emotions, EMOTION_SMOOTHING, frameRate, EMOTION_KEYS.length, index);
+  });
+
+  return { frameRate, frameCount, emotions };
+};
+
+export const sampleProsodyEmotion = (track: ProsodyTrack, time: number): EmotionState => {
+  const position = Math.min(Math.max(time * track.frameRate, 0), track.frameCount - 1);
+  const index = Math.floor(position);
+  const next = Math.min(index + 1, track.frameCount - 1);
+  const mix = position - index;
+  return EMOTION_KEYS.reduce((state, key, offset) => {
+    const a = track.emotions[index * EMOTION_KEYS.length + offset];
+    const b = track.emotions[next * EMOTION_KEYS.length + offset];
+    state[key] = a + (b - a) * mix;
+    return state;
+  }, {} as EmotionState);
+};
+
+/**
+ * Applies the manual sliders on top of the inferred mix: a slider at 50%
+ * leaves that emotion as inferred, higher values push it up and lower values
+ * hold it back by up to half the range.
+ */
+export const biasEmotions = (inferred: EmotionState, manual: EmotionState): EmotionState =>
+  EMOTION_KEYS.reduce((state, key) => {
+    state[key] = clamp01(inferred[key] + manual[key] - 0.5);
+    return state;
+  }, {} as EmotionState);
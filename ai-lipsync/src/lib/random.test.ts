@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, createSeed, createSlotRandom, MAX_SEED, normalizeSeed } from './random';
+
+const take = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+describe('normalizeSeed', () => {
+  it('keeps integer seeds', () => {
+    expect(normalizeSeed(0)).toBe(0);
+    expect(normalizeSeed(42)).toBe(42);
+    expect(normalizeSeed(MAX_SEED)).toBe(MAX_SEED);
+  });
+
+  it('scales fractional seeds from older projects onto the integer range', () => {
+    expect(normalizeSeed(0.5)).toBe(2 ** 31);
+    expect(normalizeSeed(0.25)).toBe(2 ** 30);
+  });
+
+  it('wraps, mirrors and rejects values outside the range', () => {
+    expect(normalizeSeed(MAX_SEED + 1)).toBe(0);
+    expect(normalizeSeed(-7)).toBe(7);
+    expect(normalizeSeed(Number.NaN)).toBe(0);
+    expect(normalizeSeed(Number.POSITIVE_INFINITY)).toBe(0);
+  });
+});
+
+describe('createSeed', () => {
+  it('returns an integer seed', () => {
+    const seed = createSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(MAX_SEED);
+  });
+});
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(createRandom(1234), 20)).toEqual(take(createRandom(1234), 20));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(createRandom(1), 5)).not.toEqual(take(createRandom(2), 5));
+  });
+
+  it('returns numbers in [0, 1)', () => {
+    take(createRandom(MAX_SEED), 1000).forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('keeps the sequence saved takes were made with', () => {
+    expect(take(createRandom(1), 3).map((value) => value.toFixed(8))).toEqual([
+      '0.62707394',
+      '0.00273572',
+      '0.52744704',
+    ]);
+  });
+});
+
+describe('createSlotRandom', () => {
+  it('samples any slot without replaying the ones before it', () => {
+    const later = take(createSlotRandom(99, 40, 1), 3);
+    take(createSlotRandom(99, 39, 1), 3);
+    expect(take(createSlotRandom(99, 40, 1), 3)).toEqual(later);
+  });
+
+  it('separates slots and streams', () => {
+    const base = take(createSlotRandom(99, 0, 1), 3);
+    expect(take(createSlotRandom(99, 1, 1), 3)).not.toEqual(base);
+    expect(take(createSlotRandom(99, 0, 2), 3)).not.toEqual(base);
+  });
+});
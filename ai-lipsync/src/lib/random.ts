@@ -0,0 +1,35 @@
+// Seeds are unsigned 32-bit integers so they can be shown, typed and saved exactly.
+export const MAX_SEED = 0xffffffff;
+
+export const createSeed = () => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// Older projects stored the gesture seed as a fraction in [0, 1).
+export const normalizeSeed = (value: number) => {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  const scaled = Number.isInteger(value) ? value : value * (MAX_SEED + 1);
+  return Math.floor(Math.abs(scaled)) % (MAX_SEED + 1);
+};
+
+/**
+ * Mulberry32: a small generator whose whole state is the seed, so the same seed
+ * always yields the same sequence of numbers in [0, 1).
+ */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * A generator for one slot of a seeded timeline, so any moment can be sampled
+ * without replaying the slots before it. `stream` separates independent timelines.
+ */
+export const createSlotRandom = (seed: number, slot: number, stream = 0) =>
+  createRandom((seed ^ Math.imul(slot + 1, 0x9e3779b1) ^ Math.imul(stream + 1, 0x85ebca6b)) >>> 0);
@@ -0,0 +1,320 @@
+import type { AvatarAnimationState, EmotionKey } from '../hooks/useAvatarEngine';
+import { EMOTION_KEYS } from './emotionTimeline';
+import { VISEME_KEYS, type VisemeKey } from './visemes';
+
+export interface MorphBinding {
+  name: string;
+  weight: number;
+}
+
+export const RIG_BONE_KEYS = ['head', 'neck', 'leftEye', 'rightEye'] as const;
+
+export type RigBoneKey = (typeof RIG_BONE_KEYS)[number];
+
+/**
+ * Describes how `AvatarAnimationState` drives a loaded model: which morph
+ * targets (or VRM expressions) each channel writes to, and which bones take
+ * the head and eye rotation.
+ */
+export interface RigMapping {
+  visemes: Partial<Record<VisemeKey, MorphBinding[]>>;
+  mouthOpen: MorphBinding[];
+  blink: MorphBinding[];
+  browRaise: MorphBinding[];
+  emotions: Partial<Record<EmotionKey, MorphBinding[]>>;
+  bones: Record<RigBoneKey, string | null>;
+  // Share of the head rotation applied to the neck bone; the head gets the rest.
+  neckShare: number;
+  // Eye rotation in radians (yaw, pitch) at full `eyeDirection`.
+  eyeRange: [number, number];
+}
+
+const bind = (name: string, weight = 1): MorphBinding => ({ name, weight });
+
+const pair = (left: string, right: string, weight = 1) => [bind(left, weight), bind(right, weight)];
+
+export const VRM_RIG_MAPPING: RigMapping = {
+  visemes: {
+    FF: [bind('ih', 0.3)],
+    TH: [bind('aa', 0.2), bind('ih', 0.3)],
+    DD: [bind('aa', 0.3), bind('ih', 0.3)],
+    kk: [bind('aa', 0.4)],
+    CH: [bind('ou', 0.5), bind('ih', 0.3)],
+    SS: [bind('ih', 0.6)],
+    nn: [bind('ih', 0.2)],
+    RR: [bind('ou', 0.5)],
+    aa: [bind('aa')],
+    E: [bind('ee')],
+    ih: [bind('ih')],
+    oh: [bind('oh')],
+    ou: [bind('ou')],
+  },
+  mouthOpen: [],
+  blink: [bind('blink')],
+  // VRM has no brow expression; a touch of surprise lifts them.
+  browRaise: [bind('surprised', 0.3)],
+  emotions: {
+    happy: [bind('happy', 0.8)],
+    sad: [bind('sad', 0.8)],
+    angry: [bind('angry', 0.8)],
+    surprised: [bind('surprised', 0.8)],
+    neutral: [bind('relaxed', 0.3)],
+  },
+  bones: { head: 'head', neck: 'neck', leftEye: 'leftEye', rightEye: 'rightEye' },
+  neckShare: 0.35,
+  eyeRange: [0.35, 0.2],
+};
+
+// Oculus viseme names as exported by Ready Player Me and most CC/Blender viseme rigs.
+const OCULUS_VISEME_NAMES: Record<VisemeKey, string> = {
+  sil: 'viseme_sil',
+  PP: 'viseme_PP',
+  FF: 'viseme_FF',
+  TH: 'viseme_TH',
+  DD: 'viseme_DD',
+  kk: 'viseme_kk',
+  CH: 'viseme_CH',
+  SS: 'viseme_SS',
+  nn: 'viseme_nn',
+  RR: 'viseme_RR',
+  aa: 'viseme_aa',
+  E: 'viseme_E',
+  ih: 'viseme_I',
+  oh: 'viseme_O',
+  ou: 'viseme_U',
+};
+
+const ARKIT_EMOTIONS: RigMapping['emotions'] = {
+  happy: [...pair('mouthSmileLeft', 'mouthSmileRight', 0.7), ...pair('cheekSquintLeft', 'cheekSquintRight', 0.3)],
+  sad: [...pair('mouthFrownLeft', 'mouthFrownRight', 0.6), bind('browInnerUp', 0.5)],
+  angry: [...pair('browDownLeft', 'browDownRight', 0.8), ...pair('noseSneerLeft', 'noseSneerRight', 0.3)],
+  surprised: [
+    bind('browInnerUp', 0.6),
+    ...pair('browOuterUpLeft', 'browOuterUpRight', 0.6),
+    ...pair('eyeWideLeft', 'eyeWideRight', 0.5),
+  ],
+};
+
+export const GLTF_RIG_MAPPING: RigMapping = {
+  visemes: VISEME_KEYS.reduce(
+    (visemes, key) => {
+      visemes[key] = [bind(OCULUS_VISEME_NAMES[key])];
+      return visemes;
+    },
+    {} as RigMapping['visemes'],
+  ),
+  mouthOpen: [bind('jawOpen', 0.25)],
+  blink: pair('eyeBlinkLeft', 'eyeBlinkRight'),
+  browRaise: [bind('browInnerUp', 0.8), ...pair('browOuterUpLeft', 'browOuterUpRight', 0.8)],
+  emotions: ARKIT_EMOTIONS,
+  bones: { head: 'Head', neck: 'Neck', leftEye: 'LeftEye', rightEye: 'RightEye' },
+  neckShare: 0.35,
+  eyeRange: [0.35, 0.2],
+};
+
+// ARKit-only faces have no viseme shapes, so the mouth is built from jaw and lip shapes.
+const ARKIT_VISEMES: RigMapping['visemes'] = {
+  PP: [bind('mouthClose', 0.6), ...pair('mouthPressLeft', 'mouthPressRight', 0.5)],
+  FF: [bind('jawOpen', 0.1), ...pair('mouthUpperUpLeft', 'mouthUpperUpRight', 0.3), bind('mouthRollLower', 0.5)],
+  TH: [bind('jawOpen', 0.2), bind('tongueOut', 0.3)],
+  DD: [bind('jawOpen', 0.3)],
+  kk: [bind('jawOpen', 0.35)],
+  CH: [bind('jawOpen', 0.2), bind('mouthFunnel', 0.6)],
+  SS: [bind('jawOpen', 0.1), ...pair('mouthStretchLeft', 'mouthStretchRight', 0.5)],
+  nn: [bind('jawOpen', 0.2)],
+  RR: [bind('jawOpen', 0.25), bind('mouthPucker', 0.4)],
+  aa: [bind('jawOpen', 0.8)],
+  E: [bind('jawOpen', 0.4), ...pair('mouthStretchLeft', 'mouthStretchRight', 0.6)],
+  ih: [bind('jawOpen', 0.3), ...pair('mouthStretchLeft', 'mouthStretchRight', 0.4)],
+  oh: [bind('jawOpen', 0.55), bind('mouthFunnel', 0.7)],
+  ou: [bind('jawOpen', 0.25), bind('mouthPucker', 0.9)],
+};
+
+const BONE_PATTERNS: Record<RigBoneKey, RegExp> = {
+  head: /(^|[^a-z])head$/i,
+  neck: /(^|[^a-z])neck$/i,
+  leftEye: /(left[_.]?eye|eye[_.]?l)$/i,
+  rightEye: /(right[_.]?eye|eye[_.]?r)$/i,
+};
+
+const lowerCaseLookup = (names: string[]) => new Map(names.map((name) => [name.toLowerCase(), name]));
+
+// Rewrites binding names to the model's casing and drops bindings the model does not have.
+const resolveBindings = (bindings: MorphBinding[] | undefined, available: Map<string, string>) =>
+  (bindings ?? []).flatMap((item) => {
+    const name = available.get(item.name.toLowerCase());
+    return name ? [{ ...item, name }] : [];
+  });
+
+const resolveMapping = (mapping: RigMapping, morphTargets: string[], bones: string[]): RigMapping => {
+  const morphs = lowerCaseLookup(morphTargets);
+  const boneNames = lowerCaseLookup(bones);
+  return {
+    ...mapping,
+    visemes: VISEME_KEYS.reduce(
+      (visemes, key) => {
+        visemes[key] = resolveBindings(mapping.visemes[key], morphs);
+        return visemes;
+      },
+      {} as RigMapping['visemes'],
+    ),
+    mouthOpen: resolveBindings(mapping.mouthOpen, morphs),
+    blink: resolveBindings(mapping.blink, morphs),
+    browRaise: resolveBindings(mapping.browRaise, morphs),
+    emotions: EMOTION_KEYS.reduce(
+      (emotions, key) => {
+        emotions[key] = resolveBindings(mapping.emotions[key], morphs);
+        return emotions;
+      },
+      {} as RigMapping['emotions'],
+    ),
+    bones: RIG_BONE_KEYS.reduce(
+      (result, key) => {
+        const preferred = mapping.bones[key];
+        result[key] =
+          (preferred && boneNames.get(preferred.toLowerCase())) ??
+          bones.find((name) => BONE_PATTERNS[key].test(name)) ??
+          null;
+        return result;
+      },
+      {} as RigMapping['bones'],
+    ),
+  };
+};
+
+/**
+ * Picks a mapping for a freshly loaded model from the shapes and bones it
+ * actually has: VRM expressions, Oculus visemes, or plain ARKit blendshapes.
+ */
+export const detectRigMapping = (morphTargets: string[], bones: string[], isVrm: boolean): RigMapping => {
+  if (isVrm) {
+    return resolveMapping(VRM_RIG_MAPPING, morphTargets, bones);
+  }
+  const morphs = lowerCaseLookup(morphTargets);
+  const hasVisemes = Object.values(OCULUS_VISEME_NAMES).some((name) => morphs.has(name.toLowerCase()));
+  const base = hasVisemes ? GLTF_RIG_MAPPING : { ...GLTF_RIG_MAPPING, visemes: ARKIT_VISEMES, mouthOpen: [] };
+  return resolveMapping(base, morphTargets, bones);
+};
+
+const addWeight = (weights: Map<string, number>, bindings: MorphBinding[] | undefined, amount: number) => {
+  if (!bindings || amount <= 0) {
+    return;
+  }
+  for (const { name, weight } of bindings) {
+    weights.set(name, (weights.get(name) ?? 0) + amount * weight);
+  }
+};
+
+/** Target weight for every mapped morph target or expression, clamped to 0–1. */
+export const computeMorphWeights = (animation: AvatarAnimationState, mapping: RigMapping) => {
+  const weights = new Map<string, number>();
+  // Viseme weights describe the mouth shape; loudness scales how far it opens.
+  const articulation = Math.min(1, 0.4 + animation.mouthOpen * 0.9);
+  for (const key of VISEME_KEYS) {
+    addWeight(weights, mapping.visemes[key], animation.visemes[key] * articulation);
+  }
+  addWeight(weights, mapping.mouthOpen, animation.mouthOpen);
+  addWeight(weights, mapping.blink, Math.min(1, animation.blink * 1.5));
+  addWeight(weights, mapping.browRaise, animation.browRaise);
+  for (const key of EMOTION_KEYS) {
+    addWeight(weights, mapping.emotions[key], animation.emotionMix[key]);
+  }
+  for (const [name, weight] of weights) {
+    weights.set(name, Math.min(1, Math.max(0, weight)));
+  }
+  return weights;
+};
+
+/** Every morph target or expression name a mapping can write to. */
+export const listMappedMorphs = (mapping: RigMapping) => {
+  const names = new Set<string>();
+  const collect = (bindings: MorphBinding[] | undefined) => bindings?.forEach((item) => names.add(item.name));
+  VISEME_KEYS.forEach((key) => collect(mapping.visemes[key]));
+  EMOTION_KEYS.forEach((key) => collect(mapping.emotions[key]));
+  collect(mapping.mouthOpen);
+  collect(mapping.blink);
+  collect(mapping.browRaise);
+  return [...names];
+};
+
+const invalid = (path: string, expectation: string): never => {
+  throw new Error(`Invalid rig mapping: ${path} ${expectation}.`);
+};
+
+const readObject = (value: unknown, path: string): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : invalid(path, 'must be an object');
+
+const readNumber = (value: unknown, path: string, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : invalid(path, `must be a number between ${min} and ${max}`);
+
+const readBindings = (value: unknown, path: string): MorphBinding[] => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return invalid(path, 'must be an array');
+  }
+  return value.map((item, index) => {
+    const binding = readObject(item, `${path}[${index}]`);
+    if (typeof binding.name !== 'string' || !binding.name) {
+      return invalid(`${path}[${index}].name`, 'must be a non-empty string');
+    }
+    return { name: binding.name, weight: readNumber(binding.weight ?? 1, `${path}[${index}].weight`, -2, 2) };
+  });
+};
+
+const readChannels = <K extends string>(value: unknown, keys: readonly K[], path: string) => {
+  const channels = value === undefined ? {} : readObject(value, path);
+  return keys.reduce(
+    (result, key) => {
+      result[key] = readBindings(channels[key], `${path}.${key}`);
+      return result;
+    },
+    {} as Record<K, MorphBinding[]>,
+  );
+};
+
+/** Parses a user-edited mapping; missing channels are treated as unmapped. */
+export const parseRigMapping = (json: string): RigMapping => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Rig mapping is not valid JSON.');
+  }
+  const mapping = readObject(raw, 'mapping');
+  const bones = mapping.bones === undefined ? {} : readObject(mapping.bones, 'bones');
+  const eyeRange = mapping.eyeRange ?? [0.35, 0.2];
+  if (!Array.isArray(eyeRange) || eyeRange.length !== 2) {
+    return invalid('eyeRange', 'must be a [yaw, pitch] pair');
+  }
+  return {
+    visemes: readChannels(mapping.visemes, VISEME_KEYS, 'visemes'),
+    mouthOpen: readBindings(mapping.mouthOpen, 'mouthOpen'),
+    blink: readBindings(mapping.blink, 'blink'),
+    browRaise: readBindings(mapping.browRaise, 'browRaise'),
+    emotions: readChannels(mapping.emotions, EMOTION_KEYS, 'emotions'),
+    bones: RIG_BONE_KEYS.reduce(
+      (result, key) => {
+        const bone = bones[key];
+        result[key] =
+          bone === undefined || bone === null
+            ? null
+            : typeof bone === 'string'
+              ? bone
+              : invalid(`bones.${key}`, 'must be a bone name or null');
+        return result;
+      },
+      {} as RigMapping['bones'],
+    ),
+    neckShare: readNumber(mapping.neckShare ?? 0.35, 'neckShare', 0, 1),
+    eyeRange: [
+      readNumber(eyeRange[0], 'eyeRange[0]', 0, Math.PI / 2),
+      readNumber(eyeRange[1], 'eyeRange[1]', 0, Math.PI / 2),
+    ],
+  };
+};
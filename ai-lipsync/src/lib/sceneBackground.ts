@@ -0,0 +1,80 @@
+export interface BackgroundGlow {
+  // Centre as a fraction of the frame; may sit outside it.
+  x: number;
+  y: number;
+  // Fraction of the distance to the farthest corner, like CSS `circle` gradients.
+  radius: number;
+  color: string;
+}
+
+export interface BackgroundPaint {
+  base: string;
+  // Stops of a diagonal gradient from the top-left to the bottom-right corner.
+  gradient?: string[];
+  glows?: BackgroundGlow[];
+}
+
+export type BackgroundMode = 'scene' | 'transparent' | 'green' | 'blue';
+
+export const BACKGROUND_MODES: { id: BackgroundMode; label: string }[] = [
+  { id: 'scene', label: 'Scene' },
+  { id: 'transparent', label: 'Transparent' },
+  { id: 'green', label: 'Green screen' },
+  { id: 'blue', label: 'Blue screen' },
+];
+
+// The usual chroma key green and blue.
+export const CHROMA_KEY_COLORS: Record<'green' | 'blue', string> = {
+  green: '#00b140',
+  blue: '#0047bb',
+};
+
+// The stage lighting every scene background shares: a dim veil, a cool key light from above and a floor fade.
+const VEIL = 'rgba(2, 3, 14, 0.7)';
+const KEY_LIGHT: BackgroundGlow = { x: 0.5, y: -0.1, radius: 0.6, color: 'rgba(148, 163, 255, 0.45)' };
+const FLOOR_FADE = 0.25;
+
+const transparentOf = (color: string) =>
+  color.startsWith('rgba(') ? color.replace(/,\s*[\d.]+\)$/, ', 0)') : 'rgba(0, 0, 0, 0)';
+
+const paintGlow = (context: CanvasRenderingContext2D, glow: BackgroundGlow, width: number, height: number) => {
+  const cx = glow.x * width;
+  const cy = glow.y * height;
+  const farthest = Math.hypot(Math.max(cx, width - cx), Math.max(cy, height - cy));
+  const gradient = context.createRadialGradient(cx, cy, 0, cx, cy, farthest * glow.radius);
+  gradient.addColorStop(0, glow.color);
+  gradient.addColorStop(1, transparentOf(glow.color));
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+};
+
+/**
+ * Paints a scene background and its stage lighting onto a 2D context, so the
+ * WebGL scene (and therefore every export) contains it.
+ */
+export const paintBackground = (
+  context: CanvasRenderingContext2D,
+  paint: BackgroundPaint,
+  width: number,
+  height: number,
+) => {
+  context.fillStyle = paint.base;
+  context.fillRect(0, 0, width, height);
+  if (paint.gradient && paint.gradient.length > 1) {
+    const gradient = context.createLinearGradient(0, 0, width, height);
+    paint.gradient.forEach((color, index, stops) => gradient.addColorStop(index / (stops.length - 1), color));
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+  }
+  paint.glows?.forEach((glow) => paintGlow(context, glow, width, height));
+
+  context.fillStyle = VEIL;
+  context.fillRect(0, 0, width, height);
+  paintGlow(context, KEY_LIGHT, width, height);
+  const fade = context.createLinearGradient(0, height, 0, height * (1 - FLOOR_FADE));
+  fade.addColorStop(0, 'rgba(0, 0, 0, 0.6)');
+  fade.addColorStop(0.5, 'rgba(0, 0, 0, 0.2)');
+  fade.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  context.fillStyle = fade;
+  context.fillRect(0, height * (1 - FLOOR_FADE), width, height * FLOOR_FADE);
+};
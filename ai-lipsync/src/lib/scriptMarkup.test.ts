@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseScript, resolveCueTime } from './scriptMarkup';
+
+describe('parseScript', () => {
+  it('strips tags and anchors cues in the cleaned text', () => {
+    const script = parseScript('Hello [happy] there, [sad 0.4] goodbye [wave] friend.');
+    expect(script.text).toBe('Hello there, goodbye friend.');
+    expect(script.emotions).toEqual([
+      { offset: 6, emotion: 'happy', intensity: 0.8 },
+      { offset: 13, emotion: 'sad', intensity: 0.4 },
+    ]);
+    expect(script.gestures).toEqual([{ offset: 21, gesture: 'wave' }]);
+    expect(script.unknownTags).toEqual([]);
+  });
+
+  it('reads pause lengths in seconds', () => {
+    const script = parseScript('One [pause] two [pause 250ms] three [pause 1.5s] four [pause 800] five [pause 30s] six');
+    expect(script.text).toBe('One two three four five six');
+    expect(script.breaks.map((item) => item.seconds)).toEqual([0.5, 0.25, 1.5, 0.8, 5]);
+    expect(script.breaks.map((item) => item.offset)).toEqual([4, 8, 14, 19, 24]);
+  });
+
+  it('keeps pauses at the start and end of the script', () => {
+    const script = parseScript('[pause 1s] Hello. [pause 2s]');
+    expect(script.text.trim()).toBe('Hello.');
+    expect(script.breaks).toEqual([
+      { offset: 0, seconds: 1 },
+      { offset: script.text.length, seconds: 2 },
+    ]);
+  });
+
+  it('drops the space before punctuation that follows a tag', () => {
+    expect(parseScript('Really [surprised]?').text).toBe('Really?');
+  });
+
+  it('speaks bracketed words that are not tags', () => {
+    const script = parseScript('Press [enter] now [wave 2].');
+    expect(script.text).toBe('Press [enter] now [wave 2].');
+    expect(script.unknownTags).toEqual(['[enter]', '[wave 2]']);
+    expect(script.gestures).toEqual([]);
+  });
+});
+
+describe('resolveCueTime', () => {
+  const words = [
+    { text: 'Hello', start: 0.1, end: 0.5, charStart: 0, charEnd: 5 },
+    { text: 'there', start: 0.6, end: 1, charStart: 6, charEnd: 11 },
+  ];
+
+  it('starts a cue with the word at or after its offset', () => {
+    expect(resolveCueTime(0, words, 2)).toBe(0.1);
+    expect(resolveCueTime(5, words, 2)).toBe(0.6);
+  });
+
+  it('falls back to the end of the audio after the last word', () => {
+    expect(resolveCueTime(11, words, 2)).toBe(2);
+  });
+});
@@ -0,0 +1,183 @@
+import type { EmotionKey, EmotionState } from '../hooks/useAvatarEngine';
+import type { WordTiming } from './alignment';
+import { createKeyframeId, EMOTION_KEYS, type EmotionKeyframe, type EmotionTimeline } from './emotionTimeline';
+
+export const GESTURE_KINDS = ['wave'] as const;
+
+export type GestureKind = (typeof GESTURE_KINDS)[number];
+
+export interface GestureCue {
+  time: number;
+  gesture: GestureKind;
+}
+
+// Offsets below refer to the cleaned text that is sent to the speech provider.
+export interface ScriptEmotionCue {
+  offset: number;
+  emotion: EmotionKey;
+  intensity: number;
+}
+
+export interface ScriptGestureCue {
+  offset: number;
+  gesture: GestureKind;
+}
+
+export interface ScriptBreak {
+  offset: number;
+  seconds: number;
+}
+
+export interface ParsedScript {
+  text: string;
+  emotions: ScriptEmotionCue[];
+  gestures: ScriptGestureCue[];
+  breaks: ScriptBreak[];
+  // Bracketed words that are not tags; they stay in the text and are spoken.
+  unknownTags: string[];
+}
+
+export const DEFAULT_TAG_INTENSITY = 0.8;
+export const SCRIPT_KEYFRAME_PREFIX = 'script-';
+
+const DEFAULT_PAUSE_SECONDS = 0.5;
+const MAX_PAUSE_SECONDS = 5;
+// Emotion tags ease in over this long before the tagged word.
+const EMOTION_RAMP_SECONDS = 0.3;
+const GESTURE_SECONDS = 1.6;
+
+const TAG_PATTERN = /\[\s*([a-z]+)(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\s*\]/gi;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const isEmotionKey = (value: string): value is EmotionKey => EMOTION_KEYS.includes(value as EmotionKey);
+
+const isGestureKind = (value: string): value is GestureKind => GESTURE_KINDS.includes(value as GestureKind);
+
+const parsePause = (amount: string | undefined, unit: string | undefined) => {
+  if (!amount) {
+    return DEFAULT_PAUSE_SECONDS;
+  }
+  const value = Number(amount);
+  // A bare number reads as milliseconds when it is large enough to be one.
+  const seconds = unit?.toLowerCase() === 'ms' || (!unit && value > 10) ? value / 1000 : value;
+  return Math.min(seconds, MAX_PAUSE_SECONDS);
+};
+
+/**
+ * Strips inline tags from a TTS script: `[happy]`, `[sad 0.7]`,
+ * `[pause 500ms]` and `[wave]`. Each tag becomes a cue anchored at the
+ * position in the cleaned text where it appeared.
+ */
+export const parseScript = (script: string): ParsedScript => {
+  const result: ParsedScript = { text: '', emotions: [], gestures: [], breaks: [], unknownTags: [] };
+  let cursor = 0;
+  for (const match of script.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    const name = match[1].toLowerCase();
+    const [, , amount, unit] = match;
+    const isBreak = name === 'pause';
+    const isEmotion = isEmotionKey(name) && !unit;
+    const isGesture = isGestureKind(name) && !amount;
+    result.text += script.slice(cursor, index);
+    cursor = index + match[0].length;
+    if (!isBreak && !isEmotion && !isGesture) {
+      result.text += match[0];
+      result.unknownTags.push(match[0]);
+      continue;
+    }
+
+    // Drop the space a removed tag leaves behind so words don't end up double spaced.
+    const rest = script.slice(cursor);
+    if (/\s$/.test(result.text) && /^\s/.test(rest)) {
+      cursor += rest.match(/^\s+/)![0].length;
+    } else if (/^[.,!?;:…]|^$/.test(rest)) {
+      result.text = result.text.trimEnd();
+    }
+
+    const offset = result.text.length;
+    if (isBreak) {
+      result.breaks.push({ offset, seconds: parsePause(amount, unit) });
+    } else if (isEmotion) {
+      result.emotions.push({ offset, emotion: name, intensity: amount ? clamp01(Number(amount)) : DEFAULT_TAG_INTENSITY });
+    } else if (isGesture) {
+      result.gestures.push({ offset, gesture: name });
+    }
+  }
+  result.text += script.slice(cursor);
+  return result;
+};
+
+export const formatEmotionTag = (emotion: EmotionKey, intensity: number) =>
+  intensity === DEFAULT_TAG_INTENSITY ? `[${emotion}]` : `[${emotion} ${intensity.toFixed(1)}]`;
+
+// Start of the word at `offset`, or of the next word when the tag sits between words.
+export const resolveCueTime = (offset: number, words: WordTiming[], duration: number) =>
+  words.find((word) => word.charEnd > offset)?.start ?? duration;
+
+export const isScriptKeyframe = (keyframe: EmotionKeyframe) => keyframe.id.startsWith(SCRIPT_KEYFRAME_PREFIX);
+
+/**
+ * Turns timed emotion cues into timeline keyframes. A tag raises its emotion
+ * and releases the one raised by the previous tag back to `base`, so tags
+ * read as mood changes rather than piling up.
+ */
+export const buildScriptKeyframes = (
+  cues: { time: number; emotion: EmotionKey; intensity: number }[],
+  base: EmotionState,
+): EmotionTimeline => {
+  const timeline = EMOTION_KEYS.reduce((result, key) => {
+    result[key] = [];
+    return result;
+  }, {} as EmotionTimeline);
+  const push = (key: EmotionKey, time: number, value: number) => {
+    const lane = timeline[key];
+    lane.push({
+      id: `${SCRIPT_KEYFRAME_PREFIX}${createKeyframeId()}`,
+      time: Math.max(time, lane[lane.length - 1]?.time ?? 0),
+      value,
+      easing: 'easeInOut',
+    });
+  };
+
+  const raised = new Map<EmotionKey, number>();
+  for (const cue of [...cues].sort((a, b) => a.time - b.time)) {
+    const rampStart = Math.max(0, cue.time - EMOTION_RAMP_SECONDS);
+    for (const [key, value] of raised) {
+      if (key !== cue.emotion) {
+        push(key, rampStart, value);
+        push(key, cue.time, base[key]);
+        raised.delete(key);
+      }
+    }
+    push(cue.emotion, rampStart, raised.get(cue.emotion) ?? base[cue.emotion]);
+    push(cue.emotion, cue.time, cue.intensity);
+    raised.set(cue.emotion, cue.intensity);
+  }
+  return timeline;
+};
+
+// Replaces keyframes generated from an earlier script; hand-made keyframes stay.
+export const mergeScriptKeyframes = (timeline: EmotionTimeline, script: EmotionTimeline): EmotionTimeline =>
+  EMOTION_KEYS.reduce((result, key) => {
+    result[key] = [...timeline[key].filter((keyframe) => !isScriptKeyframe(keyframe)), ...script[key]].sort(
+      (a, b) => a.time - b.time,
+    );
+    return result;
+  }, {} as EmotionTimeline);
+
+/**
+ * Strength (0–1) of the gesture cued nearest to `time`: a quick rise and a
+ * slower fall over GESTURE_SECONDS.
+ */
+export const sampleGestureCue = (cues: GestureCue[], gesture: GestureKind, time: number) => {
+  let strength = 0;
+  for (const cue of cues) {
+    const elapsed = time - cue.time;
+    if (cue.gesture === gesture && elapsed >= 0 && elapsed < GESTURE_SECONDS) {
+      const progress = elapsed / GESTURE_SECONDS;
+      strength = Math.max(strength, Math.min(1, progress * 6) * (1 - progress) ** 1.5);
+    }
+  }
+  return strength;
+};
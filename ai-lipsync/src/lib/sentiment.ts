@@ -0,0 +1,142 @@
+import type { EmotionKey } from '../hooks/useAvatarEngine';
+import { DEFAULT_TAG_INTENSITY, formatEmotionTag, parseScript } from './scriptMarkup';
+import { segmentText } from './tts/segmentText';
+
+export interface SentenceEmotion {
+  start: number;
+  end: number;
+  text: string;
+  emotion: EmotionKey;
+  intensity: number;
+}
+
+type ExpressiveEmotion = Exclude<EmotionKey, 'neutral'>;
+
+// A small English lexicon; words are matched after stripping common suffixes.
+const LEXICON: Record<ExpressiveEmotion, string[]> = {
+  happy: [
+    'happy', 'glad', 'joy', 'joyful', 'love', 'lovely', 'great', 'wonderful', 'fantastic', 'awesome',
+    'excite', 'excited', 'delight', 'delighted', 'thank', 'thanks', 'welcome', 'fun', 'enjoy', 'smile',
+    'laugh', 'celebrate', 'congratulation', 'perfect', 'beautiful', 'brilliant', 'proud', 'hope', 'win', 'yay',
+  ],
+  sad: [
+    'sad', 'sorry', 'unfortunately', 'miss', 'lose', 'lost', 'loss', 'alone', 'lonely', 'cry',
+    'tear', 'grief', 'hurt', 'pain', 'regret', 'disappoint', 'disappointed', 'tired', 'sick', 'fail',
+    'failure', 'goodbye', 'gone', 'die', 'death', 'heartbroken', 'mourn', 'poor', 'worry', 'afraid',
+  ],
+  angry: [
+    'angry', 'mad', 'furious', 'hate', 'annoy', 'annoyed', 'annoying', 'outrage', 'outrageous', 'unacceptable',
+    'ridiculous', 'stupid', 'terrible', 'awful', 'unfair', 'rage', 'disgust',
+    'disgusting', 'fed', 'sick', 'damn', 'blame',
+  ],
+  surprised: [
+    'wow', 'whoa', 'surprise', 'surprised', 'surprising', 'amazing', 'amaze', 'unbelievable', 'incredible',
+    'sudden', 'suddenly', 'unexpected', 'shock', 'shocked', 'shocking', 'seriously', 'imagine',
+  ],
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "didn't", "isn't", "wasn't", "can't", "won't", 'without']);
+const INTENSIFIERS = new Set(['very', 'so', 'really', 'extremely', 'totally', 'absolutely', 'incredibly', 'truly']);
+const NEGATION_REACH = 3;
+// Below this score a sentence reads as neutral.
+const MIN_SCORE = 0.9;
+const SUFFIXES = ['ness', 'ing', 'ed', 'ly', 'es', 's'];
+
+const WORD_EMOTIONS = new Map<string, ExpressiveEmotion[]>();
+for (const [emotion, words] of Object.entries(LEXICON) as [ExpressiveEmotion, string[]][]) {
+  for (const word of words) {
+    WORD_EMOTIONS.set(word, [...(WORD_EMOTIONS.get(word) ?? []), emotion]);
+  }
+}
+
+const lookup = (word: string) => {
+  const direct = WORD_EMOTIONS.get(word);
+  if (direct) {
+    return direct;
+  }
+  for (const suffix of SUFFIXES) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      const match = WORD_EMOTIONS.get(stem) ?? WORD_EMOTIONS.get(`${stem}e`);
+      if (match) {
+        return match;
+      }
+    }
+  }
+  return null;
+};
+
+const scoreSentence = (sentence: string): Record<ExpressiveEmotion, number> => {
+  const scores: Record<ExpressiveEmotion, number> = { happy: 0, sad: 0, angry: 0, surprised: 0 };
+  // Tags are not part of what gets said.
+  const words = sentence.replace(/\[[^\]]*\]/g, ' ').toLowerCase().match(/[a-z']+|[,;:]/g) ?? [];
+  words.forEach((word, index) => {
+    const emotions = lookup(word);
+    if (!emotions) {
+      return;
+    }
+    // Negation doesn't carry across clause punctuation.
+    const context = words.slice(Math.max(0, index - NEGATION_REACH), index);
+    const negated = context.slice(context.findLastIndex((item) => /[,;:]/.test(item)) + 1).some((item) => NEGATIONS.has(item));
+    const weight = INTENSIFIERS.has(words[index - 1] ?? '') ? 1.5 : 1;
+    for (const emotion of emotions) {
+      if (!negated) {
+        scores[emotion] += weight;
+      } else if (emotion === 'happy') {
+        // "not happy" leans sad; other negated emotions simply don't count.
+        scores.sad += weight * 0.5;
+      }
+    }
+  });
+  const exclamations = (sentence.match(/!/g) ?? []).length;
+  if (exclamations > 0) {
+    scores.happy *= 1.25;
+    scores.angry *= 1.25;
+    scores.surprised += 0.3 * Math.min(exclamations, 3);
+  }
+  if (sentence.includes('?')) {
+    scores.surprised += 0.3;
+  }
+  return scores;
+};
+
+/**
+ * Suggests one emotion per sentence from a keyword lexicon with simple
+ * negation and intensifier handling. Runs entirely in the browser.
+ */
+export const suggestSentenceEmotions = (text: string): SentenceEmotion[] =>
+  segmentText(text, Number.POSITIVE_INFINITY).map(({ start, end, text: sentence }) => {
+    const scores = scoreSentence(sentence);
+    const [emotion, score] = (Object.entries(scores) as [ExpressiveEmotion, number][]).reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best,
+    );
+    return score < MIN_SCORE
+      ? { start, end, text: sentence, emotion: 'neutral', intensity: DEFAULT_TAG_INTENSITY }
+      : { start, end, text: sentence, emotion, intensity: Math.round(Math.min(1, 0.4 + score * 0.2) * 10) / 10 };
+  });
+
+/**
+ * Inserts the suggested emotion tag in front of each sentence where the mood
+ * changes. Sentences that already open with a tag are left alone.
+ */
+export const annotateScript = (script: string) => {
+  let result = '';
+  let cursor = 0;
+  let current: EmotionKey = 'neutral';
+  let inserted = 0;
+  for (const suggestion of suggestSentenceEmotions(script)) {
+    if (suggestion.text.startsWith('[')) {
+      const [tagged] = parseScript(suggestion.text).emotions;
+      current = tagged?.offset === 0 ? tagged.emotion : current;
+      continue;
+    }
+    if (suggestion.emotion === current) {
+      continue;
+    }
+    result += `${script.slice(cursor, suggestion.start)}${formatEmotionTag(suggestion.emotion, suggestion.intensity)} `;
+    cursor = suggestion.start;
+    current = suggestion.emotion;
+    inserted += 1;
+  }
+  return { script: result + script.slice(cursor), inserted };
+};
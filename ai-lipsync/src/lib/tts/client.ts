@@ -0,0 +1,59 @@
+import type {
+  TtsErrorBody,
+  TtsProviderId,
+  TtsProvidersResponseBody,
+  TtsResponseBody,
+  TtsSegmentBody,
+} from './types';
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  provider?: TtsProviderId;
+  // Offsets in `text` where synthesis must be split, e.g. for scripted pauses.
+  breaks?: number[];
+}
+
+export interface SpeechSegment extends Omit<TtsSegmentBody, 'audio'> {
+  audio: ArrayBuffer;
+}
+
+export interface SpeechResponse extends Omit<TtsResponseBody, 'segments'> {
+  segments: SpeechSegment[];
+}
+
+const TTS_ENDPOINT = '/api/tts';
+
+export const decodeBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+export const requestSpeech = async (request: SpeechRequest, signal?: AbortSignal): Promise<SpeechResponse> => {
+  const response = await fetch(TTS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  const payload = (await response.json().catch(() => null)) as TtsResponseBody | TtsErrorBody | null;
+  if (!response.ok || !payload || 'error' in payload) {
+    throw new Error(payload && 'error' in payload ? payload.error : 'Unable to generate speech.');
+  }
+  return {
+    ...payload,
+    segments: payload.segments.map((segment) => ({ ...segment, audio: decodeBase64(segment.audio) })),
+  };
+};
+
+export const fetchTtsProviders = async (signal?: AbortSignal): Promise<TtsProvidersResponseBody> => {
+  const response = await fetch(TTS_ENDPOINT, { signal });
+  if (!response.ok) {
+    throw new Error('Unable to list speech providers.');
+  }
+  return response.json();
+};
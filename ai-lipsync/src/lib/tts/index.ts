@@ -0,0 +1,58 @@
+import { azureProvider } from './providers/azure';
+import { elevenLabsProvider } from './providers/elevenLabs';
+import { googleCloudProvider } from './providers/googleCloud';
+import { googleTranslateProvider } from './providers/googleTranslate';
+import { localProvider } from './providers/local';
+import { openAiProvider } from './providers/openai';
+import {
+  TTS_PROVIDER_IDS,
+  TtsError,
+  type TtsProvider,
+  type TtsProviderId,
+  type TtsProviderInfo,
+} from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  'google-cloud': googleCloudProvider,
+  azure: azureProvider,
+  elevenlabs: elevenLabsProvider,
+  openai: openAiProvider,
+  local: localProvider,
+  'google-translate': googleTranslateProvider,
+};
+
+const isProviderId = (value: unknown): value is TtsProviderId =>
+  typeof value === 'string' && (TTS_PROVIDER_IDS as readonly string[]).includes(value);
+
+// `TTS_PROVIDER` if set, otherwise the first configured provider.
+export const getDefaultProviderId = (): TtsProviderId | null => {
+  const configured = process.env.TTS_PROVIDER;
+  if (isProviderId(configured)) {
+    return configured;
+  }
+  return TTS_PROVIDER_IDS.find((id) => PROVIDERS[id].isConfigured()) ?? null;
+};
+
+export const resolveTtsProvider = (requested?: unknown): TtsProvider => {
+  const id = requested ?? getDefaultProviderId();
+  if (id === null) {
+    throw new TtsError('provider_not_configured', 'No speech provider is configured.');
+  }
+  if (!isProviderId(id)) {
+    throw new TtsError('unknown_provider', `Unknown TTS provider "${String(id)}".`);
+  }
+  const provider = PROVIDERS[id];
+  if (!provider.isConfigured()) {
+    throw new TtsError('provider_not_configured', `${provider.label} is not configured.`, id);
+  }
+  return provider;
+};
+
+export const listTtsProviders = (): TtsProviderInfo[] =>
+  TTS_PROVIDER_IDS.map((id) => ({
+    id,
+    label: PROVIDERS[id].label,
+    configured: PROVIDERS[id].isConfigured(),
+  }));
@@ -0,0 +1,43 @@
+import { isLocaleVoice, TtsError, type TtsProvider } from '../types';
+import { escapeXml, fetchFromProvider, requireEnv } from './shared';
+
+const DEFAULT_VOICES: Record<string, string> = {
+  'en-US': 'en-US-JennyNeural',
+  'en-GB': 'en-GB-SoniaNeural',
+  'en-AU': 'en-AU-NatashaNeural',
+  'es-ES': 'es-ES-ElviraNeural',
+  'fr-FR': 'fr-FR-DeniseNeural',
+};
+
+export const azureProvider: TtsProvider = {
+  id: 'azure',
+  label: 'Azure AI Speech',
+  maxChars: 3000,
+  isConfigured: () => Boolean(process.env.AZURE_SPEECH_KEY && process.env.AZURE_SPEECH_REGION),
+  synthesize: async ({ text, voice }, signal) => {
+    const key = requireEnv('AZURE_SPEECH_KEY', 'azure');
+    const region = requireEnv('AZURE_SPEECH_REGION', 'azure');
+    const voiceName = isLocaleVoice(voice) ? DEFAULT_VOICES[voice] : voice;
+    if (!voiceName) {
+      throw new TtsError('invalid_request', `No Azure voice configured for ${voice}.`, 'azure');
+    }
+    const locale = voiceName.split('-').slice(0, 2).join('-');
+    const ssml = `<speak version='1.0' xml:lang='${locale}'><voice name='${escapeXml(voiceName)}'>${escapeXml(text)}</voice></speak>`;
+
+    const response = await fetchFromProvider(
+      'azure',
+      `https://${region}.tts.speech.microsoft.com/cognitiveservices/v1`,
+      {
+        method: 'POST',
+        headers: {
+          'Ocp-Apim-Subscription-Key': key,
+          'Content-Type': 'application/ssml+xml',
+          'X-Microsoft-OutputFormat': 'audio-24khz-96kbitrate-mono-mp3',
+        },
+        body: ssml,
+        signal,
+      },
+    );
+    return { audio: await response.arrayBuffer(), mimeType: 'audio/mpeg' };
+  },
+};
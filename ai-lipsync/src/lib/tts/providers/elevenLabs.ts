@@ -0,0 +1,70 @@
+import type { PhonemeTiming, WordTiming } from '../../alignment';
+import { tokenizeWords, wordToVisemes } from '../../phonemes';
+import { isLocaleVoice, TtsError, type TtsProvider } from '../types';
+import { fetchFromProvider, requireEnv, toArrayBuffer } from './shared';
+
+const DEFAULT_MODEL = 'eleven_multilingual_v2';
+
+interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+interface TimestampedResponse {
+  audio_base64?: string;
+  alignment?: CharacterAlignment | null;
+}
+
+// Character timings map straight onto words and graphemes; bail out if they don't line up with the input.
+const timingsFromAlignment = (text: string, alignment?: CharacterAlignment | null) => {
+  if (!alignment || alignment.characters.join('') !== text) {
+    return {};
+  }
+  const starts = alignment.character_start_times_seconds;
+  const ends = alignment.character_end_times_seconds;
+  const words: WordTiming[] = [];
+  const phonemes: PhonemeTiming[] = [];
+  for (const token of tokenizeWords(text)) {
+    words.push({ ...token, start: starts[token.charStart], end: ends[token.charEnd - 1] });
+    for (const item of wordToVisemes(token.text)) {
+      phonemes.push({
+        viseme: item.viseme,
+        start: starts[token.charStart + item.charStart],
+        end: ends[token.charStart + item.charEnd - 1],
+      });
+    }
+  }
+  return { words, phonemes };
+};
+
+export const elevenLabsProvider: TtsProvider = {
+  id: 'elevenlabs',
+  label: 'ElevenLabs',
+  maxChars: 5000,
+  isConfigured: () => Boolean(process.env.ELEVENLABS_API_KEY),
+  synthesize: async ({ text, voice }, signal) => {
+    const apiKey = requireEnv('ELEVENLABS_API_KEY', 'elevenlabs');
+    const voiceId = isLocaleVoice(voice) ? requireEnv('ELEVENLABS_VOICE_ID', 'elevenlabs') : voice;
+    const url = new URL(
+      `https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(voiceId)}/with-timestamps`,
+    );
+    url.searchParams.set('output_format', 'mp3_44100_128');
+
+    const response = await fetchFromProvider('elevenlabs', url, {
+      method: 'POST',
+      headers: { 'xi-api-key': apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, model_id: process.env.ELEVENLABS_MODEL_ID ?? DEFAULT_MODEL }),
+      signal,
+    });
+    const payload = (await response.json()) as TimestampedResponse;
+    if (!payload.audio_base64) {
+      throw new TtsError('provider_error', 'ElevenLabs returned no audio.', 'elevenlabs');
+    }
+    return {
+      audio: toArrayBuffer(Buffer.from(payload.audio_base64, 'base64')),
+      mimeType: 'audio/mpeg',
+      ...timingsFromAlignment(text, payload.alignment),
+    };
+  },
+};
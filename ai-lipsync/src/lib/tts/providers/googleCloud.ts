@@ -0,0 +1,72 @@
+import type { WordTiming } from '../../alignment';
+import { tokenizeWords } from '../../phonemes';
+import { isLocaleVoice, TtsError, type TtsProvider } from '../types';
+import { escapeXml, fetchFromProvider, requireEnv, toArrayBuffer } from './shared';
+
+// Timepoints are only available on v1beta1.
+const ENDPOINT = 'https://texttospeech.googleapis.com/v1beta1/text:synthesize';
+
+interface Timepoint {
+  markName: string;
+  timeSeconds: number;
+}
+
+// Every word gets an SSML mark so the response carries its start time.
+const toMarkedSsml = (text: string) => {
+  const tokens = tokenizeWords(text);
+  let cursor = 0;
+  let ssml = '<speak>';
+  tokens.forEach((token, index) => {
+    ssml += `${escapeXml(text.slice(cursor, token.charStart))}<mark name="w${index}"/>${escapeXml(token.text)}`;
+    cursor = token.charEnd;
+  });
+  return { tokens, ssml: `${ssml}${escapeXml(text.slice(cursor))}</speak>` };
+};
+
+// Marks only give word starts, so each word runs until the next one begins.
+const wordsFromTimepoints = (tokens: ReturnType<typeof tokenizeWords>, timepoints: Timepoint[] = []) => {
+  const starts = new Map(timepoints.map((point) => [point.markName, point.timeSeconds]));
+  if (tokens.some((_, index) => !starts.has(`w${index}`))) {
+    return undefined;
+  }
+  return tokens.map((token, index): WordTiming => {
+    const start = starts.get(`w${index}`)!;
+    return { ...token, start, end: starts.get(`w${index + 1}`) ?? start };
+  });
+};
+
+export const googleCloudProvider: TtsProvider = {
+  id: 'google-cloud',
+  label: 'Google Cloud Text-to-Speech',
+  // SSML marks count towards the 5000 byte request limit.
+  maxChars: 1000,
+  isConfigured: () => Boolean(process.env.GOOGLE_CLOUD_TTS_API_KEY),
+  synthesize: async ({ text, voice }, signal) => {
+    const apiKey = requireEnv('GOOGLE_CLOUD_TTS_API_KEY', 'google-cloud');
+    const languageCode = isLocaleVoice(voice) ? voice : voice.split('-').slice(0, 2).join('-');
+    const url = new URL(ENDPOINT);
+    url.searchParams.set('key', apiKey);
+    const { tokens, ssml } = toMarkedSsml(text);
+
+    const response = await fetchFromProvider('google-cloud', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        input: { ssml },
+        voice: isLocaleVoice(voice) ? { languageCode } : { languageCode, name: voice },
+        audioConfig: { audioEncoding: 'MP3' },
+        enableTimePointing: ['SSML_MARK'],
+      }),
+      signal,
+    });
+    const payload = (await response.json()) as { audioContent?: string; timepoints?: Timepoint[] };
+    if (!payload.audioContent) {
+      throw new TtsError('provider_error', 'Google Cloud returned no audio.', 'google-cloud');
+    }
+    return {
+      audio: toArrayBuffer(Buffer.from(payload.audioContent, 'base64')),
+      mimeType: 'audio/mpeg',
+      words: wordsFromTimepoints(tokens, payload.timepoints),
+    };
+  },
+};
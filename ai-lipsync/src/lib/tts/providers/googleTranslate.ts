@@ -0,0 +1,22 @@
+import type { TtsProvider } from '../types';
+import { fetchFromProvider } from './shared';
+
+const GOOGLE_TTS_ENDPOINT = 'https://translate.googleapis.com/translate_tts';
+
+export const googleTranslateProvider: TtsProvider = {
+  id: 'google-translate',
+  label: 'Google Translate (unofficial)',
+  maxChars: 200,
+  // An undocumented endpoint, so it is only offered when explicitly enabled.
+  isConfigured: () => process.env.ENABLE_GOOGLE_TRANSLATE_TTS === 'true',
+  synthesize: async ({ text, voice }, signal) => {
+    const url = new URL(GOOGLE_TTS_ENDPOINT);
+    url.searchParams.set('ie', 'UTF-8');
+    url.searchParams.set('client', 'tw-ob');
+    url.searchParams.set('tl', voice);
+    url.searchParams.set('q', text);
+
+    const response = await fetchFromProvider('google-translate', url, { signal });
+    return { audio: await response.arrayBuffer(), mimeType: 'audio/mpeg' };
+  },
+};
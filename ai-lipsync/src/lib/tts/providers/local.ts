@@ -0,0 +1,77 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { isLocaleVoice, TtsError, type TtsProvider } from '../types';
+import { requireEnv, toArrayBuffer } from './shared';
+
+type LocalEngine = 'piper' | 'espeak';
+
+const runProcess = (command: string, args: string[], input: string, signal?: AbortSignal) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const child = spawn(command, args, { signal, stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', (error) => {
+      console.error(`Local TTS engine ${command} failed to start`, error);
+      reject(new TtsError('provider_error', `Unable to run ${path.basename(command)}.`, 'local'));
+    });
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+        return;
+      }
+      console.error(`Local TTS engine ${command} exited with ${code}`, Buffer.concat(stderr).toString());
+      reject(new TtsError('provider_error', `${path.basename(command)} exited with code ${code}.`, 'local'));
+    });
+    child.stdin.end(input);
+  });
+
+const synthesizeWithPiper = async (text: string, voice: string, signal?: AbortSignal) => {
+  const model = isLocaleVoice(voice)
+    ? requireEnv('PIPER_MODEL', 'local')
+    : path.join(requireEnv('PIPER_MODEL_DIR', 'local'), `${path.basename(voice)}.onnx`);
+  const workDir = await mkdtemp(path.join(tmpdir(), 'piper-'));
+  const outputFile = path.join(workDir, 'speech.wav');
+  try {
+    await runProcess(
+      process.env.PIPER_BINARY ?? 'piper',
+      ['--model', model, '--output_file', outputFile],
+      text,
+      signal,
+    );
+    return toArrayBuffer(await readFile(outputFile));
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+const synthesizeWithEspeak = async (text: string, voice: string, signal?: AbortSignal) => {
+  const output = await runProcess(
+    process.env.ESPEAK_BINARY ?? 'espeak-ng',
+    ['-v', voice.toLowerCase(), '--stdout', '--stdin'],
+    text,
+    signal,
+  );
+  return toArrayBuffer(output);
+};
+
+export const localProvider: TtsProvider = {
+  id: 'local',
+  label: 'Local engine (Piper / eSpeak)',
+  maxChars: 5000,
+  isConfigured: () => Boolean(process.env.LOCAL_TTS_ENGINE),
+  synthesize: async ({ text, voice }, signal) => {
+    const engine = (process.env.LOCAL_TTS_ENGINE ?? 'espeak') as LocalEngine;
+    if (engine !== 'piper' && engine !== 'espeak') {
+      throw new TtsError('provider_not_configured', `Unknown LOCAL_TTS_ENGINE "${engine}".`, 'local');
+    }
+    const audio =
+      engine === 'piper'
+        ? await synthesizeWithPiper(text, voice, signal)
+        : await synthesizeWithEspeak(text, voice, signal);
+    return { audio, mimeType: 'audio/wav' };
+  },
+};
@@ -0,0 +1,28 @@
+import { isLocaleVoice, type TtsProvider } from '../types';
+import { fetchFromProvider, requireEnv } from './shared';
+
+const ENDPOINT = 'https://api.openai.com/v1/audio/speech';
+const DEFAULT_MODEL = 'gpt-4o-mini-tts';
+const DEFAULT_VOICE = 'alloy';
+
+export const openAiProvider: TtsProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  maxChars: 4096,
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  synthesize: async ({ text, voice }, signal) => {
+    const apiKey = requireEnv('OPENAI_API_KEY', 'openai');
+    const response = await fetchFromProvider('openai', ENDPOINT, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: process.env.OPENAI_TTS_MODEL ?? DEFAULT_MODEL,
+        voice: isLocaleVoice(voice) ? (process.env.OPENAI_TTS_VOICE ?? DEFAULT_VOICE) : voice,
+        input: text,
+        response_format: 'mp3',
+      }),
+      signal,
+    });
+    return { audio: await response.arrayBuffer(), mimeType: 'audio/mpeg' };
+  },
+};
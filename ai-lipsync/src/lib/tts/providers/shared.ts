@@ -0,0 +1,43 @@
+import { TtsError, type TtsProviderId } from '../types';
+
+export const requireEnv = (name: string, provider: TtsProviderId) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new TtsError('provider_not_configured', `${name} is not set.`, provider);
+  }
+  return value;
+};
+
+export const fetchFromProvider = async (
+  provider: TtsProviderId,
+  input: string | URL,
+  init: RequestInit,
+) => {
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw error;
+    }
+    console.error(`TTS provider ${provider} unreachable`, error);
+    throw new TtsError('provider_error', 'Speech provider is unreachable.', provider);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    console.error(`TTS provider ${provider} failed`, response.status, detail.slice(0, 500));
+    throw new TtsError('provider_error', `Speech provider responded with ${response.status}.`, provider);
+  }
+  return response;
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const toArrayBuffer = (buffer: Buffer) =>
+  buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
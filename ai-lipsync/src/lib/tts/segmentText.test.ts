@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { segmentText } from './segmentText';
+
+describe('segmentText', () => {
+  it('keeps text that fits in one chunk whole', () => {
+    expect(segmentText('Hello there. How are you?', 200)).toEqual([
+      { text: 'Hello there.', start: 0, end: 12, boundary: 'sentence' },
+      { text: 'How are you?', start: 13, end: 25, boundary: 'end' },
+    ]);
+  });
+
+  it('splits long sentences on clauses, then on words', () => {
+    const text = 'One two three four five, six seven eight nine ten eleven twelve.';
+    const segments = segmentText(text, 20);
+    expect(segments.map((segment) => segment.text)).toEqual([
+      'One two three four',
+      'five,',
+      'six seven eight',
+      'nine ten eleven',
+      'twelve.',
+    ]);
+    expect(segments.map((segment) => segment.boundary)).toEqual(['word', 'clause', 'word', 'word', 'end']);
+    segments.forEach((segment) => expect(segment.text.length).toBeLessThanOrEqual(20));
+  });
+
+  it('reports offsets into the original text', () => {
+    const text = '  First sentence.   Second one!  ';
+    for (const segment of segmentText(text, 200)) {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    }
+  });
+
+  it('ends a chunk at every break without splitting words', () => {
+    const text = 'Wait for it and now go.';
+    const segments = segmentText(text, 200, [8, 13]);
+    expect(segments.map((segment) => segment.text)).toEqual(['Wait for', 'it and', 'now go.']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(segmentText('   ', 200)).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+export type SegmentBoundary = 'sentence' | 'clause' | 'word' | 'end';
+
+export interface TextSegment {
+  text: string;
+  start: number;
+  end: number;
+  boundary: SegmentBoundary;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const SENTENCE_END = /[.!?…。！？]+["'”’)\]]*(?=\s|$)/g;
+const CLAUSE_END = /[,;:—–]+(?=\s|$)/g;
+
+const splitAfter = (text: string, span: Span, pattern: RegExp): Span[] => {
+  const spans: Span[] = [];
+  const slice = text.slice(span.start, span.end);
+  let cursor = 0;
+  for (const match of slice.matchAll(pattern)) {
+    const end = (match.index ?? 0) + match[0].length;
+    spans.push({ start: span.start + cursor, end: span.start + end });
+    cursor = end;
+  }
+  if (cursor < slice.length) {
+    spans.push({ start: span.start + cursor, end: span.end });
+  }
+  return spans;
+};
+
+const trimSpan = (text: string, span: Span): Span | null => {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+const splitWords = (text: string, span: Span, maxChars: number): Span[] => {
+  const spans: Span[] = [];
+  let start = span.start;
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars + 1);
+    const lastSpace = window.lastIndexOf(' ');
+    const end = lastSpace > 0 ? start + lastSpace : start + maxChars;
+    spans.push({ start, end });
+    start = end;
+  }
+  spans.push({ start, end: span.end });
+  return spans;
+};
+
+// Forced breaks move forward to the next whitespace so they never split a word or its punctuation.
+const splitAtBreaks = (text: string, breaks: number[]): Span[] => {
+  const spans: Span[] = [];
+  let start = 0;
+  for (const offset of [...breaks].sort((a, b) => a - b)) {
+    let end = Math.min(Math.max(offset, start), text.length);
+    while (end > 0 && end < text.length && /\S/.test(text[end - 1]) && /\S/.test(text[end])) {
+      end++;
+    }
+    if (end > start) {
+      spans.push({ start, end });
+      start = end;
+    }
+  }
+  spans.push({ start, end: text.length });
+  return spans;
+};
+
+/**
+ * Splits text into chunks no longer than `maxChars`, preferring sentence
+ * boundaries, then clause punctuation, then whitespace. `breaks` are offsets
+ * where a chunk must end regardless. Offsets refer to the original string so
+ * callers can map audio back onto the script.
+ */
+export const segmentText = (text: string, maxChars: number, breaks: number[] = []): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const push = (span: Span, boundary: SegmentBoundary) => {
+    const trimmed = trimSpan(text, span);
+    if (trimmed) {
+      segments.push({ text: text.slice(trimmed.start, trimmed.end), ...trimmed, boundary });
+    }
+  };
+
+  const sentences = splitAtBreaks(text, breaks).flatMap((part) => splitAfter(text, part, SENTENCE_END));
+  for (const sentence of sentences) {
+    if (sentence.end - sentence.start <= maxChars) {
+      push(sentence, 'sentence');
+      continue;
+    }
+    const clauses = splitAfter(text, sentence, CLAUSE_END);
+    clauses.forEach((clause, clauseIndex) => {
+      const clauseBoundary = clauseIndex === clauses.length - 1 ? 'sentence' : 'clause';
+      if (clause.end - clause.start <= maxChars) {
+        push(clause, clauseBoundary);
+        return;
+      }
+      const words = splitWords(text, clause, maxChars);
+      words.forEach((word, wordIndex) => {
+        push(word, wordIndex === words.length - 1 ? clauseBoundary : 'word');
+      });
+    });
+  }
+
+  if (segments.length > 0) {
+    segments[segments.length - 1].boundary = 'end';
+  }
+  return segments;
+};
@@ -0,0 +1,106 @@
+import type { PhonemeTiming, WordTiming } from '../alignment';
+import type { SegmentBoundary } from './segmentText';
+
+// In order of preference for the default provider.
+export const TTS_PROVIDER_IDS = [
+  'google-cloud',
+  'azure',
+  'elevenlabs',
+  'openai',
+  'local',
+  'google-translate',
+] as const;
+
+export type TtsProviderId = (typeof TTS_PROVIDER_IDS)[number];
+
+export type TtsErrorCode =
+  | 'invalid_request'
+  | 'unknown_provider'
+  | 'provider_not_configured'
+  | 'provider_error'
+  | 'internal_error';
+
+export interface TtsRequest {
+  text: string;
+  voice: string;
+}
+
+export interface TtsResult {
+  audio: ArrayBuffer;
+  mimeType: string;
+  words?: WordTiming[];
+  phonemes?: PhonemeTiming[];
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  maxChars: number;
+  isConfigured: () => boolean;
+  synthesize: (request: TtsRequest, signal?: AbortSignal) => Promise<TtsResult>;
+}
+
+export interface TtsProviderInfo {
+  id: TtsProviderId;
+  label: string;
+  configured: boolean;
+}
+
+export interface TtsProvidersResponseBody {
+  // Null when no provider is configured.
+  defaultProvider: TtsProviderId | null;
+  providers: TtsProviderInfo[];
+}
+
+export interface TtsSegmentBody {
+  text: string;
+  start: number;
+  end: number;
+  boundary: SegmentBoundary;
+  mimeType: string;
+  audio: string;
+  words?: WordTiming[];
+  phonemes?: PhonemeTiming[];
+}
+
+export interface TtsResponseBody {
+  provider: TtsProviderId;
+  voice: string;
+  segments: TtsSegmentBody[];
+}
+
+export interface TtsErrorBody {
+  error: string;
+  code: TtsErrorCode;
+  provider?: TtsProviderId;
+}
+
+const STATUS_BY_CODE: Record<TtsErrorCode, number> = {
+  invalid_request: 400,
+  unknown_provider: 400,
+  provider_not_configured: 503,
+  provider_error: 502,
+  internal_error: 500,
+};
+
+export class TtsError extends Error {
+  readonly code: TtsErrorCode;
+  readonly provider?: TtsProviderId;
+
+  constructor(code: TtsErrorCode, message: string, provider?: TtsProviderId) {
+    super(message);
+    this.name = 'TtsError';
+    this.code = code;
+    this.provider = provider;
+  }
+
+  get status() {
+    return STATUS_BY_CODE[this.code];
+  }
+
+  toBody(): TtsErrorBody {
+    return { error: this.message, code: this.code, provider: this.provider };
+  }
+}
+
+export const isLocaleVoice = (voice: string) => /^[a-z]{2,3}-[A-Z]{2}$/.test(voice);
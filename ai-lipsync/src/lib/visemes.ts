@@ -0,0 +1,161 @@
+import type { SpectralFeatures } from './audioFeatures';
+
+export const VISEME_KEYS = [
+  'sil',
+  'PP',
+  'FF',
+  'TH',
+  'DD',
+  'kk',
+  'CH',
+  'SS',
+  'nn',
+  'RR',
+  'aa',
+  'E',
+  'ih',
+  'oh',
+  'ou',
+] as const;
+
+export type VisemeKey = (typeof VISEME_KEYS)[number];
+
+export type VisemeWeights = Record<VisemeKey, number>;
+
+export interface MouthShape {
+  open: number;
+  width: number;
+  round: number;
+  teeth: number;
+}
+
+export const VISEME_MOUTH_SHAPES: Record<VisemeKey, MouthShape> = {
+  sil: { open: 0, width: 0.5, round: 0, teeth: 0 },
+  PP: { open: 0, width: 0.45, round: 0.1, teeth: 0 },
+  FF: { open: 0.12, width: 0.55, round: 0, teeth: 0.9 },
+  TH: { open: 0.2, width: 0.55, round: 0, teeth: 0.7 },
+  DD: { open: 0.3, width: 0.6, round: 0, teeth: 0.5 },
+  kk: { open: 0.35, width: 0.55, round: 0.1, teeth: 0.3 },
+  CH: { open: 0.25, width: 0.4, round: 0.6, teeth: 0.8 },
+  SS: { open: 0.15, width: 0.75, round: 0, teeth: 1 },
+  nn: { open: 0.2, width: 0.55, round: 0, teeth: 0.4 },
+  RR: { open: 0.3, width: 0.4, round: 0.5, teeth: 0.3 },
+  aa: { open: 1, width: 0.7, round: 0.1, teeth: 0.2 },
+  E: { open: 0.5, width: 0.95, round: 0, teeth: 0.6 },
+  ih: { open: 0.4, width: 0.8, round: 0, teeth: 0.5 },
+  oh: { open: 0.7, width: 0.4, round: 0.8, teeth: 0.1 },
+  ou: { open: 0.35, width: 0.22, round: 1, teeth: 0 },
+};
+
+// Prototype feature vectors: [centroid, zcr, low, mid, high, sibilance, flatness].
+const VISEME_PROTOTYPES: Record<Exclude<VisemeKey, 'sil'>, number[]> = {
+  PP: [0.25, 0.05, 0.75, 0.15, 0.05, 0.02, 0.1],
+  FF: [0.7, 0.55, 0.15, 0.2, 0.25, 0.4, 0.6],
+  TH: [0.6, 0.45, 0.2, 0.3, 0.25, 0.25, 0.55],
+  DD: [0.45, 0.2, 0.35, 0.35, 0.2, 0.1, 0.25],
+  kk: [0.5, 0.25, 0.3, 0.4, 0.2, 0.1, 0.3],
+  CH: [0.75, 0.6, 0.1, 0.2, 0.4, 0.3, 0.4],
+  SS: [0.9, 0.8, 0.05, 0.1, 0.2, 0.65, 0.5],
+  nn: [0.2, 0.06, 0.8, 0.12, 0.05, 0.02, 0.12],
+  RR: [0.35, 0.1, 0.45, 0.4, 0.1, 0.03, 0.12],
+  aa: [0.42, 0.1, 0.3, 0.6, 0.08, 0.02, 0.08],
+  E: [0.55, 0.14, 0.25, 0.35, 0.35, 0.05, 0.1],
+  ih: [0.5, 0.12, 0.3, 0.4, 0.25, 0.04, 0.1],
+  oh: [0.3, 0.08, 0.5, 0.45, 0.04, 0.01, 0.06],
+  ou: [0.22, 0.06, 0.7, 0.25, 0.03, 0.01, 0.06],
+};
+
+const FEATURE_WEIGHTS = [2.2, 1.6, 1.4, 1.2, 1.2, 1.6, 0.8];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const createVisemeWeights = (): VisemeWeights =>
+  VISEME_KEYS.reduce((weights, key) => {
+    weights[key] = key === 'sil' ? 1 : 0;
+    return weights;
+  }, {} as VisemeWeights);
+
+const toFeatureVector = (features: SpectralFeatures) => [
+  clamp01(Math.log2(Math.max(features.spectralCentroid, 100) / 100) / Math.log2(80)),
+  clamp01(features.zeroCrossingRate * 2.5),
+  features.bands.low,
+  features.bands.mid,
+  features.bands.high,
+  features.bands.sibilance,
+  clamp01(features.spectralFlatness * 2),
+];
+
+/**
+ * Scores each viseme by its distance to a spectral prototype and mixes the
+ * result with silence according to how much voice activity the frame carries.
+ */
+export const classifyVisemes = (
+  features: SpectralFeatures,
+  activity: number,
+  target: VisemeWeights = createVisemeWeights(),
+): VisemeWeights => {
+  const vector = toFeatureVector(features);
+  const voiced = clamp01((activity - 0.06) / 0.5);
+  let total = 0;
+
+  for (const key of VISEME_KEYS) {
+    if (key === 'sil') {
+      continue;
+    }
+    const prototype = VISEME_PROTOTYPES[key];
+    let distance = 0;
+    for (let i = 0; i < prototype.length; i++) {
+      const delta = vector[i] - prototype[i];
+      distance += delta * delta * FEATURE_WEIGHTS[i];
+    }
+    const score = Math.exp(-distance * 6);
+    target[key] = score;
+    total += score;
+  }
+
+  for (const key of VISEME_KEYS) {
+    if (key !== 'sil') {
+      target[key] = total > 0 ? (target[key] / total) * voiced : 0;
+    }
+  }
+  target.sil = 1 - voiced;
+  return target;
+};
+
+export const blendVisemeWeights = (
+  current: VisemeWeights,
+  next: VisemeWeights,
+  amount: number,
+): VisemeWeights =>
+  VISEME_KEYS.reduce((weights, key) => {
+    weights[key] = current[key] + (next[key] - current[key]) * amount;
+    return weights;
+  }, {} as VisemeWeights);
+
+export const blendMouthShape = (weights: VisemeWeights): MouthShape => {
+  const shape: MouthShape = { open: 0, width: 0, round: 0, teeth: 0 };
+  let total = 0;
+  for (const key of VISEME_KEYS) {
+    const weight = weights[key];
+    if (weight <= 0) {
+      continue;
+    }
+    const target = VISEME_MOUTH_SHAPES[key];
+    shape.open += target.open * weight;
+    shape.width += target.width * weight;
+    shape.round += target.round * weight;
+    shape.teeth += target.teeth * weight;
+    total += weight;
+  }
+  if (total <= 0) {
+    return { ...VISEME_MOUTH_SHAPES.sil };
+  }
+  shape.open /= total;
+  shape.width /= total;
+  shape.round /= total;
+  shape.teeth /= total;
+  return shape;
+};
+
+export const dominantViseme = (weights: VisemeWeights): VisemeKey =>
+  VISEME_KEYS.reduce((best, key) => (weights[key] > weights[best] ? key : best), 'sil' as VisemeKey);
@@ -0,0 +1,37 @@
+export const WAVEFORM_BINS = 1024;
+
+/**
+ * Peak amplitude per bin across all channels, normalised so the loudest bin is 1.
+ */
+export const computeWaveformPeaks = (buffer: AudioBuffer, bins = WAVEFORM_BINS): Float32Array => {
+  const peaks = new Float32Array(bins);
+  const samplesPerBin = buffer.length / bins;
+  if (samplesPerBin <= 0) {
+    return peaks;
+  }
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let bin = 0; bin < bins; bin++) {
+      const start = Math.floor(bin * samplesPerBin);
+      const end = Math.min(data.length, Math.max(start + 1, Math.floor((bin + 1) * samplesPerBin)));
+      let peak = peaks[bin];
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) {
+          peak = value;
+        }
+      }
+      peaks[bin] = peak;
+    }
+  }
+  let max = 0;
+  for (const peak of peaks) {
+    max = Math.max(max, peak);
+  }
+  if (max > 0) {
+    for (let bin = 0; bin < bins; bin++) {
+      peaks[bin] /= max;
+    }
+  }
+  return peaks;
+};
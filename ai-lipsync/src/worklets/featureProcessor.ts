@@ -0,0 +1,86 @@
+import type { FeatureExtractor } from '../lib/audioFeatures';
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings don't describe.
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export const FEATURE_PROCESSOR_NAME = 'lipsync-features';
+
+export interface FeatureProcessorOptions {
+  frameSize: number;
+  hopSize: number;
+}
+
+// Posted to the processor to let it end.
+export const FEATURE_PROCESSOR_STOP = 'stop';
+
+/**
+ * Registers a processor that keeps the last `frameSize` input samples and posts
+ * the features of that window every `hopSize` samples, stamped with the audio
+ * context time at the end of the window.
+ *
+ * Runs inside the worklet scope from its source text, so it may only use its
+ * arguments and the worklet globals.
+ */
+export const registerFeatureProcessor = (
+  createExtractor: (frameSize: number) => FeatureExtractor,
+  name: string,
+  stopMessage: string,
+) => {
+  class FeatureProcessor extends AudioWorkletProcessor {
+    declare extract: FeatureExtractor;
+    declare history: Float32Array;
+    declare window: Float32Array;
+    declare hopSize: number;
+    declare writeIndex: number;
+    declare sinceHop: number;
+    declare active: boolean;
+
+    constructor(options: AudioWorkletNodeOptions) {
+      super();
+      const { frameSize, hopSize } = options.processorOptions as FeatureProcessorOptions;
+      this.extract = createExtractor(frameSize);
+      this.history = new Float32Array(frameSize);
+      this.window = new Float32Array(frameSize);
+      this.hopSize = hopSize;
+      this.writeIndex = 0;
+      this.sinceHop = 0;
+      this.active = true;
+      this.port.onmessage = (event) => {
+        if (event.data === stopMessage) {
+          this.active = false;
+        }
+      };
+    }
+
+    process(inputs: Float32Array[][]) {
+      const samples = inputs[0]?.[0];
+      if (!samples) {
+        return this.active;
+      }
+      const size = this.history.length;
+      for (let i = 0; i < samples.length; i++) {
+        this.history[this.writeIndex] = samples[i];
+        this.writeIndex = (this.writeIndex + 1) % size;
+        this.sinceHop++;
+        if (this.sinceHop >= this.hopSize) {
+          this.sinceHop = 0;
+          for (let j = 0; j < size; j++) {
+            this.window[j] = this.history[(this.writeIndex + j) % size];
+          }
+          this.port.postMessage({ time: currentTime + (i + 1) / sampleRate, ...this.extract(this.window, sampleRate) });
+        }
+      }
+      return this.active;
+    }
+  }
+
+  registerProcessor(name, FeatureProcessor);
+};